@@ -71,9 +71,10 @@ contract PredictionMarketV4 is Ownable, ReentrancyGuard {
     mapping(uint256 => mapping(uint8 => mapping(address => uint256))) public userShares;
     mapping(uint256 => mapping(address => bool)) public claimed;
     
-    mapping(uint256 => mapping(uint8 => uint256[])) public marketBuyOrders;
-    mapping(uint256 => mapping(uint8 => uint256[])) public marketSellOrders;
-    mapping(address => uint256[]) public userOrderIds;
+    mapping(uint256 => mapping(uint8 => uint256[])) internal marketBuyOrders;
+    mapping(uint256 => mapping(uint8 => uint256[])) internal marketSellOrders;
+    mapping(address => uint256[]) internal userOrderIds;
+    mapping(uint256 => uint256) public orderExpiry;     // 0 = 一直有效（GTC）
     
     mapping(uint256 => PricePoint[]) public priceHistory;
     
@@ -95,6 +96,7 @@ contract PredictionMarketV4 is Ownable, ReentrancyGuard {
     event OrderFilled(uint256 indexed orderId, uint256 filledShares);
     event MarketResolved(uint256 indexed marketId, uint8 winnerIndex);
     event WinningsClaimed(uint256 indexed marketId, address indexed user, uint256 amount);
+    event RefundClaimed(uint256 indexed marketId, address indexed user, uint256 amount);
 
     // ============ 构造函数 ============
     constructor(address _usdc) {
@@ -290,12 +292,6 @@ contract PredictionMarketV4 is Ownable, ReentrancyGuard {
         uint256[] memory shares = outcomeShares[marketId];
         return LMSR.getPrices(shares, m.lmsrB);
     }
-
-    function getPrice(uint256 marketId) external view returns (uint256 yesPrice, uint256 noPrice) {
-        uint256[] memory prices = getPrices(marketId);
-        yesPrice = prices[0];
-        noPrice = prices.length > 1 ? prices[1] : BASIS_POINTS - prices[0];
-    }
     
     /// @notice 获取市场算法类型
     function getMarketAlgorithm(uint256 marketId) external view returns (uint8 algorithm, uint256 lmsrB) {
@@ -337,10 +333,6 @@ contract PredictionMarketV4 is Ownable, ReentrancyGuard {
         }
     }
 
-    function getPriceHistoryLength(uint256 marketId) external view returns (uint256) {
-        return priceHistory[marketId].length;
-    }
-
     // ============ AMM 交易 ============
     
     function buyShares(
@@ -357,6 +349,19 @@ contract PredictionMarketV4 is Ownable, ReentrancyGuard {
 
         usdc.safeTransferFrom(msg.sender, address(this), usdcAmount);
 
+        shares = _buyFromAMM(marketId, outcomeIndex, usdcAmount, minShares, msg.sender);
+    }
+
+    /// @notice AMM 买入（USDC 已在合约内），份额记给 buyer
+    function _buyFromAMM(
+        uint256 marketId,
+        uint8 outcomeIndex,
+        uint256 usdcAmount,
+        uint256 minShares,
+        address buyer
+    ) internal returns (uint256 shares) {
+        Market storage m = markets[marketId];
+
         // 计算费用
         uint256 totalFee = platformFee + m.creatorFee;
         uint256 feeAmount = (usdcAmount * totalFee) / (BASIS_POINTS + totalFee);
@@ -388,11 +393,11 @@ contract PredictionMarketV4 is Ownable, ReentrancyGuard {
         }
         
         m.liquidityPool += netAmount;
-        userShares[marketId][outcomeIndex][msg.sender] += shares;
+        userShares[marketId][outcomeIndex][buyer] += shares;
 
         _recordPrice(marketId);
 
-        emit SharesPurchased(marketId, msg.sender, outcomeIndex, usdcAmount, shares);
+        emit SharesPurchased(marketId, buyer, outcomeIndex, usdcAmount, shares);
     }
     
     /// @notice LMSR 份额计算
@@ -497,6 +502,19 @@ contract PredictionMarketV4 is Ownable, ReentrancyGuard {
 
         userShares[marketId][outcomeIndex][msg.sender] -= sharesAmount;
 
+        usdcOut = _sellToAMM(marketId, outcomeIndex, sharesAmount, minUSDC, msg.sender);
+    }
+
+    /// @notice AMM 卖出（份额已从 seller 名下扣除），USDC 转给 seller
+    function _sellToAMM(
+        uint256 marketId,
+        uint8 outcomeIndex,
+        uint256 sharesAmount,
+        uint256 minUSDC,
+        address seller
+    ) internal returns (uint256 usdcOut) {
+        Market storage m = markets[marketId];
+
         // 根据算法计算返还
         if (m.algorithm == PricingAlgorithm.LMSR) {
             usdcOut = _calculateLMSRSellReturn(marketId, outcomeIndex, sharesAmount);
@@ -521,11 +539,11 @@ contract PredictionMarketV4 is Ownable, ReentrancyGuard {
         
         m.liquidityPool -= usdcOut;
         
-        usdc.safeTransfer(msg.sender, usdcOut);
+        usdc.safeTransfer(seller, usdcOut);
 
         _recordPrice(marketId);
 
-        emit SharesSold(marketId, msg.sender, outcomeIndex, sharesAmount, usdcOut);
+        emit SharesSold(marketId, seller, outcomeIndex, sharesAmount, usdcOut);
     }
     
     /// @notice LMSR 卖出收益计算
@@ -593,6 +611,28 @@ contract PredictionMarketV4 is Ownable, ReentrancyGuard {
         uint256 shares,
         uint256 price
     ) external nonReentrant returns (uint256 orderId) {
+        orderId = _placeBuyOrder(marketId, outcomeIndex, shares, price);
+    }
+
+    /// @notice 带到期时间的限价买单，到期后任何人都可以调用 cancelExpiredOrder 退回押金
+    function placeBuyOrderWithExpiry(
+        uint256 marketId,
+        uint8 outcomeIndex,
+        uint256 shares,
+        uint256 price,
+        uint256 expiry
+    ) external nonReentrant returns (uint256 orderId) {
+        require(expiry > block.timestamp, "Expiry");
+        orderId = _placeBuyOrder(marketId, outcomeIndex, shares, price);
+        orderExpiry[orderId] = expiry;
+    }
+
+    function _placeBuyOrder(
+        uint256 marketId,
+        uint8 outcomeIndex,
+        uint256 shares,
+        uint256 price
+    ) internal returns (uint256 orderId) {
         Market storage m = markets[marketId];
         require(m.status == 0, "Closed");
         require(outcomeIndex < m.numOutcomes, "Invalid");
@@ -630,6 +670,28 @@ contract PredictionMarketV4 is Ownable, ReentrancyGuard {
         uint256 shares,
         uint256 price
     ) external nonReentrant returns (uint256 orderId) {
+        orderId = _placeSellOrder(marketId, outcomeIndex, shares, price);
+    }
+
+    /// @notice 带到期时间的限价卖单，到期后任何人都可以调用 cancelExpiredOrder 退回份额
+    function placeSellOrderWithExpiry(
+        uint256 marketId,
+        uint8 outcomeIndex,
+        uint256 shares,
+        uint256 price,
+        uint256 expiry
+    ) external nonReentrant returns (uint256 orderId) {
+        require(expiry > block.timestamp, "Expiry");
+        orderId = _placeSellOrder(marketId, outcomeIndex, shares, price);
+        orderExpiry[orderId] = expiry;
+    }
+
+    function _placeSellOrder(
+        uint256 marketId,
+        uint8 outcomeIndex,
+        uint256 shares,
+        uint256 price
+    ) internal returns (uint256 orderId) {
         Market storage m = markets[marketId];
         require(m.status == 0, "Closed");
         require(outcomeIndex < m.numOutcomes, "Invalid");
@@ -665,42 +727,159 @@ contract PredictionMarketV4 is Ownable, ReentrancyGuard {
         require(order.user == msg.sender, "Not yours");
         require(order.status == 0, "Not active");
 
+        _refundOrder(orderId);
+    }
+
+    /// @notice 已过期的订单任何人都可以撤销，押金 / 份额退回下单人
+    function cancelExpiredOrder(uint256 orderId) external nonReentrant {
+        require(orderId < orders.length, "Invalid");
+        require(orders[orderId].status == 0, "Not active");
+        require(_isExpired(orderId), "Not expired");
+
+        _refundOrder(orderId);
+    }
+
+    function _refundOrder(uint256 orderId) internal {
+        LimitOrder storage order = orders[orderId];
         order.status = 2;
 
         if (order.isBuy) {
-            usdc.safeTransfer(msg.sender, order.usdcDeposit);
+            usdc.safeTransfer(order.user, order.usdcDeposit);
         } else {
-            userShares[order.marketId][order.outcomeIndex][msg.sender] += order.shares;
+            userShares[order.marketId][order.outcomeIndex][order.user] += order.shares;
         }
 
         emit OrderCancelled(orderId);
     }
 
-    // ============ 用户订单查询 ============
-    function getUserActiveOrders(address user, uint256 marketId) external view returns (LimitOrder[] memory) {
-        uint256[] storage allOrderIds = userOrderIds[user];
-        
-        uint256 count = 0;
-        for (uint256 i = 0; i < allOrderIds.length; i++) {
-            LimitOrder storage order = orders[allOrderIds[i]];
-            if (order.marketId == marketId && order.status == 0) {
-                count++;
-            }
+    function _isExpired(uint256 orderId) internal view returns (bool) {
+        uint256 expiry = orderExpiry[orderId];
+        return expiry != 0 && block.timestamp >= expiry;
+    }
+
+    // ============ 撮合（任何人都可以作为 keeper 调用） ============
+
+    /// @notice 撮合一对交叉的买卖单，按先挂的那一方的价格成交
+    /// @dev 卖单份额和买单 USDC 都已托管在合约里；成交只会按不差于双方限价的价格进行
+    function matchOrders(uint256 buyOrderId, uint256 sellOrderId) external nonReentrant returns (uint256 filledShares) {
+        require(buyOrderId < orders.length && sellOrderId < orders.length, "Invalid");
+        LimitOrder storage buyOrder = orders[buyOrderId];
+        LimitOrder storage sellOrder = orders[sellOrderId];
+        require(buyOrder.isBuy && !sellOrder.isBuy, "Wrong side");
+        require(buyOrder.status == 0 && sellOrder.status == 0, "Not active");
+        require(!_isExpired(buyOrderId) && !_isExpired(sellOrderId), "Expired");
+        require(buyOrder.marketId == sellOrder.marketId && buyOrder.outcomeIndex == sellOrder.outcomeIndex, "Mismatch");
+        require(buyOrder.price >= sellOrder.price, "Not crossed");
+        require(markets[buyOrder.marketId].status == 0, "Closed");
+
+        filledShares = buyOrder.shares < sellOrder.shares ? buyOrder.shares : sellOrder.shares;
+        uint256 execPrice = buyOrder.timestamp <= sellOrder.timestamp ? buyOrder.price : sellOrder.price;
+
+        // 买单这部分份额占用的押金：全部成交时用掉剩余押金，避免取整残留
+        uint256 consumed = filledShares == buyOrder.shares
+            ? buyOrder.usdcDeposit
+            : (filledShares * buyOrder.price) / (BASIS_POINTS * 10**12);
+        uint256 payment = (filledShares * execPrice) / (BASIS_POINTS * 10**12);
+        if (payment > consumed) payment = consumed;
+
+        buyOrder.shares -= filledShares;
+        buyOrder.usdcDeposit -= consumed;
+        if (buyOrder.shares == 0) buyOrder.status = 1;
+
+        userShares[buyOrder.marketId][buyOrder.outcomeIndex][buyOrder.user] += filledShares;
+        // 成交价低于买单限价的差额退回买方
+        uint256 buyerRefund = consumed - payment;
+        if (buyerRefund > 0) {
+            usdc.safeTransfer(buyOrder.user, buyerRefund);
         }
-        
-        LimitOrder[] memory result = new LimitOrder[](count);
-        uint256 index = 0;
-        for (uint256 i = 0; i < allOrderIds.length; i++) {
-            LimitOrder storage order = orders[allOrderIds[i]];
-            if (order.marketId == marketId && order.status == 0) {
-                result[index] = order;
-                index++;
-            }
+
+        emit OrderFilled(buyOrderId, filledShares);
+        emit SharesPurchased(buyOrder.marketId, buyOrder.user, buyOrder.outcomeIndex, payment, filledShares);
+        _settleSellOrder(sellOrderId, filledShares, payment);
+    }
+
+    /// @dev 卖单成交 amount 份、收入 payment（已在合约内）：扣平台费后转给卖方
+    ///      手续费统一由卖方承担：卖单限价是扣费前的价格，和 sellShares / fillOrderWithAMM 一致
+    ///      和 AMM 成交一样发出 SharesSold（买方一侧由调用方发 SharesPurchased），持仓历史只按这两个事件回放
+    function _settleSellOrder(uint256 orderId, uint256 amount, uint256 payment) internal {
+        LimitOrder storage order = orders[orderId];
+        order.shares -= amount;
+        if (order.shares == 0) order.status = 1;
+
+        uint256 fee = (payment * platformFee) / BASIS_POINTS;
+        accumulatedFees += fee;
+        usdc.safeTransfer(order.user, payment - fee);
+
+        emit OrderFilled(orderId, amount);
+        emit SharesSold(order.marketId, order.user, order.outcomeIndex, amount, payment - fee);
+    }
+
+    /// @notice AMM 价格穿过限价时，用 AMM 成交整笔订单
+    /// @dev 买单：押金全部买入，至少拿到挂单份额；卖单：至少拿回 份额 × 限价 扣平台费后的金额
+    ///      （和挂单成交一样，卖方限价是扣费前的价格）
+    function fillOrderWithAMM(uint256 orderId) external nonReentrant returns (uint256 amountOut) {
+        require(orderId < orders.length, "Invalid");
+        LimitOrder storage order = orders[orderId];
+        require(order.status == 0, "Not active");
+        require(!_isExpired(orderId), "Expired");
+        Market storage m = markets[order.marketId];
+        require(m.status == 0, "Closed");
+
+        uint256 filledShares = order.shares;
+        order.status = 1;
+        order.shares = 0;
+
+        if (order.isBuy) {
+            require(block.timestamp < m.endTime, "Ended");
+            uint256 deposit = order.usdcDeposit;
+            order.usdcDeposit = 0;
+            amountOut = _buyFromAMM(order.marketId, order.outcomeIndex, deposit, filledShares, order.user);
+        } else {
+            uint256 gross = (filledShares * order.price) / (BASIS_POINTS * 10**12);
+            uint256 minUSDC = gross - (gross * platformFee) / BASIS_POINTS;
+            amountOut = _sellToAMM(order.marketId, order.outcomeIndex, filledShares, minUSDC, order.user);
         }
-        
-        return result;
+
+        emit OrderFilled(orderId, filledShares);
+    }
+
+    /// @notice 直接吃掉卖单（分单路由的订单簿部分），按卖单价格成交
+    /// @dev 已成交 / 撤销 / 过期 / 其他市场的订单和调用者自己的卖单跳过而不是回滚，报价之后有人抢先成交时只少买那一部分
+    function takeSellOrders(
+        uint256 marketId,
+        uint8 outcomeIndex,
+        uint256[] calldata orderIds,
+        uint256[] calldata shareAmounts
+    ) external nonReentrant returns (uint256 totalShares, uint256 totalCost) {
+        require(orderIds.length == shareAmounts.length, "Length mismatch");
+        Market storage m = markets[marketId];
+        require(m.status == 0, "Closed");
+        require(block.timestamp < m.endTime, "Ended");
+
+        for (uint256 i = 0; i < orderIds.length; i++) {
+            if (orderIds[i] >= orders.length) continue;
+            LimitOrder storage order = orders[orderIds[i]];
+            if (order.isBuy || order.status != 0 || order.marketId != marketId || order.outcomeIndex != outcomeIndex) continue;
+            if (order.user == msg.sender) continue;
+            if (_isExpired(orderIds[i])) continue;
+
+            uint256 amount = shareAmounts[i] < order.shares ? shareAmounts[i] : order.shares;
+            uint256 cost = (amount * order.price) / (BASIS_POINTS * 10**12);
+            if (cost == 0) continue;
+
+            _settleSellOrder(orderIds[i], amount, cost);
+            totalShares += amount;
+            totalCost += cost;
+        }
+
+        require(totalShares > 0, "Nothing filled");
+        // 整个交易原子执行：先向卖方付款，最后一次性收取买方的 USDC
+        usdc.safeTransferFrom(msg.sender, address(this), totalCost);
+        userShares[marketId][outcomeIndex][msg.sender] += totalShares;
+        emit SharesPurchased(marketId, msg.sender, outcomeIndex, totalCost, totalShares);
     }
 
+    // ============ 用户订单查询 ============
     function getAllUserActiveOrders(address user) external view returns (LimitOrder[] memory) {
         uint256[] storage allOrderIds = userOrderIds[user];
         
@@ -796,19 +975,18 @@ contract PredictionMarketV4 is Ownable, ReentrancyGuard {
         require(!claimed[marketId][msg.sender], "Claimed");
 
         uint256 totalUserShares = 0;
+        uint256 totalShares = 0;
         for (uint8 i = 0; i < m.numOutcomes; i++) {
             totalUserShares += userShares[marketId][i][msg.sender];
+            totalShares += outcomeShares[marketId][i];
         }
         require(totalUserShares > 0, "No shares");
 
-        uint256 totalShares = 0;
-        for (uint8 i = 0; i < m.numOutcomes; i++) {
-            totalShares += outcomeShares[marketId][i];
-        }
-        
         refund = (totalUserShares * m.liquidityPool) / totalShares;
         claimed[marketId][msg.sender] = true;
         usdc.safeTransfer(msg.sender, refund);
+
+        emit RefundClaimed(marketId, msg.sender, refund);
     }
 
     // ============ 查询函数 ============
@@ -831,21 +1009,6 @@ contract PredictionMarketV4 is Ownable, ReentrancyGuard {
         return (m.question, m.category, m.imageUrl, m.endTime, m.status, m.numOutcomes, m.liquidityPool, m.winnerIndex, m.creator);
     }
     
-    /// @notice 获取市场完整信息（含算法）
-    function getMarketFullInfo(uint256 marketId) external view returns (
-        string memory question,
-        string memory category,
-        uint256 endTime,
-        uint8 status,
-        uint8 numOutcomes,
-        uint256 liquidityPool,
-        uint8 algorithm,
-        uint256 lmsrB
-    ) {
-        Market storage m = markets[marketId];
-        return (m.question, m.category, m.endTime, m.status, m.numOutcomes, m.liquidityPool, uint8(m.algorithm), m.lmsrB);
-    }
-
     function getMarketOutcomes(uint256 marketId) external view returns (
         string[] memory labels,
         uint256[] memory shares
@@ -876,10 +1039,6 @@ contract PredictionMarketV4 is Ownable, ReentrancyGuard {
         return orders[orderId];
     }
 
-    function getOrderCount() external view returns (uint256) {
-        return orders.length;
-    }
-
     // ============ Admin ============
     function withdrawFees() external onlyOwner {
         uint256 amount = accumulatedFees;
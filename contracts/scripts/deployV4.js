@@ -21,6 +21,7 @@ async function main() {
   const predictionMarket = await PredictionMarket.deploy(usdcAddress);
   await predictionMarket.waitForDeployment();
   const predictionAddress = await predictionMarket.getAddress();
+  const predictionDeployBlock = (await predictionMarket.deploymentTransaction().wait()).blockNumber;
   console.log("   PredictionMarketV4:", predictionAddress);
 
   // 3. Deploy CreatorMarketV3 (升级版：支持多曲线类型)
@@ -29,6 +30,7 @@ async function main() {
   const creatorMarket = await CreatorMarket.deploy(usdcAddress);
   await creatorMarket.waitForDeployment();
   const creatorAddress = await creatorMarket.getAddress();
+  const creatorDeployBlock = (await creatorMarket.deploymentTransaction().wait()).blockNumber;
   console.log("   CreatorMarketV3:", creatorAddress);
 
   // 获取 Chain ID
@@ -40,6 +42,10 @@ async function main() {
     MockUSDC: usdcAddress,
     PredictionMarketV4: predictionAddress,
     CreatorMarketV3: creatorAddress,
+    deployBlocks: {
+      PredictionMarketV4: predictionDeployBlock,
+      CreatorMarketV3: creatorDeployBlock,
+    },
     deployer: deployer.address,
     network: hre.network.name,
     chainId: chainId,
@@ -65,53 +71,19 @@ async function main() {
   );
   console.log("\n✅ Saved deployed-addresses.json");
 
-  // 5. 自动更新前端 config.ts
-  const frontendConfigPath = path.join(__dirname, "../../frontend/src/constants/config.ts");
-  
-  const configContent = `// Auto-generated by deployV4.js - ${new Date().toISOString()}
-// Network: ${hre.network.name} (Chain ID: ${chainId})
-
-export const PREDICTION_MARKET_ADDRESS = "${predictionAddress}";
-export const CREATOR_MARKET_ADDRESS = "${creatorAddress}";
-export const USDC_ADDRESS = "${usdcAddress}";
-export const CHAIN_ID = ${chainId};
-export const CHAIN_NAME = "${hre.network.name}";
-
-// USDC decimals
-export const USDC_DECIMALS = 6;
-
-// Contract versions
-export const PREDICTION_MARKET_VERSION = 4;
-export const CREATOR_MARKET_VERSION = 3;
-
-// Prediction Market 算法类型
-export enum PricingAlgorithm {
-  CPMM = 0,   // 恒定乘积做市商
-  LMSR = 1    // 对数市场评分规则
-}
-
-// Creator Market 曲线类型
-export enum CurveType {
-  LINEAR = 0,      // 线性曲线: price = A * supply + B
-  EXPONENTIAL = 1, // 指数曲线: price = B + A * supply²
-  SIGMOID = 2      // S型曲线: 早期慢 -> 中期快 -> 后期慢
-}
-
-// 默认曲线参数
-export const DEFAULT_CURVE_A = 10000;        // 0.01 USDC 斜率
-export const DEFAULT_CURVE_B = 1000000;      // 1 USDC 基础价格
-export const DEFAULT_INFLECTION = 100;       // Sigmoid 拐点
-export const DEFAULT_LMSR_B = "100000000000000000000"; // 100 * 10^18
-
-// RPC URL (for reference)
-export const RPC_URL = "${getRpcUrl(hre.network.name)}";
-`;
+  // 5. 写入前端部署注册表（按 chainId 合并，不覆盖其他网络）
+  const frontendDeploymentsPath = path.join(__dirname, "../../frontend/src/constants/deployments.json");
 
   try {
-    fs.writeFileSync(frontendConfigPath, configContent);
-    console.log("✅ Updated frontend/src/constants/config.ts");
+    const registry = fs.existsSync(frontendDeploymentsPath)
+      ? JSON.parse(fs.readFileSync(frontendDeploymentsPath, "utf8"))
+      : {};
+    const { features, ...record } = addresses;
+    registry[chainId] = record;
+    fs.writeFileSync(frontendDeploymentsPath, JSON.stringify(registry, null, 2) + "\n");
+    console.log(`✅ Updated frontend/src/constants/deployments.json (chain ${chainId})`);
   } catch (error) {
-    console.log("⚠️ Could not update frontend config:", error.message);
+    console.log("⚠️ Could not update frontend deployments:", error.message);
   }
 
   // 6. 自动更新 Oracle .env
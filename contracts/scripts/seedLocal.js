@@ -0,0 +1,112 @@
+const hre = require("hardhat");
+const fs = require("fs");
+const path = require("path");
+
+// 本地开发数据：在 Hardhat 节点上创建示例市场、creator 和一些交易，方便离线调试前端
+// 用法: npx hardhat run scripts/deployV4.js --network localhost && npx hardhat run scripts/seedLocal.js --network localhost
+
+const USDC = (amount) => hre.ethers.parseUnits(String(amount), 6);
+const DAY = 24 * 60 * 60;
+
+const SAMPLE_MARKETS = [
+  { question: "Will ETH close above $5,000 this month?", category: "crypto", days: 30, liquidity: 500, outcomes: ["Yes", "No"], algorithm: 0 },
+  { question: "Who wins the next Champions League final?", category: "sports", days: 60, liquidity: 800, outcomes: ["Real Madrid", "Man City", "Bayern", "Other"], algorithm: 1 },
+  { question: "Will a new GPT model ship before the end of the quarter?", category: "tech", days: 14, liquidity: 300, outcomes: ["Yes", "No"], algorithm: 1 },
+  // 短期市场：快进时间后结算，用于调试领奖流程
+  { question: "Will it rain in London tomorrow?", category: "entertainment", days: 1, liquidity: 100, outcomes: ["Yes", "No"], algorithm: 0, resolveTo: 0 },
+];
+
+const SAMPLE_CREATORS = [
+  { handle: "VitalikButerin", curveType: 0, A: 10_000, B: 1_000_000, inflection: 100 },
+  { handle: "elonmusk", curveType: 1, A: 100, B: 2_000_000, inflection: 100 },
+  { handle: "naval", curveType: 2, A: 5_000_000, B: 500_000, inflection: 50 },
+];
+
+async function main() {
+  if (hre.network.name !== "localhost" && hre.network.name !== "hardhat") {
+    throw new Error(`seedLocal.js only runs against a local node (got ${hre.network.name})`);
+  }
+
+  const addresses = JSON.parse(fs.readFileSync(path.join(__dirname, "../deployed-addresses.json"), "utf8"));
+  const network = await hre.ethers.provider.getNetwork();
+  if (Number(network.chainId) !== addresses.chainId) {
+    throw new Error("deployed-addresses.json is not for this chain, run deployV4.js --network localhost first");
+  }
+
+  const [owner, ...traders] = await hre.ethers.getSigners();
+  const usdc = await hre.ethers.getContractAt("MockUSDC", addresses.MockUSDC);
+  const predictionMarket = await hre.ethers.getContractAt("PredictionMarketV4", addresses.PredictionMarketV4);
+  const creatorMarket = await hre.ethers.getContractAt("CreatorMarketV3", addresses.CreatorMarketV3);
+
+  // 1. 给 owner 和几个交易账户发 USDC 并授权
+  console.log("\n1. Funding accounts...");
+  const accounts = [owner, ...traders.slice(0, 3)];
+  for (const account of accounts) {
+    await (await usdc.mint(account.address, USDC(50_000))).wait();
+    await (await usdc.connect(account).approve(addresses.PredictionMarketV4, hre.ethers.MaxUint256)).wait();
+    await (await usdc.connect(account).approve(addresses.CreatorMarketV3, hre.ethers.MaxUint256)).wait();
+    console.log("   💰", account.address);
+  }
+
+  // 2. 创建预测市场
+  console.log("\n2. Creating markets...");
+  const firstMarketId = Number(await predictionMarket.getMarketCount());
+  for (const m of SAMPLE_MARKETS) {
+    await (await predictionMarket.createMarketWithAlgorithm(
+      m.question, m.category, "", m.days * DAY, USDC(m.liquidity), 100, m.outcomes, m.algorithm, 0
+    )).wait();
+    console.log(`   📊 [${m.algorithm === 1 ? "LMSR" : "CPMM"}] ${m.question}`);
+  }
+
+  // 3. 注册 creator
+  console.log("\n3. Registering creators...");
+  for (const c of SAMPLE_CREATORS) {
+    if ((await creatorMarket.getCreatorInfo(c.handle))[0]) {
+      console.log(`   ⏭️  @${c.handle} already exists`);
+      continue;
+    }
+    await (await creatorMarket.registerCreatorFull(c.handle, c.curveType, c.A, c.B, c.inflection)).wait();
+    console.log(`   👤 @${c.handle}`);
+  }
+
+  // 4. 交易账户随机买卖，生成价格历史和活动流
+  console.log("\n4. Simulating trades...");
+  for (let round = 0; round < 3; round++) {
+    for (const [i, trader] of traders.slice(0, 3).entries()) {
+      for (const [offset, m] of SAMPLE_MARKETS.entries()) {
+        const outcome = (i + round + offset) % m.outcomes.length;
+        await (await predictionMarket.connect(trader).buyShares(firstMarketId + offset, outcome, USDC(10 + 5 * i), 0)).wait();
+      }
+      for (const c of SAMPLE_CREATORS) {
+        await (await creatorMarket.connect(trader).buyShares(c.handle, 2 + i + round)).wait();
+      }
+    }
+    // 每轮之间快进一段时间，让走势图有时间跨度
+    await hre.network.provider.send("evm_increaseTime", [6 * 60 * 60]);
+    await hre.network.provider.send("evm_mine");
+  }
+  await (await creatorMarket.connect(traders[0]).sellShares(SAMPLE_CREATORS[0].handle, 3)).wait();
+  console.log("   ✅ Trades done");
+
+  // 5. 快进到短期市场结束后结算
+  console.log("\n5. Resolving short-dated markets...");
+  await hre.network.provider.send("evm_increaseTime", [DAY]);
+  await hre.network.provider.send("evm_mine");
+  for (const [offset, m] of SAMPLE_MARKETS.entries()) {
+    if (m.resolveTo === undefined) continue;
+    await (await predictionMarket.resolveMarket(firstMarketId + offset, m.resolveTo)).wait();
+    console.log(`   🏁 "${m.question}" → ${m.outcomes[m.resolveTo]}`);
+  }
+
+  console.log("\n" + "=".repeat(60));
+  console.log("🌱 LOCAL CHAIN SEEDED");
+  console.log("=".repeat(60));
+  console.log(`   Markets:  ${SAMPLE_MARKETS.length} (ids ${firstMarketId}-${firstMarketId + SAMPLE_MARKETS.length - 1})`);
+  console.log(`   Creators: ${SAMPLE_CREATORS.map(c => "@" + c.handle).join(", ")}`);
+  console.log(`   Owner:    ${owner.address}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,259 @@
+const { time, loadFixture } = require("@nomicfoundation/hardhat-toolbox/network-helpers");
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+
+// 限价单：撮合、部分成交、押金退回、AMM 成交和过期
+const USDC = (amount) => ethers.parseUnits(String(amount), 6);
+const SHARES = (amount) => ethers.parseUnits(String(amount), 18);
+const DAY = 24 * 60 * 60;
+const YES = 0;
+
+describe("PredictionMarketV4 limit orders", function () {
+  async function deployMarketFixture() {
+    const [owner, alice, bob, keeper] = await ethers.getSigners();
+
+    const usdc = await ethers.deployContract("MockUSDC");
+    const market = await ethers.deployContract("PredictionMarketV4", [await usdc.getAddress()]);
+
+    for (const account of [owner, alice, bob]) {
+      await usdc.mint(account.address, USDC(10_000));
+      await usdc.connect(account).approve(await market.getAddress(), ethers.MaxUint256);
+    }
+
+    // 无创作者费的 LMSR 二元市场（b = 1000 份，价格随成交量平滑变化）；bob 先从 AMM 买一些 Yes 份额用来挂卖单
+    await market.createMarketWithAlgorithm("Will it rain?", "weather", "", 7 * DAY, USDC(1_000), 0, ["Yes", "No"], 1, SHARES(1_000));
+    await market.connect(bob).buyShares(0, YES, USDC(200), 0);
+
+    return { usdc, market, owner, alice, bob, keeper };
+  }
+
+  async function placedOrderId(tx) {
+    const receipt = await tx.wait();
+    const log = receipt.logs.find((l) => l.fragment && l.fragment.name === "OrderPlaced");
+    return log.args.orderId;
+  }
+
+  describe("matchOrders", function () {
+    it("fills at the earlier order's price and refunds the difference to the buyer", async function () {
+      const { usdc, market, alice, bob, keeper } = await loadFixture(deployMarketFixture);
+
+      const sellId = await placedOrderId(await market.connect(bob).placeSellOrder(0, YES, SHARES(100), 5000));
+      const buyId = await placedOrderId(await market.connect(alice).placeBuyOrder(0, YES, SHARES(100), 5500));
+      const feesBefore = await market.accumulatedFees();
+
+      // 卖单先挂，按 50% 成交：买方押金 55 USDC，退回 5；卖方收 50 扣 1% 平台费
+      await expect(market.connect(keeper).matchOrders(buyId, sellId)).to.changeTokenBalances(
+        usdc,
+        [alice, bob],
+        [USDC(5), USDC("49.5")]
+      );
+
+      expect(await market.accumulatedFees()).to.equal(feesBefore + USDC("0.5"));
+      expect(await market.userShares(0, YES, alice.address)).to.equal(SHARES(100));
+      expect((await market.getOrderInfo(buyId)).status).to.equal(1);
+      expect((await market.getOrderInfo(sellId)).status).to.equal(1);
+    });
+
+    it("leaves the larger order active after a partial fill and refunds the rest on cancel", async function () {
+      const { usdc, market, alice, bob, keeper } = await loadFixture(deployMarketFixture);
+
+      const buyId = await placedOrderId(await market.connect(alice).placeBuyOrder(0, YES, SHARES(100), 6000));
+      const sellId = await placedOrderId(await market.connect(bob).placeSellOrder(0, YES, SHARES(40), 5000));
+
+      // 买单先挂，按 60% 成交 40 份：用掉 24 USDC 押金，剩 60 份 / 36 USDC 继续挂着
+      // 双方各记一条买入 / 卖出事件（卖方到账扣 1% 平台费），持仓历史靠它们回放
+      await expect(market.connect(keeper).matchOrders(buyId, sellId))
+        .to.emit(market, "OrderFilled")
+        .withArgs(buyId, SHARES(40))
+        .and.to.emit(market, "SharesPurchased")
+        .withArgs(0, alice.address, YES, USDC(24), SHARES(40))
+        .and.to.emit(market, "SharesSold")
+        .withArgs(0, bob.address, YES, SHARES(40), USDC("23.76"));
+
+      const buyOrder = await market.getOrderInfo(buyId);
+      expect(buyOrder.status).to.equal(0);
+      expect(buyOrder.shares).to.equal(SHARES(60));
+      expect(buyOrder.usdcDeposit).to.equal(USDC(36));
+      expect((await market.getOrderInfo(sellId)).status).to.equal(1);
+
+      await expect(market.connect(alice).cancelOrder(buyId)).to.changeTokenBalance(usdc, alice, USDC(36));
+      expect((await market.getOrderInfo(buyId)).status).to.equal(2);
+    });
+
+    it("returns unfilled escrowed shares to the seller on cancel", async function () {
+      const { market, alice, bob, keeper } = await loadFixture(deployMarketFixture);
+
+      const sharesBefore = await market.userShares(0, YES, bob.address);
+      const sellId = await placedOrderId(await market.connect(bob).placeSellOrder(0, YES, SHARES(100), 5000));
+      const buyId = await placedOrderId(await market.connect(alice).placeBuyOrder(0, YES, SHARES(30), 5000));
+      await market.connect(keeper).matchOrders(buyId, sellId);
+
+      expect((await market.getOrderInfo(sellId)).shares).to.equal(SHARES(70));
+      await market.connect(bob).cancelOrder(sellId);
+      expect(await market.userShares(0, YES, bob.address)).to.equal(sharesBefore - SHARES(30));
+    });
+
+    it("rejects orders that do not cross", async function () {
+      const { market, alice, bob, keeper } = await loadFixture(deployMarketFixture);
+
+      const sellId = await placedOrderId(await market.connect(bob).placeSellOrder(0, YES, SHARES(10), 5000));
+      const buyId = await placedOrderId(await market.connect(alice).placeBuyOrder(0, YES, SHARES(10), 4000));
+
+      await expect(market.connect(keeper).matchOrders(buyId, sellId)).to.be.revertedWith("Not crossed");
+    });
+
+    it("rejects a pair passed in the wrong order", async function () {
+      const { market, alice, bob, keeper } = await loadFixture(deployMarketFixture);
+
+      const sellId = await placedOrderId(await market.connect(bob).placeSellOrder(0, YES, SHARES(10), 5000));
+      const buyId = await placedOrderId(await market.connect(alice).placeBuyOrder(0, YES, SHARES(10), 6000));
+
+      await expect(market.connect(keeper).matchOrders(sellId, buyId)).to.be.revertedWith("Wrong side");
+    });
+
+    it("rejects expired orders and lets anyone cancel them", async function () {
+      const { usdc, market, alice, bob, keeper } = await loadFixture(deployMarketFixture);
+
+      const expiry = (await time.latest()) + 60;
+      const buyId = await placedOrderId(
+        await market.connect(alice).placeBuyOrderWithExpiry(0, YES, SHARES(10), 6000, expiry)
+      );
+      const sellId = await placedOrderId(await market.connect(bob).placeSellOrder(0, YES, SHARES(10), 5000));
+
+      await expect(market.connect(keeper).cancelExpiredOrder(buyId)).to.be.revertedWith("Not expired");
+      await time.increaseTo(expiry);
+
+      await expect(market.connect(keeper).matchOrders(buyId, sellId)).to.be.revertedWith("Expired");
+      await expect(market.connect(keeper).fillOrderWithAMM(buyId)).to.be.revertedWith("Expired");
+      await expect(market.connect(keeper).cancelExpiredOrder(buyId)).to.changeTokenBalance(usdc, alice, USDC(6));
+    });
+  });
+
+  describe("fillOrderWithAMM", function () {
+    it("keeps the buy order and its deposit when the AMM cannot deliver the ordered shares", async function () {
+      const { market, alice, keeper } = await loadFixture(deployMarketFixture);
+
+      // AMM 买入每 1 USDC 最多给 1 份，9 USDC 押金（扣费后）买不到 10 份
+      const buyId = await placedOrderId(await market.connect(alice).placeBuyOrder(0, YES, SHARES(10), 9000));
+      await expect(market.connect(keeper).fillOrderWithAMM(buyId)).to.be.revertedWith("Slippage");
+
+      const order = await market.getOrderInfo(buyId);
+      expect(order.status).to.equal(0);
+      expect(order.usdcDeposit).to.equal(USDC(9));
+      expect(await market.userShares(0, YES, alice.address)).to.equal(0);
+    });
+
+    it("only fills sell orders after the market has ended", async function () {
+      const { market, alice, bob, keeper } = await loadFixture(deployMarketFixture);
+
+      const buyId = await placedOrderId(await market.connect(alice).placeBuyOrder(0, YES, SHARES(10), 9000));
+      const sellId = await placedOrderId(await market.connect(bob).placeSellOrder(0, YES, SHARES(10), 3000));
+      await time.increase(7 * DAY);
+
+      await expect(market.connect(keeper).fillOrderWithAMM(buyId)).to.be.revertedWith("Ended");
+      await expect(market.connect(keeper).fillOrderWithAMM(sellId)).to.emit(market, "SharesSold");
+    });
+
+    it("sells escrowed shares when the AMM pays at least the limit net of the platform fee", async function () {
+      const { usdc, market, bob, keeper } = await loadFixture(deployMarketFixture);
+
+      const sellId = await placedOrderId(await market.connect(bob).placeSellOrder(0, YES, SHARES(10), 3000));
+      const balanceBefore = await usdc.balanceOf(bob.address);
+      await expect(market.connect(keeper).fillOrderWithAMM(sellId)).to.emit(market, "SharesSold");
+
+      // 限价 30% × 10 份 = 3 USDC，扣 1% 平台费后至少 2.97
+      expect((await usdc.balanceOf(bob.address)) - balanceBefore).to.be.gte(USDC("2.97"));
+      expect((await market.getOrderInfo(sellId)).status).to.equal(1);
+    });
+
+    it("reverts when the AMM price has not reached the sell limit", async function () {
+      const { market, bob, keeper } = await loadFixture(deployMarketFixture);
+
+      const sellId = await placedOrderId(await market.connect(bob).placeSellOrder(0, YES, SHARES(10), 9500));
+      await expect(market.connect(keeper).fillOrderWithAMM(sellId)).to.be.revertedWith("Slippage");
+    });
+  });
+
+  describe("takeSellOrders", function () {
+    it("fills each ask at its own price and collects the total from the buyer once", async function () {
+      const { usdc, market, alice, bob } = await loadFixture(deployMarketFixture);
+
+      const cheapId = await placedOrderId(await market.connect(bob).placeSellOrder(0, YES, SHARES(50), 4000));
+      const dearId = await placedOrderId(await market.connect(bob).placeSellOrder(0, YES, SHARES(50), 5000));
+
+      // 50 份 × 40% + 20 份 × 50% = 30 USDC；卖方扣 1% 平台费
+      await expect(
+        market.connect(alice).takeSellOrders(0, YES, [cheapId, dearId], [SHARES(50), SHARES(20)])
+      ).to.changeTokenBalances(usdc, [alice, bob], [-USDC(30), USDC("29.7")]);
+
+      expect(await market.userShares(0, YES, alice.address)).to.equal(SHARES(70));
+      expect((await market.getOrderInfo(cheapId)).status).to.equal(1);
+      const dear = await market.getOrderInfo(dearId);
+      expect(dear.status).to.equal(0);
+      expect(dear.shares).to.equal(SHARES(30));
+    });
+
+    it("skips cancelled, expired and the caller's own asks", async function () {
+      const { market, owner, alice, bob } = await loadFixture(deployMarketFixture);
+      await market.connect(alice).buyShares(0, YES, USDC(20), 0);
+
+      const cancelledId = await placedOrderId(await market.connect(bob).placeSellOrder(0, YES, SHARES(10), 4000));
+      await market.connect(bob).cancelOrder(cancelledId);
+      const expiry = (await time.latest()) + 60;
+      const expiredId = await placedOrderId(
+        await market.connect(bob).placeSellOrderWithExpiry(0, YES, SHARES(10), 4000, expiry)
+      );
+      const ownId = await placedOrderId(await market.connect(alice).placeSellOrder(0, YES, SHARES(10), 4000));
+      const liveId = await placedOrderId(await market.connect(bob).placeSellOrder(0, YES, SHARES(10), 5000));
+      await time.increaseTo(expiry);
+
+      const ids = [cancelledId, expiredId, ownId, liveId];
+      const amounts = ids.map(() => SHARES(10));
+      const [totalShares, totalCost] = await market.connect(alice).takeSellOrders.staticCall(0, YES, ids, amounts);
+      expect(totalShares).to.equal(SHARES(10));
+      expect(totalCost).to.equal(USDC(5));
+
+      await market.connect(alice).takeSellOrders(0, YES, ids, amounts);
+      expect((await market.getOrderInfo(ownId)).status).to.equal(0);
+      expect((await market.getOrderInfo(liveId)).status).to.equal(1);
+      await expect(market.connect(owner).takeSellOrders(0, YES, [ownId], [SHARES(10)]))
+        .to.emit(market, "OrderFilled")
+        .and.to.emit(market, "SharesPurchased")
+        .withArgs(0, owner.address, YES, USDC(4), SHARES(10))
+        .and.to.emit(market, "SharesSold")
+        .withArgs(0, alice.address, YES, SHARES(10), USDC("3.96"));
+    });
+
+    it("reverts when nothing is left to fill", async function () {
+      const { market, alice, bob } = await loadFixture(deployMarketFixture);
+
+      const sellId = await placedOrderId(await market.connect(bob).placeSellOrder(0, YES, SHARES(10), 4000));
+      await expect(market.connect(bob).takeSellOrders(0, YES, [sellId], [SHARES(10)])).to.be.revertedWith("Nothing filled");
+      await expect(market.connect(alice).takeSellOrders(0, YES, [sellId], [])).to.be.revertedWith("Length mismatch");
+    });
+
+    it("rejects buys after the market has ended", async function () {
+      const { market, alice, bob } = await loadFixture(deployMarketFixture);
+
+      const sellId = await placedOrderId(await market.connect(bob).placeSellOrder(0, YES, SHARES(10), 4000));
+      await time.increase(7 * DAY);
+      await expect(market.connect(alice).takeSellOrders(0, YES, [sellId], [SHARES(10)])).to.be.revertedWith("Ended");
+    });
+  });
+
+  describe("claimRefund", function () {
+    it("returns escrowed shares on cancel and refunds them pro rata once", async function () {
+      const { market, owner, bob } = await loadFixture(deployMarketFixture);
+
+      await placedOrderId(await market.connect(bob).placeSellOrder(0, YES, SHARES(10), 5000));
+      await market.connect(owner).cancelMarket(0);
+
+      const refund = await market.connect(bob).claimRefund.staticCall(0);
+      expect(refund).to.be.gt(0);
+      await expect(market.connect(bob).claimRefund(0))
+        .to.emit(market, "RefundClaimed")
+        .withArgs(0, bob.address, refund);
+      await expect(market.connect(bob).claimRefund(0)).to.be.revertedWith("Claimed");
+    });
+  });
+});
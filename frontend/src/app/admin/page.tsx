@@ -0,0 +1,405 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { formatUnits, parseUnits } from 'viem';
+import { Navbar } from '@/components/Navbar';
+import { ConfirmDialog } from '@/components/ui/ConfirmDialog';
+import { UnsupportedNetwork } from '@/components/ui/UnsupportedNetwork';
+import { usePredictionMarket, Market } from '@/hooks/usePredictionMarket';
+import { useCreatorMarket, CurveType } from '@/hooks/useCreatorMarket';
+import { useAdmin, MAX_PLATFORM_FEE_BPS } from '@/hooks/useAdmin';
+import { useDeployment } from '@/hooks/useDeployment';
+import { TxError } from '@/lib/transactions';
+import { USDC_DECIMALS } from '@/constants/config';
+import { decodeTxError, formatTxError } from '@/utils/txErrors';
+
+// 待确认的 owner 操作
+interface PendingAction {
+  title: string;
+  body: string;
+  confirmLabel: string;
+  danger?: boolean;
+  action: () => Promise<void>;
+}
+
+const CURVE_OPTIONS = [
+  { value: CurveType.LINEAR, label: 'Linear' },
+  { value: CurveType.EXPONENTIAL, label: 'Exponential' },
+  { value: CurveType.SIGMOID, label: 'Sigmoid' },
+];
+
+const CARD = 'bg-white dark:bg-[#12141c] rounded-2xl border border-gray-200 dark:border-gray-800';
+const INPUT = 'px-3 py-2 rounded-lg bg-gray-100 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 outline-none focus:border-blue-500';
+
+function formatUsdc(amount: bigint) {
+  return `$${Number(formatUnits(amount, USDC_DECIMALS)).toFixed(2)}`;
+}
+
+function outcomeLabel(market: Market, index: number) {
+  return market.outcomeLabels?.[index] || `Option ${index + 1}`;
+}
+
+function endedAgo(endTime: number) {
+  const hours = Math.floor((Date.now() / 1000 - endTime) / 3600);
+  if (hours < 1) return 'ended just now';
+  if (hours < 48) return `ended ${hours}h ago`;
+  return `ended ${Math.floor(hours / 24)}d ago`;
+}
+
+export default function AdminPage() {
+  const { chainId, isSupported } = useDeployment();
+  const { isConnected, markets, resolveMarket, cancelMarket, deleteMarket } = usePredictionMarket();
+  const { creators, fetchCreators } = useCreatorMarket();
+  const admin = useAdmin();
+
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [winners, setWinners] = useState<Record<number, number>>({});
+  const [feeInput, setFeeInput] = useState('');
+  const [curveHandle, setCurveHandle] = useState('');
+  const [curveForm, setCurveForm] = useState({ curveType: CurveType.LINEAR as number, A: '', B: '', inflectionPoint: '' });
+
+  useEffect(() => {
+    setFeeInput(String(admin.platformFeeBps));
+  }, [admin.platformFeeBps]);
+
+  const selectedCreator = creators.find(c => c.handle === curveHandle);
+
+  // 选中创作者时用当前配置填表
+  const selectCreator = (handle: string) => {
+    setCurveHandle(handle);
+    const creator = creators.find(c => c.handle === handle);
+    if (!creator) return;
+    setCurveForm({
+      curveType: creator.curveType,
+      A: creator.curveA.toString(),
+      B: formatUnits(creator.curveB, USDC_DECIMALS),
+      inflectionPoint: creator.inflectionPoint.toString(),
+    });
+  };
+
+  const now = Date.now() / 1000;
+  const expiredMarkets = markets.filter(m => m.status === 0 && m.endTime <= now).sort((a, b) => a.endTime - b.endTime);
+  const otherMarkets = markets.filter(m => (m.status === 0 && m.endTime > now) || m.status === 2);
+  // 已取消的市场还有份额时，池子里是持有人待领的退款：deleteMarket 会把整个池子转给创建者，所以不提供删除
+  const hasPendingRefunds = (market: Market) => market.status === 2 && market.outcomeShares.some(shares => shares > 0n);
+
+  const confirm = async () => {
+    if (!pending) return;
+    setBusy(true);
+    try {
+      await pending.action();
+      setPending(null);
+    } catch (error) {
+      // hook 抛出的 TxError 已经在通知托盘里展示
+      if (!(error instanceof TxError)) alert(formatTxError(decodeTxError(error)));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const askResolve = (market: Market) => {
+    const winner = winners[market.id] ?? 0;
+    setPending({
+      title: `Resolve market #${market.id}`,
+      body: `"${market.question}" will resolve to ${outcomeLabel(market, winner)}. Holders of that outcome can then claim the ${formatUsdc(market.liquidityPool)} pool. This cannot be undone.`,
+      confirmLabel: `Resolve: ${outcomeLabel(market, winner)}`,
+      action: () => resolveMarket(market.id, winner),
+    });
+  };
+
+  const askCancel = (market: Market) => setPending({
+    title: `Cancel market #${market.id}`,
+    body: `"${market.question}" will stop trading, all open orders are refunded and holders can claim a pro-rata refund of the pool.`,
+    confirmLabel: 'Cancel market',
+    danger: true,
+    action: () => cancelMarket(market.id),
+  });
+
+  const askDelete = (market: Market) => setPending({
+    title: `Delete market #${market.id}`,
+    body: `"${market.question}" will be deleted. Open orders are refunded and the remaining pool goes back to the market creator.`,
+    confirmLabel: 'Delete market',
+    danger: true,
+    action: () => deleteMarket(market.id),
+  });
+
+  const askSetFee = () => {
+    const feeBps = parseInt(feeInput);
+    if (!Number.isInteger(feeBps) || feeBps < 0 || feeBps > MAX_PLATFORM_FEE_BPS) {
+      alert(`Platform fee must be between 0 and ${MAX_PLATFORM_FEE_BPS} bps`);
+      return;
+    }
+    setPending({
+      title: 'Update platform fee',
+      body: `Prediction market platform fee changes from ${admin.platformFeeBps / 100}% to ${feeBps / 100}%. It applies to every trade from the next block.`,
+      confirmLabel: 'Update fee',
+      action: () => admin.setPlatformFee(feeBps),
+    });
+  };
+
+  const askWithdraw = (market: 'prediction' | 'creator') => {
+    const amount = market === 'prediction' ? admin.predictionFees : admin.creatorFees;
+    setPending({
+      title: `Withdraw ${market} market fees`,
+      body: `${formatUsdc(amount)} USDC will be sent to the contract owner.`,
+      confirmLabel: 'Withdraw',
+      action: () => admin.withdrawFees(market),
+    });
+  };
+
+  const askUpdateCurve = () => {
+    if (!selectedCreator) return;
+    let config;
+    try {
+      config = {
+        curveType: curveForm.curveType,
+        A: BigInt(curveForm.A || '0'),
+        B: parseUnits(curveForm.B || '0', USDC_DECIMALS),
+        inflectionPoint: BigInt(curveForm.inflectionPoint || '0'),
+      };
+    } catch {
+      alert('Curve parameters must be numbers');
+      return;
+    }
+    const curveName = CURVE_OPTIONS.find(o => o.value === curveForm.curveType)?.label;
+    setPending({
+      title: `Update curve for @${selectedCreator.handle}`,
+      body: `${selectedCreator.curveTypeName} → ${curveName}. The new curve reprices all ${selectedCreator.totalSupply} existing keys immediately, so the pool may no longer cover every sale.`,
+      confirmLabel: 'Update curve',
+      danger: true,
+      action: async () => {
+        await admin.updateCurveConfig(selectedCreator.handle, config);
+        await fetchCreators();
+      },
+    });
+  };
+
+  const renderBody = () => {
+    if (!isSupported) return <UnsupportedNetwork chainId={chainId} />;
+    if (!isConnected) {
+      return <div className={`${CARD} p-8 text-center text-gray-500 dark:text-gray-400`}>Connect the owner wallet to continue</div>;
+    }
+    if (admin.loading) {
+      return <div className={`${CARD} p-8 text-center text-gray-500 dark:text-gray-400`}>Loading...</div>;
+    }
+    if (!admin.isOwner) {
+      return (
+        <div className={`${CARD} p-8 text-center`}>
+          <div className="text-4xl mb-2">🔒</div>
+          <div className="text-gray-500 dark:text-gray-400">Only the contract owner can access the admin console.</div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-8">
+        {/* ===== 手续费 ===== */}
+        <section>
+          <h2 className="text-lg font-semibold mb-4">💵 Fees</h2>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {admin.isPredictionOwner && (
+              <>
+                <div className={`${CARD} p-6`}>
+                  <div className="text-sm text-gray-500 dark:text-gray-400 mb-2">Prediction platform fee</div>
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="number"
+                      min="0"
+                      max={MAX_PLATFORM_FEE_BPS}
+                      value={feeInput}
+                      onChange={(e) => setFeeInput(e.target.value)}
+                      className={`${INPUT} w-24`}
+                    />
+                    <span className="text-sm text-gray-500">bps ({(parseInt(feeInput) || 0) / 100}%)</span>
+                  </div>
+                  <button
+                    onClick={askSetFee}
+                    disabled={String(admin.platformFeeBps) === feeInput}
+                    className="mt-3 w-full py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-semibold text-sm disabled:opacity-50 transition"
+                  >
+                    Update fee
+                  </button>
+                </div>
+                <div className={`${CARD} p-6`}>
+                  <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">Prediction fees accrued</div>
+                  <div className="text-3xl font-bold text-green-600 dark:text-green-400">{formatUsdc(admin.predictionFees)}</div>
+                  <button
+                    onClick={() => askWithdraw('prediction')}
+                    disabled={admin.predictionFees === 0n}
+                    className="mt-3 w-full py-2 rounded-lg bg-green-600 hover:bg-green-700 text-white font-semibold text-sm disabled:opacity-50 transition"
+                  >
+                    Withdraw
+                  </button>
+                </div>
+              </>
+            )}
+            {admin.isCreatorOwner && (
+              <div className={`${CARD} p-6`}>
+                <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">Creator market fees accrued</div>
+                <div className="text-3xl font-bold text-green-600 dark:text-green-400">{formatUsdc(admin.creatorFees)}</div>
+                <button
+                  onClick={() => askWithdraw('creator')}
+                  disabled={admin.creatorFees === 0n}
+                  className="mt-3 w-full py-2 rounded-lg bg-green-600 hover:bg-green-700 text-white font-semibold text-sm disabled:opacity-50 transition"
+                >
+                  Withdraw
+                </button>
+              </div>
+            )}
+          </div>
+        </section>
+
+        {admin.isPredictionOwner && (
+          <>
+            {/* ===== 待结算市场 ===== */}
+            <section>
+              <h2 className="text-lg font-semibold mb-4">⏰ Awaiting resolution ({expiredMarkets.length})</h2>
+              <div className={`${CARD} divide-y divide-gray-200 dark:divide-gray-800`}>
+                {expiredMarkets.length === 0 && (
+                  <div className="p-8 text-center text-gray-500 dark:text-gray-400">No expired markets to resolve 🎉</div>
+                )}
+                {expiredMarkets.map(market => (
+                  <div key={market.id} className="p-4 flex flex-wrap items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="font-medium truncate max-w-md">{market.question}</div>
+                      <div className="text-xs text-gray-500">
+                        #{market.id} · {endedAgo(market.endTime)} · pool {formatUsdc(market.liquidityPool)}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <select
+                        value={winners[market.id] ?? 0}
+                        onChange={(e) => setWinners(prev => ({ ...prev, [market.id]: Number(e.target.value) }))}
+                        className={`${INPUT} text-sm`}
+                      >
+                        {Array.from({ length: market.numOutcomes }, (_, i) => (
+                          <option key={i} value={i}>{outcomeLabel(market, i)} · {(market.prices[i] / 100).toFixed(1)}%</option>
+                        ))}
+                      </select>
+                      <button onClick={() => askResolve(market)} className="px-3 py-2 rounded-lg bg-green-600 hover:bg-green-700 text-white text-sm font-semibold transition">
+                        Resolve
+                      </button>
+                      <button onClick={() => askCancel(market)} className="px-3 py-2 rounded-lg bg-amber-100 dark:bg-amber-500/20 text-amber-700 dark:text-amber-300 text-sm font-semibold transition">
+                        Cancel
+                      </button>
+                      <button onClick={() => askDelete(market)} className="px-3 py-2 rounded-lg bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400 text-sm font-semibold transition">
+                        Delete
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            {/* ===== 其他市场 ===== */}
+            <section>
+              <h2 className="text-lg font-semibold mb-4">📋 Open and cancelled markets ({otherMarkets.length})</h2>
+              <div className={`${CARD} divide-y divide-gray-200 dark:divide-gray-800`}>
+                {otherMarkets.map(market => (
+                  <div key={market.id} className="p-4 flex flex-wrap items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <div className="font-medium truncate max-w-md">{market.question}</div>
+                      <div className="text-xs text-gray-500">
+                        #{market.id} · {market.status === 2 ? 'cancelled' : `ends ${new Date(market.endTime * 1000).toLocaleString()}`} · pool {formatUsdc(market.liquidityPool)}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {market.status === 0 && (
+                        <button onClick={() => askCancel(market)} className="px-3 py-2 rounded-lg bg-amber-100 dark:bg-amber-500/20 text-amber-700 dark:text-amber-300 text-sm font-semibold transition">
+                          Cancel
+                        </button>
+                      )}
+                      {hasPendingRefunds(market) ? (
+                        <span className="text-xs text-gray-500" title="Deleting would send unclaimed refunds to the market creator">
+                          Refunds outstanding
+                        </span>
+                      ) : (
+                        <button onClick={() => askDelete(market)} className="px-3 py-2 rounded-lg bg-red-100 dark:bg-red-900/30 text-red-600 dark:text-red-400 text-sm font-semibold transition">
+                          Delete
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </section>
+          </>
+        )}
+
+        {/* ===== 创作者曲线 ===== */}
+        {admin.isCreatorOwner && (
+          <section>
+            <h2 className="text-lg font-semibold mb-4">📈 Creator bonding curves</h2>
+            <div className={`${CARD} p-6 space-y-4`}>
+              <select value={curveHandle} onChange={(e) => selectCreator(e.target.value)} className={`${INPUT} w-full`}>
+                <option value="">Select a creator...</option>
+                {creators.map(c => (
+                  <option key={c.handle} value={c.handle}>@{c.handle} · {c.curveTypeName} · {c.totalSupply} keys</option>
+                ))}
+              </select>
+
+              {selectedCreator && (
+                <>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                    <label className="space-y-1">
+                      <span className="text-gray-500">Curve</span>
+                      <select
+                        value={curveForm.curveType}
+                        onChange={(e) => setCurveForm(prev => ({ ...prev, curveType: Number(e.target.value) }))}
+                        className={`${INPUT} w-full`}
+                      >
+                        {CURVE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                      </select>
+                    </label>
+                    <label className="space-y-1">
+                      <span className="text-gray-500">A (slope, raw)</span>
+                      <input value={curveForm.A} onChange={(e) => setCurveForm(prev => ({ ...prev, A: e.target.value }))} className={`${INPUT} w-full`} />
+                    </label>
+                    <label className="space-y-1">
+                      <span className="text-gray-500">B (base, USDC)</span>
+                      <input value={curveForm.B} onChange={(e) => setCurveForm(prev => ({ ...prev, B: e.target.value }))} className={`${INPUT} w-full`} />
+                    </label>
+                    <label className="space-y-1">
+                      <span className="text-gray-500">Inflection</span>
+                      <input value={curveForm.inflectionPoint} onChange={(e) => setCurveForm(prev => ({ ...prev, inflectionPoint: e.target.value }))} className={`${INPUT} w-full`} />
+                    </label>
+                  </div>
+                  <p className="text-xs text-gray-500">Leave a parameter at 0 to keep its current value.</p>
+                  <button
+                    onClick={askUpdateCurve}
+                    className="w-full py-2.5 rounded-xl bg-blue-600 hover:bg-blue-700 text-white font-semibold transition"
+                  >
+                    Update curve
+                  </button>
+                </>
+              )}
+            </div>
+          </section>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-[#05060b]">
+      <Navbar />
+      <main className="max-w-5xl mx-auto px-4 py-8">
+        <h1 className="text-2xl font-bold mb-6">⚙️ Admin Console</h1>
+        {renderBody()}
+      </main>
+
+      <ConfirmDialog
+        open={pending !== null}
+        title={pending?.title ?? ''}
+        confirmLabel={pending?.confirmLabel}
+        danger={pending?.danger}
+        busy={busy}
+        onConfirm={confirm}
+        onCancel={() => setPending(null)}
+      >
+        <p>{pending?.body}</p>
+      </ConfirmDialog>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { ThemeProvider } from '@/providers/ThemeProvider';
 import { Web3Provider } from '@/providers/Web3Provider';
+import { TransactionTray } from '@/components/ui/TransactionTray';
 import './globals.css';
 
 export const metadata = {
@@ -12,7 +13,10 @@ export default function RootLayout({ children }: { children: React.ReactNode })
     <html lang="en" suppressHydrationWarning>
       <body className="min-h-screen bg-white dark:bg-[#0a0b0f] text-gray-900 dark:text-white transition-colors">
         <ThemeProvider>
-          <Web3Provider>{children}</Web3Provider>
+          <Web3Provider>
+            {children}
+            <TransactionTray />
+          </Web3Provider>
         </ThemeProvider>
       </body>
     </html>
@@ -1,6 +1,7 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { usePredictionMarket } from '@/hooks/usePredictionMarket';
@@ -11,10 +12,21 @@ import { CreatorCard } from '@/components/creators/CreatorCard';
 import { CreatorLeaderboard } from '@/components/creators/CreatorLeaderboard';
 import { ActivityFeed } from '@/components/creators/ActivityFeed';
 import { CreatorPortfolio } from '@/components/portfolio/CreatorPortfolio';
-import { TradeToast } from '@/components/ui/TradeToast';
+import { ClaimAllPanel } from '@/components/portfolio/ClaimAllPanel';
+import { AllowanceManager } from '@/components/portfolio/AllowanceManager';
+import { ConditionalOrdersPanel } from '@/components/portfolio/ConditionalOrdersPanel';
+import { TriggeredConditionAlerts } from '@/components/predictions/TriggeredConditionAlerts';
+import { UnsupportedNetwork } from '@/components/ui/UnsupportedNetwork';
+import { DevModeBanner } from '@/components/ui/DevModeBanner';
 import { motion, AnimatePresence } from 'framer-motion';
-import { PortfolioPieChart, PortfolioHistoryChart, generateMockHistory } from '@/components/charts';
+import { PortfolioPieChart, PortfolioHistoryChart } from '@/components/charts';
+import { usePortfolioHistory, HistoryRange } from '@/hooks/usePortfolioHistory';
+import { useDeployment } from '@/hooks/useDeployment';
+import { useLocalDevMode } from '@/hooks/useLocalDevMode';
+import { useOrderExpiryScheduler } from '@/hooks/useOrderExpiry';
+import { useConditionalOrderWatcher } from '@/hooks/useConditionalOrders';
 import { formatSocialMetric } from '@/utils/format';
+import { claimableAmount } from '@/utils/marketMath';
 
 type Tab = 'predictions' | 'creators' | 'portfolio';
 type CreatorView = 'grid' | 'leaderboard';
@@ -39,14 +51,6 @@ interface Activity {
   timestamp: number;
 }
 
-interface ToastData {
-  show: boolean;
-  type: 'buy' | 'sell';
-  creatorName: string;
-  amount: string;
-  price: string;
-}
-
 export default function Home() {
   const [activeTab, setActiveTab] = useState<Tab>('predictions');
   const [creatorView, setCreatorView] = useState<CreatorView>('grid');
@@ -56,15 +60,6 @@ export default function Home() {
   const [twitterLoading, setTwitterLoading] = useState(false);
   const [showConfirmModal, setShowConfirmModal] = useState(false);
   
-  // Toast 状态
-  const [toast, setToast] = useState<ToastData>({
-    show: false,
-    type: 'buy',
-    creatorName: '',
-    amount: '',
-    price: '',
-  });
-
   const {
     address,
     isConnected,
@@ -77,76 +72,59 @@ export default function Home() {
     createMarket,
     deleteMarket,
     buyShares,
+    buyRouted,
     sellShares,
     claimWinnings,
+    claimRefund,
     placeBuyOrder,
     placeSellOrder,
     getPriceHistory,
+    getMarketOrders,
+    previewTrade,
+    features,
     cancelOrder,
+    cancelExpiredOrder,
     fetchUserOrders,
+    fetchBalance,
   } = usePredictionMarket();
 
+  // 页面打开期间自动撤销到期的限价单（旧合约不支持到期，不调度）
+  useOrderExpiryScheduler(userOrders, cancelExpiredOrder, features.orderExpiry);
+
+  // 价格刷新后检查止损 / 止盈条件
+  useConditionalOrderWatcher(markets);
+
   const {
     creators,
     activities,
+    activitiesSyncing,
     portfolioStats,
+    costBasisMethod,
+    setCostBasisMethod,
     loading: creatorLoading,
     fetchCreators,
     registerCreator,
     buyShares: buyCreatorShares,
     sellShares: sellCreatorShares,
+    previewTrade: previewCreatorTrade,
     getLeaderboard,
     getCreatorActivities,
     getPriceHistory: getCreatorPriceHistory,
   } = useCreatorMarket();
 
+  const { chainId, isSupported } = useDeployment();
+  const localDev = useLocalDevMode(fetchBalance);
+
+  // 净值曲线：回放链上交易
+  const [historyRange, setHistoryRange] = useState<HistoryRange>('7d');
+  const { data: portfolioHistory, loading: portfolioHistoryLoading } = usePortfolioHistory(historyRange, usdcBalance, creators);
+
   useEffect(() => {
     if (isConnected) {
       fetchCreators();
     }
   }, [isConnected, fetchCreators]);
 
-  // 封装买入函数，添加 Toast 提示
-  const handleCreatorBuy = useCallback(async (handle: string, amount: number) => {
-    const creator = creators.find(c => c.handle === handle);
-    const success = await buyCreatorShares(handle, amount);
-    
-    if (success && creator) {
-      // 显示成功 Toast
-      setToast({
-        show: true,
-        type: 'buy',
-        creatorName: creator.displayName || `@${handle}`,
-        amount: amount.toString(),
-        price: (amount * creator.price).toFixed(2),
-      });
-      // ❌ 删除下面这段，hook 已经自动处理 activities
-      // const newActivity: Activity = { ... };
-      // setActivities(prev => [newActivity, ...prev].slice(0, 50));
-    }
-    
-    return success;
-  }, [buyCreatorShares, creators]);
-
-  // 封装卖出函数，添加 Toast 提示
-  const handleCreatorSell = useCallback(async (handle: string, amount: number) => {
-    const creator = creators.find(c => c.handle === handle);
-    const success = await sellCreatorShares(handle, amount);
-    
-    if (success && creator) {
-      setToast({
-        show: true,
-        type: 'sell',
-        creatorName: creator.displayName || `@${handle}`,
-        amount: amount.toString(),
-        price: (amount * creator.price * 0.95).toFixed(2),
-      });
-      // ❌ 删除 setActivities 调用
-    }
-    
-    return success;
-  }, [sellCreatorShares, creators]);
-
   const handleVerifyTwitter = async () => {
     const handle = newCreatorHandle.trim();
     if (!handle) {
@@ -213,13 +191,6 @@ export default function Home() {
     if (success) {
       setNewCreatorHandle('');
       setTwitterPreview(null);
-      setToast({
-        show: true,
-        type: 'buy',
-        creatorName: twitterPreview.displayName,
-        amount: '🚀',
-        price: 'Launched!',
-      });
     }
   };
 
@@ -236,48 +207,16 @@ export default function Home() {
     return m.userYesShares > 0n || m.userNoShares > 0n;
   }).length;
 
+  // 已结算的奖励 + 已取消市场的退款，尚未领取
+  const totalClaimable = markets.reduce((acc, m) => acc + Number(claimableAmount(m)) / 1e6, 0);
+  const claimableMarkets = markets.filter((m) => claimableAmount(m) > 0n).length;
+
   const creatorHoldings = creators.filter((c) => c.userShares > 0);
   const totalCreatorValue = creatorHoldings.reduce(
     (acc, c) => acc + c.userShares * c.price,
     0
   );
 
-  // 计算总投入（简化版，实际应该从合约获取）
-  const totalInvested = creatorHoldings.reduce(
-    (acc, c) => acc + c.userShares * (c.price * 0.9), // 假设平均买入价为当前价格的90%
-    0
-  );
-  const totalPnL = totalCreatorValue - totalInvested;
-  const totalPnLPercent = totalInvested > 0 ? (totalPnL / totalInvested) * 100 : 0;
-
-  // 排行榜数据转换
-  const leaderboardCreators = creators.map(c => ({
-    id: creators.indexOf(c),
-    twitterHandle: c.handle,
-    displayName: c.displayName || `@${c.handle}`,
-    profileImage: c.avatar || '',
-    engagementScore: c.attentionScore || 0,
-    price: c.price,
-    priceChange24h: c.priceChange24h || (Math.random() - 0.5) * 20, // 模拟
-    holders: c.totalSupply > 0 ? Math.floor(c.totalSupply * 0.7) : 0, // 模拟
-    volume24h: (c.poolBalance * 0.1).toFixed(2), // 模拟
-  }));
-
-  // Portfolio 数据转换
-  const portfolioHoldings = creatorHoldings.map(c => ({
-    creator: {
-      id: creators.indexOf(c),
-      displayName: c.displayName || `@${c.handle}`,
-      twitterHandle: c.handle,
-      profileImage: c.avatar || '',
-      price: c.price,
-      priceChange24h: c.priceChange24h || 0,
-    },
-    amount: c.userShares,
-    avgBuyPrice: c.price * 0.9, // 模拟
-    totalInvested: c.userShares * c.price * 0.9, // 模拟
-  }));
-
   return (
     <main className="min-h-screen bg-gray-50 dark:bg-[#05060b] text-gray-900 dark:text-white transition-colors duration-300">
       {/* ========== Header ========== */}
@@ -319,7 +258,7 @@ export default function Home() {
                 </div>
 
                 <button
-                  onClick={() => faucet('1000')}
+                  onClick={() => faucet('1000').catch(() => {})}
                   className="px-3 py-2 rounded-xl bg-yellow-100 dark:bg-yellow-500/20 text-yellow-700 dark:text-yellow-400 font-semibold text-sm hover:bg-yellow-200 dark:hover:bg-yellow-500/30 transition"
                   title="Get test USDC"
                 >
@@ -334,6 +273,15 @@ export default function Home() {
                     + Create Market
                   </button>
                 )}
+
+                {isOwner && (
+                  <Link
+                    href="/admin"
+                    className="px-3 py-2 rounded-xl bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 font-semibold text-sm hover:bg-gray-200 dark:hover:bg-gray-700 transition"
+                  >
+                    ⚙️ Admin
+                  </Link>
+                )}
               </>
             )}
 
@@ -370,9 +318,23 @@ export default function Home() {
 
       {/* ========== Main Content ========== */}
       <div className="max-w-6xl mx-auto px-4 sm:px-6 py-8">
+        {/* 本地开发模式 */}
+        {localDev.enabled && (
+          <DevModeBanner
+            status={localDev.status}
+            isLocalChain={localDev.isLocalChain}
+            isConnected={isConnected}
+            funding={localDev.funding}
+            onFund={() => localDev.fund()}
+          />
+        )}
+
+        {/* 当前网络没有合约部署 */}
+        {!isSupported && <UnsupportedNetwork chainId={chainId} />}
+
         {/* ===== Predictions Tab ===== */}
         <AnimatePresence mode="wait">
-          {activeTab === 'predictions' && (
+          {isSupported && activeTab === 'predictions' && (
             <motion.div
               key="predictions"
               initial={{ opacity: 0, y: 20 }}
@@ -397,23 +359,28 @@ export default function Home() {
                 userOrders={userOrders}
                 isOwner={isOwner}
                 onBuy={buyShares}
+                onBuyRouted={features.orderRouting ? buyRouted : undefined}
                 onSell={sellShares}
                 onClaim={claimWinnings}
+                onRefund={claimRefund}
                 onDelete={deleteMarket}
                 onPlaceBuyOrder={placeBuyOrder}
                 onPlaceSellOrder={placeSellOrder}
                 onCancelOrder={cancelOrder}
                 getPriceHistory={getPriceHistory}
+                getMarketOrders={getMarketOrders}
+                onPreviewTrade={previewTrade}
                 isConnected={isConnected}
                 loading={loading}
                 usdcBalance={usdcBalance}
                 userAddress={address}
+                supportsOrderExpiry={features.orderExpiry}
               />
             </motion.div>
           )}
 
           {/* ===== Creators Tab ===== */}
-          {activeTab === 'creators' && (
+          {isSupported && activeTab === 'creators' && (
             <motion.div
               key="creators"
               initial={{ opacity: 0, y: 20 }}
@@ -566,8 +533,9 @@ export default function Home() {
                           <CreatorCard
                             key={creator.handle}
                             creator={creator}
-                            onBuy={handleCreatorBuy}
-                            onSell={handleCreatorSell}
+                            onBuy={buyCreatorShares}
+                            onSell={sellCreatorShares}
+                            onPreviewTrade={previewCreatorTrade}
                             isConnected={isConnected}
                             loading={creatorLoading}
                           />
@@ -595,7 +563,12 @@ export default function Home() {
 
                   {/* Sidebar - Activity Feed */}
                   <div className="lg:col-span-1">
-                    <ActivityFeed activities={activities} maxItems={15} />
+                    <ActivityFeed
+                      activities={activities}
+                      maxItems={15}
+                      userAddress={address}
+                      syncing={activitiesSyncing}
+                    />
                   </div>
                 </div>
               )}
@@ -603,7 +576,7 @@ export default function Home() {
           )}
 
           {/* ===== Portfolio Tab ===== */}
-          {activeTab === 'portfolio' && (
+          {isSupported && activeTab === 'portfolio' && (
             <motion.div
               key="portfolio"
               initial={{ opacity: 0, y: 20 }}
@@ -627,6 +600,11 @@ export default function Home() {
                   <div className="text-3xl font-bold text-purple-600 dark:text-purple-400">
                     {predictionPositions}
                   </div>
+                  {totalClaimable > 0 && (
+                    <div className="text-sm font-medium mt-1 text-yellow-600 dark:text-yellow-400">
+                      ${totalClaimable.toFixed(2)} claimable in {claimableMarkets} market{claimableMarkets === 1 ? '' : 's'}
+                    </div>
+                  )}
                 </div>
                 <div className="p-6 bg-white dark:bg-[#12141c] rounded-2xl border border-gray-200 dark:border-gray-800">
                   <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">Creator Holdings</div>
@@ -637,8 +615,13 @@ export default function Home() {
                 <div className="p-6 bg-white dark:bg-[#12141c] rounded-2xl border border-gray-200 dark:border-gray-800">
                   <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">Total Portfolio Value</div>
                   <div className="text-3xl font-bold text-gray-900 dark:text-white">
-                    ${(parseFloat(usdcBalance) + totalCreatorValue).toFixed(2)}
+                    ${(parseFloat(usdcBalance) + totalCreatorValue + totalClaimable).toFixed(2)}
                   </div>
+                  {portfolioStats.totalPnL !== 0 && (
+                    <div className={`text-sm font-medium mt-1 ${portfolioStats.totalPnL >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                      {portfolioStats.totalPnL >= 0 ? '+' : ''}{portfolioStats.totalPnL.toFixed(2)} USDC PnL
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -648,6 +631,16 @@ export default function Home() {
                 </div>
               ) : (
                 <>
+                  {/* 待领取的奖励 / 退款，支持批量领取 */}
+                  <ClaimAllPanel
+                    markets={markets}
+                    onClaimWinnings={claimWinnings}
+                    onClaimRefund={claimRefund}
+                  />
+
+                  {/* 止损 / 止盈条件单 */}
+                  <ConditionalOrdersPanel markets={markets} />
+
                   {/* ===== 新增：Portfolio 可视化图表 ===== */}
                   <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
                     {/* 资产分布饼图 */}
@@ -664,8 +657,11 @@ export default function Home() {
                     
                     {/* 净值走势图 */}
                     <PortfolioHistoryChart
-                      title="Portfolio Value (7D)"
-                      data={generateMockHistory(parseFloat(usdcBalance) + totalCreatorValue, 7)}
+                      title="Portfolio Value"
+                      data={portfolioHistory}
+                      range={historyRange}
+                      onRangeChange={setHistoryRange}
+                      loading={portfolioHistoryLoading}
                     />
                   </div>
 
@@ -689,11 +685,20 @@ export default function Home() {
                             },
                             amount: h.amount,
                             avgBuyPrice: h.avgBuyPrice,
-                            totalInvested: h.avgBuyPrice * h.amount,
+                            totalInvested: h.costBasis,
+                            unrealizedPnL: h.unrealizedPnL,
+                            realizedPnL: h.realizedPnL,
+                            feesPaid: h.feesPaid,
+                            costBasisComplete: h.costBasisComplete,
                           }))}
                           totalValue={portfolioStats.totalValue}
                           totalPnL={portfolioStats.totalPnL}
                           totalPnLPercent={portfolioStats.totalPnLPercent}
+                          totalUnrealizedPnL={portfolioStats.totalUnrealizedPnL}
+                          totalRealizedPnL={portfolioStats.totalRealizedPnL}
+                          totalFeesPaid={portfolioStats.totalFeesPaid}
+                          costBasisMethod={costBasisMethod}
+                          onCostBasisMethodChange={setCostBasisMethod}
                         />
                       </div>
                     )}
@@ -769,6 +774,9 @@ export default function Home() {
                       </div>
                     </div>
                   </div>
+
+                  {/* USDC 授权管理 */}
+                  <AllowanceManager />
                 </>
               )}
             </motion.div>
@@ -872,15 +880,8 @@ export default function Home() {
         onCreate={createMarket}
       />
 
-      {/* ========== Trade Toast ========== */}
-      <TradeToast
-        show={toast.show}
-        type={toast.type}
-        creatorName={toast.creatorName}
-        amount={toast.amount}
-        price={toast.price}
-        onClose={() => setToast(prev => ({ ...prev, show: false }))}
-      />
+      {/* 已触发的条件单，提示签名卖出 */}
+      {isConnected && <TriggeredConditionAlerts markets={markets} onSell={sellShares} />}
     </main>
   );
 }
\ No newline at end of file
@@ -0,0 +1,88 @@
+'use client';
+
+import { useMemo } from 'react';
+import { AreaChart, Area, XAxis, YAxis, ResponsiveContainer, Tooltip, ReferenceLine } from 'recharts';
+import { formatUnits } from 'viem';
+import type { OrderBook } from '@/utils/orderBook';
+
+interface OrderBookDepthChartProps {
+  book: OrderBook;
+  ammPrice: number;             // AMM 当前价格（百分比）
+  height?: number;
+}
+
+interface DepthPoint {
+  price: number;                // 百分比
+  bids?: number;
+  asks?: number;
+}
+
+const toShares = (value: bigint) => Number(formatUnits(value, 18));
+
+// 统一的 Tooltip 样式
+const tooltipStyles = {
+  contentStyle: {
+    backgroundColor: 'rgba(17, 24, 39, 0.95)',
+    border: '1px solid rgba(75, 85, 99, 0.3)',
+    borderRadius: '12px',
+    padding: '8px 12px',
+  },
+  itemStyle: { color: '#e5e7eb', fontSize: '12px' },
+  labelStyle: { color: '#9ca3af', fontSize: '11px' },
+};
+
+/// 累计深度：买单从最优价向低价累计，卖单从最优价向高价累计
+export function OrderBookDepthChart({ book, ammPrice, height = 140 }: OrderBookDepthChartProps) {
+  const data = useMemo(() => {
+    const points: DepthPoint[] = [
+      ...book.bids.map(level => ({ price: level.price / 100, bids: toShares(level.cumulative) })),
+      ...book.asks.map(level => ({ price: level.price / 100, asks: toShares(level.cumulative) })),
+    ];
+    return points.sort((a, b) => a.price - b.price);
+  }, [book]);
+
+  if (data.length === 0) return null;
+
+  return (
+    <div style={{ height }}>
+      <ResponsiveContainer width="100%" height="100%">
+        <AreaChart data={data} margin={{ top: 10, right: 5, left: -20, bottom: 0 }}>
+          <XAxis
+            dataKey="price"
+            type="number"
+            domain={[0, 100]}
+            tickFormatter={(v) => `${v}¢`}
+            tick={{ fontSize: 10, fill: '#9ca3af' }}
+            tickLine={false}
+            axisLine={false}
+          />
+          <YAxis
+            tick={{ fontSize: 10, fill: '#9ca3af' }}
+            tickLine={false}
+            axisLine={false}
+            width={40}
+          />
+          <Tooltip
+            formatter={(value: number | string | undefined, name: string | number | undefined) => [
+              `${typeof value === 'number' ? value.toFixed(2) : value} shares`,
+              name === 'bids' ? 'Bid depth' : 'Ask depth',
+            ]}
+            labelFormatter={(label) => `${label}¢`}
+            contentStyle={tooltipStyles.contentStyle}
+            itemStyle={tooltipStyles.itemStyle}
+            labelStyle={tooltipStyles.labelStyle}
+            wrapperStyle={{ outline: 'none' }}
+          />
+          <ReferenceLine
+            x={ammPrice}
+            stroke="#3b82f6"
+            strokeDasharray="3 3"
+            label={{ value: `AMM ${ammPrice.toFixed(1)}¢`, position: 'insideTop', fill: '#3b82f6', fontSize: 10 }}
+          />
+          <Area type="stepBefore" dataKey="bids" stroke="#22c55e" fill="#22c55e" fillOpacity={0.2} connectNulls={false} isAnimationActive={false} />
+          <Area type="stepAfter" dataKey="asks" stroke="#ef4444" fill="#ef4444" fillOpacity={0.2} connectNulls={false} isAnimationActive={false} />
+        </AreaChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -131,12 +131,44 @@ export function PortfolioPieChart({ holdings, title = 'Asset Distribution' }: Po
 }
 
 // ========== 净值走势图组件 ==========
+export type HistoryRange = '24h' | '7d' | '30d' | 'all';
+
+const HISTORY_RANGES: { value: HistoryRange; label: string }[] = [
+  { value: '24h', label: '24H' },
+  { value: '7d', label: '7D' },
+  { value: '30d', label: '30D' },
+  { value: 'all', label: 'All' },
+];
+
 interface PortfolioHistoryProps {
   data: { date: string; value: number }[];
   title?: string;
+  range?: HistoryRange;
+  onRangeChange?: (range: HistoryRange) => void;
+  loading?: boolean;
 }
 
-export function PortfolioHistoryChart({ data, title = 'Portfolio Value' }: PortfolioHistoryProps) {
+export function RangeSelector({ range, onRangeChange }: { range: HistoryRange; onRangeChange: (range: HistoryRange) => void }) {
+  return (
+    <div className="flex bg-gray-100 dark:bg-gray-800 rounded-lg p-0.5 text-xs font-medium">
+      {HISTORY_RANGES.map(r => (
+        <button
+          key={r.value}
+          onClick={() => onRangeChange(r.value)}
+          className={`px-2 py-1 rounded-md transition ${
+            range === r.value
+              ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm'
+              : 'text-gray-500 hover:text-gray-700 dark:hover:text-gray-300'
+          }`}
+        >
+          {r.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function PortfolioHistoryChart({ data, title = 'Portfolio Value', range, onRangeChange, loading = false }: PortfolioHistoryProps) {
   const { minValue, maxValue, change, changePercent, isPositive } = useMemo(() => {
     if (data.length === 0) return { minValue: 0, maxValue: 100, change: 0, changePercent: 0, isPositive: true };
     
@@ -160,11 +192,14 @@ export function PortfolioHistoryChart({ data, title = 'Portfolio Value' }: Portf
   if (data.length === 0) {
     return (
       <div className="bg-white dark:bg-[#12141c] rounded-2xl border border-gray-200 dark:border-gray-800 p-6">
-        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">{title}</h3>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{title}</h3>
+          {range && onRangeChange && <RangeSelector range={range} onRangeChange={onRangeChange} />}
+        </div>
         <div className="h-[200px] flex items-center justify-center text-gray-500 dark:text-gray-400">
           <div className="text-center">
             <div className="text-4xl mb-2">📈</div>
-            <div>Start trading to see your history</div>
+            <div>{loading ? 'Loading history...' : 'Start trading to see your history'}</div>
           </div>
         </div>
       </div>
@@ -182,12 +217,15 @@ export function PortfolioHistoryChart({ data, title = 'Portfolio Value' }: Portf
             ${currentValue.toFixed(2)}
           </div>
         </div>
-        <div className={`text-right ${isPositive ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
-          <div className="text-lg font-semibold">
-            {isPositive ? '+' : ''}{change.toFixed(2)}
-          </div>
-          <div className="text-sm">
-            {isPositive ? '+' : ''}{changePercent.toFixed(1)}%
+        <div className="flex flex-col items-end gap-2">
+          {range && onRangeChange && <RangeSelector range={range} onRangeChange={onRangeChange} />}
+          <div className={`text-right ${isPositive ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+            <div className="text-lg font-semibold">
+              {isPositive ? '+' : ''}{change.toFixed(2)}
+            </div>
+            <div className="text-sm">
+              {isPositive ? '+' : ''}{changePercent.toFixed(1)}%
+            </div>
           </div>
         </div>
       </div>
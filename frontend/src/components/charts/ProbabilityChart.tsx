@@ -9,7 +9,9 @@ import {
   ResponsiveContainer,
   Tooltip,
   Legend,
+  ReferenceLine,
 } from 'recharts';
+import type { ProbabilitySeries } from '@/hooks/useMarketPriceHistory';
 
 // ============ 颜色配置 ============
 const OUTCOME_COLORS = [
@@ -24,16 +26,20 @@ const OUTCOME_COLORS = [
 ];
 
 // ============ 类型定义 ============
-interface ProbabilityDataPoint {
-  time: string;
-  [key: string]: string | number; // 动态键：outcome_0, outcome_1, ...
+export interface ProbabilityDataPoint {
+  timestamp: number;              // 毫秒
+  [key: string]: number;          // 动态键：outcome_0, outcome_1, ...
 }
 
+export type ProbabilityRange = '24h' | '7d' | '30d' | 'all';
+
 interface ProbabilityChartProps {
   data: ProbabilityDataPoint[];
   outcomeLabels?: string[];
   height?: number;
   showLegend?: boolean;
+  resolvedAt?: number;            // 结算时间（毫秒），绘制结算标记
+  winnerLabel?: string;
 }
 
 interface MiniProbabilityChartProps {
@@ -67,7 +73,9 @@ export function ProbabilityChart({
   data, 
   outcomeLabels = ['Yes', 'No'],
   height = 120, 
-  showLegend = false 
+  showLegend = false,
+  resolvedAt,
+  winnerLabel,
 }: ProbabilityChartProps) {
   if (data.length < 2) {
     return (
@@ -82,13 +90,20 @@ export function ProbabilityChart({
 
   // 确定有多少个选项
   const numOutcomes = outcomeLabels.length;
+  // 跨度超过 36 小时显示日期，否则显示时间
+  const span = data[data.length - 1].timestamp - data[0].timestamp;
+  const formatTick = (ts: number) => formatTime(ts, span > 36 * 60 * 60 * 1000);
 
   return (
     <div style={{ height }} className="w-full">
       <ResponsiveContainer width="100%" height="100%">
         <LineChart data={data} margin={{ top: 5, right: 5, left: -20, bottom: 0 }}>
           <XAxis 
-            dataKey="time" 
+            dataKey="timestamp" 
+            type="number"
+            scale="time"
+            domain={['dataMin', 'dataMax']}
+            tickFormatter={formatTick}
             tick={{ fontSize: 10, fill: '#9ca3af' }}
             tickLine={false}
             axisLine={false}
@@ -112,6 +127,7 @@ export function ProbabilityChart({
               const label = outcomeLabels[idx] || String(name);
               return [`${numValue.toFixed(1)}%`, label];
             }}
+            labelFormatter={(label) => typeof label === 'number' ? formatTime(label, true, true) : label}
             contentStyle={tooltipStyles.contentStyle}
             itemStyle={tooltipStyles.itemStyle}
             labelStyle={tooltipStyles.labelStyle}
@@ -132,11 +148,25 @@ export function ProbabilityChart({
               }}
             />
           )}
-          {/* 动态生成每个选项的线 */}
+          {/* 结算标记 */}
+          {resolvedAt !== undefined && (
+            <ReferenceLine
+              x={resolvedAt}
+              stroke="#9ca3af"
+              strokeDasharray="3 3"
+              label={{
+                value: winnerLabel ? `✓ ${winnerLabel}` : 'Resolved',
+                position: 'insideTopRight',
+                fill: '#9ca3af',
+                fontSize: 10,
+              }}
+            />
+          )}
+          {/* 动态生成每个选项的线（价格只在成交时变化，用阶梯线） */}
           {Array.from({ length: numOutcomes }).map((_, index) => (
             <Line
               key={index}
-              type="monotone"
+              type="stepAfter"
               dataKey={`outcome_${index}`}
               name={`outcome_${index}`}
               stroke={OUTCOME_COLORS[index % OUTCOME_COLORS.length]}
@@ -191,7 +221,7 @@ export function MiniProbabilityChart({
           {Array.from({ length: numOutcomes }).map((_, index) => (
             <Line
               key={index}
-              type="monotone"
+              type="stepAfter"
               dataKey={`outcome_${index}`}
               stroke={
                 index === leadingIndex 
@@ -208,77 +238,62 @@ export function MiniProbabilityChart({
   );
 }
 
-// ============ 生成模拟概率历史（支持多选项） ============
-export function generateMockProbabilityHistory(
-  currentPrices: number[], // 当前各选项概率 [50, 30, 20]
-  points: number = 12
+// ============ 链上价格历史 → 图表数据 ============
+const RANGE_MS: Record<Exclude<ProbabilityRange, 'all'>, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+};
+
+function formatTime(ts: number, withDate: boolean, withTime = !withDate): string {
+  const date = new Date(ts);
+  const parts: string[] = [];
+  if (withDate) parts.push(date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' }));
+  if (withTime) parts.push(date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false }));
+  return parts.join(' ');
+}
+
+function toPoint(timestamp: number, probs: number[]): ProbabilityDataPoint {
+  const point: ProbabilityDataPoint = { timestamp };
+  probs.forEach((prob, idx) => {
+    point[`outcome_${idx}`] = Math.round(prob * 10) / 10;
+  });
+  return point;
+}
+
+/// 截取时间范围内的价格点；窗口起点沿用之前最后一次成交的价格，终点补上当前价格
+/// （已结算市场以结算时间为终点，价格冻结在结算时）
+export function buildProbabilityHistory(
+  series: ProbabilitySeries,
+  currentPrices: number[],       // 当前各选项概率（百分比）
+  range: ProbabilityRange,
+  endAt: number = Date.now()
 ): ProbabilityDataPoint[] {
-  const numOutcomes = currentPrices.length;
+  const { timestamps, prices } = series;
+  if (timestamps.length === 0) return [];
+
+  const start = range === 'all' ? timestamps[0] : endAt - RANGE_MS[range];
   const data: ProbabilityDataPoint[] = [];
-  
-  // 初始化概率（从平均值开始波动）
-  const avgPrice = 100 / numOutcomes;
-  let probs = currentPrices.map(() => avgPrice + (Math.random() - 0.5) * 20);
-  
-  // 归一化函数
-  const normalize = (arr: number[]): number[] => {
-    const sum = arr.reduce((a, b) => a + b, 0);
-    return arr.map(v => Math.max(1, Math.min(98, (v / sum) * 100)));
-  };
-  
-  probs = normalize(probs);
-  
-  const now = new Date();
-  
-  for (let i = points - 1; i >= 0; i--) {
-    const time = new Date(now.getTime() - i * 2 * 60 * 60 * 1000);
-    const timeStr = time.toLocaleTimeString('en-US', { 
-      hour: '2-digit', 
-      minute: '2-digit', 
-      hour12: false 
-    });
-    
-    // 向目标价格移动 + 随机波动
-    probs = probs.map((prob, idx) => {
-      const target = currentPrices[idx];
-      const randomWalk = (Math.random() - 0.5) * 10;
-      return prob + (target - prob) * 0.25 + randomWalk;
-    });
-    
-    probs = normalize(probs);
-    
-    const point: ProbabilityDataPoint = { time: timeStr };
-    probs.forEach((prob, idx) => {
-      point[`outcome_${idx}`] = Math.round(prob * 10) / 10;
-    });
-    
-    data.push(point);
+
+  let carried: number[] | null = null;
+  for (let i = 0; i < timestamps.length; i++) {
+    const ts = timestamps[i];
+    if (ts > endAt) break;
+    if (ts < start) {
+      carried = prices[i];
+      continue;
+    }
+    data.push(toPoint(ts, prices[i]));
   }
-  
-  // 确保最后一个点是当前价格
-  if (data.length > 0) {
-    const normalizedCurrent = normalize([...currentPrices]);
-    normalizedCurrent.forEach((price, idx) => {
-      data[data.length - 1][`outcome_${idx}`] = price;
-    });
+  if (carried) data.unshift(toPoint(start, carried));
+
+  if (data.length > 0 && data[data.length - 1].timestamp < endAt) {
+    data.push(toPoint(endAt, currentPrices));
   }
-  
   return data;
 }
 
-// ============ 生成迷你图数据格式（支持多选项） ============
-export function generateMiniProbabilityData(
-  currentPrices: number[],
-  points: number = 12
-): number[][] {
-  const fullData = generateMockProbabilityHistory(currentPrices, points);
-  return fullData.map(point => {
-    const probs: number[] = [];
-    let idx = 0;
-    while (point[`outcome_${idx}`] !== undefined) {
-      probs.push(point[`outcome_${idx}`] as number);
-      idx++;
-    }
-    return probs;
-  });
-}
\ No newline at end of file
+/// 迷你图只需要每个点的概率数组
+export function toMiniProbabilityData(data: ProbabilityDataPoint[], numOutcomes: number): number[][] {
+  return data.map(point => Array.from({ length: numOutcomes }, (_, idx) => point[`outcome_${idx}`] ?? 0));
+}
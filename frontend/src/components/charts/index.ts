@@ -1,4 +1,5 @@
 export { MiniPriceChart } from './MiniPriceChart';
+export { OrderBookDepthChart } from './OrderBookDepthChart';
 export { 
   PortfolioPieChart, 
   PortfolioHistoryChart, 
@@ -1,7 +1,9 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { getExplorerTxUrl } from '@/constants/deployments';
+import { useDeployment } from '@/hooks/useDeployment';
 
 interface Activity {
   id: string;
@@ -12,19 +14,33 @@ interface Activity {
   amount: number;
   price: number;
   timestamp: number;
+  txHash?: string;
 }
 
 interface ActivityFeedProps {
   activities: Activity[];
   maxItems?: number;
+  userAddress?: string;
+  syncing?: boolean;
 }
 
-export function ActivityFeed({ activities, maxItems = 10 }: ActivityFeedProps) {
+type FeedScope = 'all' | 'mine';
+
+export function ActivityFeed({ activities, maxItems = 10, userAddress, syncing = false }: ActivityFeedProps) {
   const [displayedActivities, setDisplayedActivities] = useState<Activity[]>([]);
+  const [scope, setScope] = useState<FeedScope>('all');
+  const { chainId } = useDeployment();
+
+  const scopedActivities = useMemo(() => {
+    if (scope === 'mine' && userAddress) {
+      return activities.filter(a => a.user.toLowerCase() === userAddress.toLowerCase());
+    }
+    return activities;
+  }, [activities, scope, userAddress]);
 
   useEffect(() => {
-    setDisplayedActivities(activities.slice(0, maxItems));
-  }, [activities, maxItems]);
+    setDisplayedActivities(scopedActivities.slice(0, maxItems));
+  }, [scopedActivities, maxItems]);
 
   const formatTime = (timestamp: number) => {
     const seconds = Math.floor((Date.now() - timestamp) / 1000);
@@ -60,19 +76,41 @@ export function ActivityFeed({ activities, maxItems = 10 }: ActivityFeedProps) {
           </span>
           Live Activity
         </h3>
-        <span className="text-xs text-gray-500">{activities.length} trades</span>
+        <div className="flex items-center gap-2">
+          {userAddress && (
+            <div className="flex rounded-lg bg-gray-100 dark:bg-gray-800 p-0.5 text-xs">
+              {(['all', 'mine'] as FeedScope[]).map((s) => (
+                <button
+                  key={s}
+                  onClick={() => setScope(s)}
+                  className={`px-2 py-0.5 rounded-md font-medium transition ${
+                    scope === s
+                      ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm'
+                      : 'text-gray-500'
+                  }`}
+                >
+                  {s === 'all' ? 'All' : 'Mine'}
+                </button>
+              ))}
+            </div>
+          )}
+          <span className="text-xs text-gray-500">
+            {syncing && displayedActivities.length === 0 ? 'Syncing...' : `${scopedActivities.length} trades`}
+          </span>
+        </div>
       </div>
 
       <div className="max-h-[400px] overflow-y-auto">
         {displayedActivities.length === 0 ? (
           <div className="p-8 text-center text-gray-500 dark:text-gray-400">
-            <div className="text-3xl mb-2">📭</div>
-            <div className="text-sm">No activity yet</div>
+            <div className="text-3xl mb-2">{syncing ? '⏳' : '📭'}</div>
+            <div className="text-sm">{syncing ? 'Loading on-chain activity...' : 'No activity yet'}</div>
           </div>
         ) : (
           <AnimatePresence initial={false}>
             {displayedActivities.map((activity, index) => {
               const config = getTypeConfig(activity.type);
+              const txUrl = activity.txHash ? getExplorerTxUrl(chainId, activity.txHash) : null;
               return (
                 <motion.div
                   key={activity.id}
@@ -111,7 +149,16 @@ export function ActivityFeed({ activities, maxItems = 10 }: ActivityFeedProps) {
                       </div>
                       <div className="text-xs text-gray-400 mt-0.5">
                         {activity.type !== 'launch' && `$${(activity.amount * activity.price).toFixed(2)} • `}
-                        {formatTime(activity.timestamp)}
+                        {txUrl ? (
+                          <a
+                            href={txUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="hover:underline"
+                          >
+                            {formatTime(activity.timestamp)}
+                          </a>
+                        ) : formatTime(activity.timestamp)}
                       </div>
                     </div>
 
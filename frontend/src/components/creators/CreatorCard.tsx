@@ -3,6 +3,13 @@
 import { useState, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { MiniPriceChart, generatePriceHistory } from '@/components/charts';
+import { CurveType } from '@/constants/config';
+import { MAX_BUY_PER_TX, quoteBuy, quoteSell } from '@/utils/bondingCurve';
+import { TxPreviewNotice } from '@/components/ui/TxPreviewNotice';
+import { SlippageSettings } from '@/components/ui/SlippageSettings';
+import { useTxPreview } from '@/hooks/useTxPreview';
+import type { CreatorTradeRequest } from '@/hooks/useCreatorMarket';
+import type { TxPreview } from '@/lib/transactions';
 
 interface Creator {
   handle: string;
@@ -10,6 +17,10 @@ interface Creator {
   poolBalance: number;
   price: number;
   userShares: number;
+  curveType: CurveType;
+  curveA: bigint;
+  curveB: bigint;
+  inflectionPoint: bigint;
   displayName?: string;
   avatar?: string;
   followers?: number;
@@ -20,8 +31,9 @@ interface Creator {
 
 interface CreatorCardProps {
   creator: Creator;
-  onBuy: (handle: string, amount: number) => Promise<boolean>;
-  onSell: (handle: string, amount: number) => Promise<boolean>;
+  onBuy: (handle: string, amount: number, expectedCost?: number) => Promise<boolean>;
+  onSell: (handle: string, amount: number, expectedProceeds?: number) => Promise<boolean>;
+  onPreviewTrade?: (request: CreatorTradeRequest) => Promise<TxPreview>;
   isConnected: boolean;
   loading: boolean;
 }
@@ -34,7 +46,7 @@ const getScoreLevel = (score: number) => {
   return { label: 'New', color: 'from-gray-400 to-gray-500', icon: '🌱', bg: 'bg-gray-500' };
 };
 
-export function CreatorCard({ creator, onBuy, onSell, isConnected, loading }: CreatorCardProps) {
+export function CreatorCard({ creator, onBuy, onSell, onPreviewTrade, isConnected, loading }: CreatorCardProps) {
   const [buyAmount, setBuyAmount] = useState('1');
   const [sellAmount, setSellAmount] = useState('1');
   const [activeTab, setActiveTab] = useState<'buy' | 'sell'>('buy');
@@ -122,7 +134,8 @@ export function CreatorCard({ creator, onBuy, onSell, isConnected, loading }: Cr
 
     setIsProcessing(true);
     try {
-      const success = await onBuy(creator.handle, amount);
+      // 面板上展示的报价，提交前按滑点容忍度核对
+      const success = await onBuy(creator.handle, amount, buyQuote?.totalCost);
       if (success) {
         setBuyAmount('1');
         setShowTradePanel(false);
@@ -140,7 +153,7 @@ export function CreatorCard({ creator, onBuy, onSell, isConnected, loading }: Cr
 
     setIsProcessing(true);
     try {
-      const success = await onSell(creator.handle, amount);
+      const success = await onSell(creator.handle, amount, sellQuote?.netProceeds);
       if (success) {
         setSellAmount('1');
         setShowTradePanel(false);
@@ -154,8 +167,26 @@ export function CreatorCard({ creator, onBuy, onSell, isConnected, loading }: Cr
 
   const parsedBuyAmount = parseInt(buyAmount) || 0;
   const parsedSellAmount = parseInt(sellAmount) || 0;
-  const estimatedCost = parsedBuyAmount * creator.price * (1 + parsedBuyAmount * 0.02);
-  const estimatedReturn = parsedSellAmount * creator.price * 0.95;
+  // 本地按联合曲线精确报价，不再每次输入都请求 RPC；超过单笔上限不报价（Sigmoid 曲线逐个累加，数量过大会卡死页面）
+  const buyQuote = useMemo(
+    () => (parsedBuyAmount > MAX_BUY_PER_TX ? null : quoteBuy(creator, parsedBuyAmount)),
+    [creator, parsedBuyAmount]
+  );
+  const sellQuote = useMemo(() => quoteSell(creator, parsedSellAmount), [creator, parsedSellAmount]);
+
+  // 链上模拟：超过单笔上限时本地已经拦截，不再请求
+  const tradeRequest = useMemo((): CreatorTradeRequest | null => {
+    if (!showTradePanel || !isConnected) return null;
+    if (activeTab === 'buy') {
+      return parsedBuyAmount > 0 && parsedBuyAmount <= MAX_BUY_PER_TX
+        ? { type: 'buy', handle: creator.handle, amount: parsedBuyAmount }
+        : null;
+    }
+    return parsedSellAmount > 0 ? { type: 'sell', handle: creator.handle, amount: parsedSellAmount } : null;
+  }, [showTradePanel, isConnected, activeTab, creator.handle, parsedBuyAmount, parsedSellAmount]);
+
+  const { preview: txPreview, loading: txPreviewLoading } = useTxPreview(tradeRequest, onPreviewTrade);
+
   const attentionScore = twitterData?.attentionScore || creator.attentionScore || 0;
   const scoreLevel = getScoreLevel(attentionScore);
   const priceChange = creator.priceChange24h || (twitterData?.priceChange24h) || 0;
@@ -405,24 +436,43 @@ export function CreatorCard({ creator, onBuy, onSell, isConnected, loading }: Cr
                         {parsedBuyAmount || 0} key{parsedBuyAmount !== 1 ? 's' : ''}
                       </span>
                     </div>
-                    <div className="flex justify-between text-sm">
-                      <span className="text-gray-500">Est. total cost</span>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="text-gray-500">Fee (5%)</span>
+                      <span className="font-medium text-gray-900 dark:text-white">
+                        ${buyQuote ? buyQuote.fee.toFixed(4) : '0.00'}
+                      </span>
+                    </div>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="text-gray-500">Total cost</span>
                       <span className="font-bold text-gray-900 dark:text-white">
-                        ${parsedBuyAmount > 0 ? estimatedCost.toFixed(2) : '0.00'}
+                        ${buyQuote ? buyQuote.totalCost.toFixed(2) : '0.00'}
                       </span>
                     </div>
-                    {parsedBuyAmount > 5 && (
+                    <div className="flex justify-between text-xs text-gray-500">
+                      <span>Price after</span>
+                      <span>${buyQuote ? buyQuote.priceAfter.toFixed(4) : creator.price.toFixed(4)}</span>
+                    </div>
+                    {buyQuote && buyQuote.priceImpact >= 5 && (
                       <div className="mt-2 text-xs text-orange-500 flex items-center gap-1">
-                        ⚠️ Price impact: ~{(parsedBuyAmount * 2).toFixed(0)}%
+                        ⚠️ Price impact: +{buyQuote.priceImpact.toFixed(1)}%
+                      </div>
+                    )}
+                    {parsedBuyAmount > MAX_BUY_PER_TX && (
+                      <div className="mt-2 text-xs text-red-500 flex items-center gap-1">
+                        ⚠️ Max {MAX_BUY_PER_TX} keys per transaction
                       </div>
                     )}
                   </div>
 
+                  <SlippageSettings />
+
+                  <TxPreviewNotice preview={txPreview} loading={txPreviewLoading} />
+
                   <motion.button
                     whileHover={{ scale: 1.02 }}
                     whileTap={{ scale: 0.98 }}
                     onClick={handleBuy}
-                    disabled={!isConnected || isProcessing || loading || parsedBuyAmount <= 0}
+                    disabled={!isConnected || isProcessing || loading || parsedBuyAmount <= 0 || parsedBuyAmount > MAX_BUY_PER_TX || !!txPreview.error}
                     className="w-full py-3.5 bg-gradient-to-r from-green-500 to-emerald-600 text-white font-bold rounded-xl shadow-lg disabled:opacity-50 transition-all flex items-center justify-center gap-2"
                   >
                     {isProcessing ? (
@@ -482,19 +532,33 @@ export function CreatorCard({ creator, onBuy, onSell, isConnected, loading }: Cr
                         {parsedSellAmount || 0} key{parsedSellAmount !== 1 ? 's' : ''}
                       </span>
                     </div>
-                    <div className="flex justify-between text-sm">
-                      <span className="text-gray-500">You receive (after 5% fee)</span>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="text-gray-500">Fee (5%)</span>
+                      <span className="font-medium text-gray-900 dark:text-white">
+                        ${sellQuote ? sellQuote.fee.toFixed(4) : '0.00'}
+                      </span>
+                    </div>
+                    <div className="flex justify-between text-sm mb-1">
+                      <span className="text-gray-500">You receive</span>
                       <span className="font-bold text-green-600 dark:text-green-400">
-                        ${parsedSellAmount > 0 ? estimatedReturn.toFixed(2) : '0.00'}
+                        ${sellQuote ? sellQuote.netProceeds.toFixed(2) : '0.00'}
                       </span>
                     </div>
+                    <div className="flex justify-between text-xs text-gray-500">
+                      <span>Price after</span>
+                      <span>${sellQuote ? sellQuote.priceAfter.toFixed(4) : creator.price.toFixed(4)}</span>
+                    </div>
                   </div>
 
+                  <SlippageSettings />
+
+                  <TxPreviewNotice preview={txPreview} loading={txPreviewLoading} />
+
                   <motion.button
                     whileHover={{ scale: 1.02 }}
                     whileTap={{ scale: 0.98 }}
                     onClick={handleSell}
-                    disabled={!isConnected || isProcessing || loading || parsedSellAmount <= 0 || parsedSellAmount > creator.userShares}
+                    disabled={!isConnected || isProcessing || loading || parsedSellAmount <= 0 || parsedSellAmount > creator.userShares || !!txPreview.error}
                     className="w-full py-3.5 bg-gradient-to-r from-red-500 to-rose-600 text-white font-bold rounded-xl shadow-lg disabled:opacity-50 transition-all flex items-center justify-center gap-2"
                   >
                     {isProcessing ? (
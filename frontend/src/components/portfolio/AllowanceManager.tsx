@@ -0,0 +1,127 @@
+// components/portfolio/AllowanceManager.tsx
+'use client';
+
+import { useState, useEffect } from 'react';
+import { formatUnits } from 'viem';
+import { USDC_DECIMALS } from '@/constants/config';
+import { useAllowances } from '@/hooks/useAllowances';
+import { useApprovalPolicy } from '@/hooks/useApprovalPolicy';
+import { APPROVAL_MODE_LABELS, ApprovalMode, isUnlimitedAllowance } from '@/utils/approvals';
+
+function formatAllowance(amount: bigint | null) {
+  if (amount === null) return '—';
+  if (isUnlimitedAllowance(amount)) return 'Unlimited';
+  return `$${Number(formatUnits(amount, USDC_DECIMALS)).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+}
+
+export function AllowanceManager() {
+  const { policy, setPolicy } = useApprovalPolicy();
+  const { allowances, loading, revoking, refresh, revoke } = useAllowances();
+  const [capInput, setCapInput] = useState(String(policy.capUsdc));
+
+  useEffect(() => {
+    setCapInput(String(policy.capUsdc));
+  }, [policy.capUsdc]);
+
+  const applyCap = (value: string) => {
+    setCapInput(value);
+    const cap = parseFloat(value);
+    if (cap > 0) setPolicy({ capUsdc: cap });
+  };
+
+  const hasAllowance = allowances.some(a => a.amount !== null && a.amount > 0n);
+
+  return (
+    <div>
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+        🔐 USDC Approvals
+      </h3>
+      <div className="bg-white dark:bg-[#12141c] rounded-2xl border border-gray-200 dark:border-gray-800 p-6 space-y-6">
+        {/* 授权策略 */}
+        <div>
+          <div className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">When a trade needs approval</div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            {(Object.keys(APPROVAL_MODE_LABELS) as ApprovalMode[]).map(mode => (
+              <button
+                key={mode}
+                onClick={() => setPolicy({ mode })}
+                className={`p-3 rounded-xl border text-left transition ${
+                  policy.mode === mode
+                    ? 'border-blue-500 bg-blue-50 dark:bg-blue-500/10'
+                    : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600'
+                }`}
+              >
+                <div className="font-semibold text-gray-900 dark:text-white">{APPROVAL_MODE_LABELS[mode].title}</div>
+                <div className="text-xs text-gray-500 dark:text-gray-400 mt-1">{APPROVAL_MODE_LABELS[mode].description}</div>
+              </button>
+            ))}
+          </div>
+          {policy.mode === 'capped' && (
+            <div className="mt-3 flex items-center gap-2 text-sm">
+              <span className="text-gray-500">Approve up to</span>
+              <div className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-gray-100 dark:bg-gray-800">
+                <span className="text-gray-500">$</span>
+                <input
+                  type="number"
+                  min="1"
+                  value={capInput}
+                  onChange={(e) => applyCap(e.target.value)}
+                  className="w-24 bg-transparent outline-none"
+                />
+              </div>
+              <span className="text-gray-500">USDC per contract</span>
+            </div>
+          )}
+          {policy.mode === 'unlimited' && (
+            <div className="mt-3 text-xs text-amber-600 dark:text-amber-400">
+              ⚠️ An unlimited approval lets the market contract move your entire USDC balance.
+            </div>
+          )}
+        </div>
+
+        {/* 当前授权 */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <div className="text-sm font-medium text-gray-700 dark:text-gray-300">Current allowances</div>
+            <button
+              onClick={refresh}
+              disabled={loading}
+              className="text-xs text-gray-500 hover:text-gray-900 dark:hover:text-white disabled:opacity-50 transition"
+            >
+              {loading ? 'Loading...' : '↻ Refresh'}
+            </button>
+          </div>
+          <div className="divide-y divide-gray-200 dark:divide-gray-800 rounded-xl border border-gray-200 dark:border-gray-800">
+            {allowances.map(a => (
+              <div key={a.spender} className="p-3 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="font-medium text-gray-900 dark:text-white">{a.name}</div>
+                  <div className="text-xs text-gray-500 font-mono truncate">{a.spender}</div>
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  <span className={`font-semibold ${a.amount && isUnlimitedAllowance(a.amount) ? 'text-amber-600 dark:text-amber-400' : 'text-gray-900 dark:text-white'}`}>
+                    {formatAllowance(a.amount)}
+                  </span>
+                  <button
+                    onClick={() => revoke([a.spender]).catch(() => {})}
+                    disabled={revoking || !a.amount}
+                    className="px-3 py-1 text-xs rounded-lg bg-red-50 dark:bg-red-500/10 text-red-600 dark:text-red-400 hover:bg-red-100 dark:hover:bg-red-500/20 disabled:opacity-40 transition"
+                  >
+                    Revoke
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={() => revoke().catch(() => {})}
+            disabled={revoking || !hasAllowance}
+            className="mt-3 w-full py-2.5 rounded-xl bg-red-500 hover:bg-red-600 text-white font-semibold disabled:opacity-50 transition"
+          >
+            {revoking ? 'Revoking...' : 'Revoke all'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+// components/portfolio/ClaimAllPanel.tsx
+'use client';
+
+import { formatUnits } from 'viem';
+import type { Market } from '@/hooks/usePredictionMarket';
+import { ClaimKind, ClaimQueueEntry, useClaimQueue } from '@/hooks/useClaimQueue';
+
+interface ClaimAllPanelProps {
+  markets: Market[];
+  onClaimWinnings: (marketId: number) => Promise<void>;
+  onClaimRefund: (marketId: number) => Promise<void>;
+}
+
+const KIND_BADGES: Record<ClaimKind, { label: string; className: string }> = {
+  winnings: { label: '🎉 Winnings', className: 'bg-yellow-100 dark:bg-yellow-500/20 text-yellow-700 dark:text-yellow-300' },
+  refund: { label: '💸 Refund', className: 'bg-blue-100 dark:bg-blue-500/20 text-blue-700 dark:text-blue-300' },
+};
+
+const STATUS_LABELS: Record<ClaimQueueEntry['status'], { icon: string; className: string }> = {
+  queued: { icon: '⏸', className: 'text-gray-400' },
+  claiming: { icon: '⏳', className: 'text-amber-500 animate-pulse' },
+  done: { icon: '✅', className: 'text-green-500' },
+  skipped: { icon: '↷', className: 'text-gray-400' },
+  failed: { icon: '❌', className: 'text-red-500' },
+};
+
+function formatUsdc(amount: bigint) {
+  return `$${Number(formatUnits(amount, 6)).toFixed(2)}`;
+}
+
+export function ClaimAllPanel({ markets, onClaimWinnings, onClaimRefund }: ClaimAllPanelProps) {
+  const { claimables, entries, running, progress, canResume, claimAll, resume, pause, clear } = useClaimQueue(
+    markets,
+    (marketId, kind) => (kind === 'refund' ? onClaimRefund(marketId) : onClaimWinnings(marketId))
+  );
+
+  if (claimables.length === 0 && entries.length === 0) return null;
+
+  const total = claimables.reduce((acc, c) => acc + c.amount, 0n);
+  const entryFor = (marketId: number) => entries.find(e => e.marketId === marketId);
+  const failed = entries.find(e => e.status === 'failed');
+  // 队列里已完成的市场不再出现在 claimables 里，单独列出来展示进度
+  const settledEntries = entries.filter(e => !claimables.some(c => c.market.id === e.marketId));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          💰 Claimable
+        </h3>
+        {claimables.length > 0 && (
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            {claimables.length} market{claimables.length === 1 ? '' : 's'} · <span className="font-semibold text-yellow-600 dark:text-yellow-400">{formatUsdc(total)}</span>
+          </span>
+        )}
+      </div>
+
+      <div className="bg-white dark:bg-[#12141c] rounded-2xl border border-gray-200 dark:border-gray-800 overflow-hidden">
+        {/* 进度 */}
+        {entries.length > 0 && (
+          <div className="p-4 border-b border-gray-200 dark:border-gray-800">
+            <div className="flex justify-between text-sm mb-2">
+              <span className="text-gray-600 dark:text-gray-400">
+                {running ? 'Claiming...' : canResume ? 'Claims paused' : 'Claims finished'}
+              </span>
+              <span className="font-medium">{progress.finished} / {progress.total}</span>
+            </div>
+            <div className="h-2 rounded-full bg-gray-100 dark:bg-gray-800 overflow-hidden">
+              <div
+                className="h-full bg-gradient-to-r from-yellow-400 to-orange-500 transition-all"
+                style={{ width: `${progress.total ? (progress.finished / progress.total) * 100 : 0}%` }}
+              />
+            </div>
+            {failed?.error && !running && (
+              <div className="mt-2 text-xs text-red-500">Market #{failed.marketId}: {failed.error}</div>
+            )}
+          </div>
+        )}
+
+        {/* 可领取列表 */}
+        <div className="divide-y divide-gray-200 dark:divide-gray-800 max-h-96 overflow-y-auto">
+          {claimables.map(({ market, kind, amount }) => {
+            const entry = entryFor(market.id);
+            return (
+              <div key={market.id} className="p-4 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="font-medium text-gray-900 dark:text-white truncate">{market.question}</div>
+                  <div className="flex items-center gap-2 mt-1">
+                    <span className={`px-2 py-0.5 rounded-full text-xs ${KIND_BADGES[kind].className}`}>{KIND_BADGES[kind].label}</span>
+                    {kind === 'winnings' && (
+                      <span className="text-xs text-gray-500">{market.outcomeLabels[market.winnerIndex] ?? `Option ${market.winnerIndex + 1}`} won</span>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  <span className="font-semibold text-gray-900 dark:text-white">{formatUsdc(amount)}</span>
+                  {entry && <span className={STATUS_LABELS[entry.status].className}>{STATUS_LABELS[entry.status].icon}</span>}
+                </div>
+              </div>
+            );
+          })}
+          {settledEntries.map(entry => (
+            <div key={entry.marketId} className="p-4 flex items-center justify-between text-sm text-gray-500">
+              <span className="truncate">
+                {markets.find(m => m.id === entry.marketId)?.question ?? `Market #${entry.marketId}`}
+              </span>
+              <span className={STATUS_LABELS[entry.status].className}>{STATUS_LABELS[entry.status].icon}</span>
+            </div>
+          ))}
+        </div>
+
+        {/* 操作 */}
+        <div className="p-4 border-t border-gray-200 dark:border-gray-800 flex gap-3">
+          {running ? (
+            <button
+              onClick={pause}
+              className="flex-1 py-3 bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 font-semibold rounded-xl hover:bg-gray-200 dark:hover:bg-gray-700 transition"
+            >
+              Pause after current claim
+            </button>
+          ) : canResume ? (
+            <>
+              <button
+                onClick={clear}
+                className="px-4 py-3 bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 font-semibold rounded-xl hover:bg-gray-200 dark:hover:bg-gray-700 transition"
+              >
+                Discard
+              </button>
+              <button
+                onClick={resume}
+                className="flex-1 py-3 bg-gradient-to-r from-yellow-400 to-orange-500 text-white font-bold rounded-xl hover:from-yellow-500 hover:to-orange-600 transition shadow-lg"
+              >
+                ▶ Resume ({progress.total - progress.finished} left)
+              </button>
+            </>
+          ) : (
+            <>
+              {entries.length > 0 && (
+                <button
+                  onClick={clear}
+                  className="px-4 py-3 bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 font-semibold rounded-xl hover:bg-gray-200 dark:hover:bg-gray-700 transition"
+                >
+                  Dismiss
+                </button>
+              )}
+              <button
+                onClick={claimAll}
+                disabled={claimables.length === 0}
+                className="flex-1 py-3 bg-gradient-to-r from-yellow-400 to-orange-500 text-white font-bold rounded-xl hover:from-yellow-500 hover:to-orange-600 disabled:opacity-50 transition shadow-lg"
+              >
+                Claim all ({claimables.length}) · {formatUsdc(total)}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+      {claimables.length > 1 && !running && (
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+          Each claim is a separate transaction. Progress is saved, so you can pause or reload and resume later.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+// components/portfolio/ConditionalOrdersPanel.tsx
+'use client';
+
+import type { Market } from '@/hooks/usePredictionMarket';
+import { useConditionalOrders } from '@/hooks/useConditionalOrders';
+import { ConditionStatus, ConditionalOrder, describeCondition } from '@/utils/conditionalOrders';
+
+interface ConditionalOrdersPanelProps {
+  markets: Market[];
+}
+
+const STATUS_BADGES: Record<ConditionStatus, { label: string; className: string }> = {
+  active: { label: 'Watching', className: 'bg-blue-100 dark:bg-blue-500/20 text-blue-700 dark:text-blue-300' },
+  triggered: { label: 'Triggered', className: 'bg-amber-100 dark:bg-amber-500/20 text-amber-700 dark:text-amber-300' },
+  executed: { label: 'Sold', className: 'bg-green-100 dark:bg-green-500/20 text-green-700 dark:text-green-300' },
+  dismissed: { label: 'Dismissed', className: 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400' },
+  cancelled: { label: 'Removed', className: 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400' },
+};
+
+export function ConditionalOrdersPanel({ markets }: ConditionalOrdersPanelProps) {
+  const { active, triggered, history, cancel } = useConditionalOrders();
+  const open = [...triggered, ...active];
+
+  if (open.length === 0 && history.length === 0) return null;
+
+  const describe = (order: ConditionalOrder) => {
+    const market = markets.find(m => m.id === order.marketId);
+    const label = market?.outcomeLabels[order.outcomeIndex] ?? `Option ${order.outcomeIndex + 1}`;
+    return { market, text: describeCondition(order, label) };
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+          🛡️ Stop-loss &amp; Take-profit
+        </h3>
+        <span className="text-sm text-gray-500 dark:text-gray-400">{open.length} watching</span>
+      </div>
+
+      <div className="bg-white dark:bg-[#12141c] rounded-2xl border border-gray-200 dark:border-gray-800 overflow-hidden">
+        {open.length > 0 && (
+          <div className="divide-y divide-gray-200 dark:divide-gray-800">
+            {open.map(order => {
+              const { market, text } = describe(order);
+              const price = market?.prices[order.outcomeIndex];
+              return (
+                <div key={order.id} className="p-4 flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="font-medium text-gray-900 dark:text-white truncate">{market?.question ?? `Market #${order.marketId}`}</div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {text}
+                      {price !== undefined && ` · now ${(price / 100).toFixed(1)}%`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span className={`px-2 py-0.5 rounded-full text-xs ${STATUS_BADGES[order.status].className}`}>
+                      {STATUS_BADGES[order.status].label}
+                    </span>
+                    {order.status === 'active' && (
+                      <button onClick={() => cancel(order.id)} className="text-gray-400 hover:text-red-500 transition">✕</button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {/* 触发历史 */}
+        {history.length > 0 && (
+          <div className={open.length > 0 ? 'border-t border-gray-200 dark:border-gray-800' : ''}>
+            <div className="px-4 pt-3 text-xs font-medium text-gray-500 uppercase tracking-wide">History</div>
+            <div className="divide-y divide-gray-100 dark:divide-gray-800/60 max-h-72 overflow-y-auto">
+              {history.map(order => {
+                const { market, text } = describe(order);
+                return (
+                  <div key={order.id} className="px-4 py-3 flex items-center justify-between gap-3 text-sm">
+                    <div className="min-w-0">
+                      <div className="text-gray-700 dark:text-gray-300 truncate">{market?.question ?? `Market #${order.marketId}`}</div>
+                      <div className="text-xs text-gray-500 mt-0.5">
+                        {text}
+                        {order.triggeredAt && ` · triggered at ${((order.triggerPriceBps ?? 0) / 100).toFixed(1)}% on ${new Date(order.triggeredAt).toLocaleString()}`}
+                        {order.note && ` · ${order.note}`}
+                      </div>
+                    </div>
+                    <span className={`px-2 py-0.5 rounded-full text-xs shrink-0 ${STATUS_BADGES[order.status].className}`}>
+                      {STATUS_BADGES[order.status].label}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -17,20 +17,38 @@ interface Holding {
   amount: number;
   avgBuyPrice: number;
   totalInvested: number;
+  unrealizedPnL: number;
+  realizedPnL: number;
+  feesPaid: number;
+  costBasisComplete: boolean;
 }
 
+type CostBasisMethod = 'fifo' | 'average';
+
 interface CreatorPortfolioProps {
   holdings: Holding[];
   totalValue: number;
   totalPnL: number;
   totalPnLPercent: number;
+  totalUnrealizedPnL: number;
+  totalRealizedPnL: number;
+  totalFeesPaid: number;
+  costBasisMethod: CostBasisMethod;
+  onCostBasisMethodChange: (method: CostBasisMethod) => void;
 }
 
+const formatSigned = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+
 export function CreatorPortfolio({
   holdings,
   totalValue,
   totalPnL,
   totalPnLPercent,
+  totalUnrealizedPnL,
+  totalRealizedPnL,
+  totalFeesPaid,
+  costBasisMethod,
+  onCostBasisMethodChange,
 }: CreatorPortfolioProps) {
   const sortedHoldings = useMemo(() => {
     return [...holdings].sort((a, b) => {
@@ -58,21 +76,51 @@ export function CreatorPortfolio({
             ({totalPnLPercent >= 0 ? '+' : ''}{totalPnLPercent.toFixed(1)}%)
           </div>
         </div>
+        <div className="grid grid-cols-3 gap-3 mt-4 text-sm">
+          <div>
+            <div className="opacity-70 text-xs">Unrealized</div>
+            <div className="font-semibold">{formatSigned(totalUnrealizedPnL)}</div>
+          </div>
+          <div>
+            <div className="opacity-70 text-xs">Realized</div>
+            <div className="font-semibold">{formatSigned(totalRealizedPnL)}</div>
+          </div>
+          <div>
+            <div className="opacity-70 text-xs">Fees paid</div>
+            <div className="font-semibold">{totalFeesPaid.toFixed(2)}</div>
+          </div>
+        </div>
       </div>
 
       {/* Holdings List */}
       <div className="bg-white dark:bg-[#12141c] rounded-2xl border border-gray-200 dark:border-gray-800 overflow-hidden">
-        <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
           <h3 className="font-bold text-gray-900 dark:text-white">
             Your Holdings ({holdings.length})
           </h3>
+          {/* 成本计算方式 */}
+          <div className="flex bg-gray-100 dark:bg-gray-800 rounded-lg p-0.5 text-xs font-medium">
+            {(['fifo', 'average'] as CostBasisMethod[]).map(method => (
+              <button
+                key={method}
+                onClick={() => onCostBasisMethodChange(method)}
+                className={`px-2.5 py-1 rounded-md transition ${
+                  costBasisMethod === method
+                    ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm'
+                    : 'text-gray-500 hover:text-gray-700 dark:hover:text-gray-300'
+                }`}
+              >
+                {method === 'fifo' ? 'FIFO' : 'Avg cost'}
+              </button>
+            ))}
+          </div>
         </div>
 
         <div className="divide-y divide-gray-100 dark:divide-gray-800">
           {sortedHoldings.map((holding, index) => {
             const currentValue = holding.amount * holding.creator.price;
-            const pnl = currentValue - holding.totalInvested;
-            const pnlPercent = (pnl / holding.totalInvested) * 100;
+            const pnl = holding.unrealizedPnL;
+            const pnlPercent = holding.totalInvested > 0 ? (pnl / holding.totalInvested) * 100 : 0;
 
             return (
               <motion.div
@@ -101,6 +149,14 @@ export function CreatorPortfolio({
                     </div>
                     <div className="text-sm text-gray-500">
                       {holding.amount.toFixed(2)} keys @ ${holding.avgBuyPrice.toFixed(4)} avg
+                      {!holding.costBasisComplete && (
+                        <span className="ml-1 text-xs text-orange-500" title="Trade history is still syncing; cost basis is estimated">
+                          ~est.
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-400">
+                      Realized {formatSigned(holding.realizedPnL)} · Fees {holding.feesPaid.toFixed(2)}
                     </div>
                   </div>
 
@@ -0,0 +1,118 @@
+'use client';
+
+import { useState } from 'react';
+import { useConditionalOrders } from '@/hooks/useConditionalOrders';
+import { CONDITION_LABELS, ConditionKind, SELL_FRACTION_OPTIONS, describeCondition } from '@/utils/conditionalOrders';
+
+interface ConditionalOrderFormProps {
+  marketId: number;
+  outcomeIndex: number;
+  outcomeLabel: string;
+  currentPrice: number;       // 百分比
+}
+
+export function ConditionalOrderForm({ marketId, outcomeIndex, outcomeLabel, currentPrice }: ConditionalOrderFormProps) {
+  const { active, add, cancel } = useConditionalOrders();
+  const [open, setOpen] = useState(false);
+  const [kind, setKind] = useState<ConditionKind>('stopLoss');
+  const [trigger, setTrigger] = useState('');
+  const [fraction, setFraction] = useState(10000);
+
+  const conditions = active.filter(o => o.marketId === marketId && o.outcomeIndex === outcomeIndex);
+  const triggerValue = parseFloat(trigger);
+  const valid = triggerValue > 0 && triggerValue < 100;
+  // 阈值在当前价格错误的一侧时，下一次刷新就会触发
+  const firesImmediately = valid && (kind === 'stopLoss' ? currentPrice < triggerValue : currentPrice > triggerValue);
+
+  const handleAdd = () => {
+    if (!valid) return;
+    add({ marketId, outcomeIndex, kind, triggerBps: Math.round(triggerValue * 100), sellFractionBps: fraction });
+    setTrigger('');
+    setOpen(false);
+  };
+
+  return (
+    <div className="rounded-xl border border-gray-200 dark:border-gray-700 p-3 text-sm">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium text-gray-600 dark:text-gray-300">🛡️ Stop-loss / take-profit</span>
+        <button onClick={() => setOpen(!open)} className="text-xs text-blue-600 dark:text-blue-400 hover:underline">
+          {open ? 'Close' : '+ Add condition'}
+        </button>
+      </div>
+
+      {conditions.length > 0 && (
+        <div className="mt-2 space-y-1">
+          {conditions.map(c => (
+            <div key={c.id} className="flex items-center justify-between text-xs bg-gray-50 dark:bg-gray-800/60 rounded-lg px-2 py-1">
+              <span className={c.kind === 'stopLoss' ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}>
+                {describeCondition(c, outcomeLabel)}
+              </span>
+              <button onClick={() => cancel(c.id)} className="text-gray-400 hover:text-red-500 transition">✕</button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {open && (
+        <div className="mt-3 space-y-2">
+          <div className="flex gap-2">
+            {(Object.keys(CONDITION_LABELS) as ConditionKind[]).map(k => (
+              <button
+                key={k}
+                onClick={() => setKind(k)}
+                className={`flex-1 py-1.5 rounded-lg text-xs font-semibold transition ${
+                  kind === k
+                    ? k === 'stopLoss' ? 'bg-red-600 text-white' : 'bg-green-600 text-white'
+                    : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300'
+                }`}
+              >
+                {CONDITION_LABELS[k]}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-gray-500 whitespace-nowrap">Sell if price {kind === 'stopLoss' ? 'below' : 'above'}</span>
+            <input
+              type="number"
+              min="1"
+              max="99"
+              value={trigger}
+              onChange={(e) => setTrigger(e.target.value)}
+              placeholder={currentPrice.toFixed(0)}
+              className="w-full px-2 py-1 bg-gray-100 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <span className="text-xs text-gray-500">%</span>
+          </div>
+          <div className="flex gap-2">
+            {SELL_FRACTION_OPTIONS.map(f => (
+              <button
+                key={f}
+                onClick={() => setFraction(f)}
+                className={`flex-1 py-1 rounded-lg text-xs font-semibold transition ${
+                  fraction === f ? 'bg-blue-600 text-white' : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300'
+                }`}
+              >
+                {f === 10000 ? 'All' : `${f / 100}%`}
+              </button>
+            ))}
+          </div>
+          {firesImmediately && (
+            <p className="text-xs text-amber-600 dark:text-amber-400">
+              ⚠️ Current price is {currentPrice.toFixed(1)}%, so this triggers right away.
+            </p>
+          )}
+          <button
+            onClick={handleAdd}
+            disabled={!valid}
+            className="w-full py-2 bg-blue-600 text-white text-xs font-semibold rounded-lg hover:bg-blue-700 disabled:opacity-50 transition"
+          >
+            Add condition
+          </button>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Checked against the market price while this page is open. When it triggers you will be asked to sign the sell.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { TxError } from '@/lib/transactions';
+import { decodeTxError, formatTxError } from '@/utils/txErrors';
 
 interface CreateMarketModalProps {
   isOpen: boolean;
@@ -149,7 +151,7 @@ export function CreateMarketModal({ isOpen, onClose, onCreate }: CreateMarketMod
       setNumOutcomes(3);
       setOutcomeLabels(['Option A', 'Option B', 'Option C']);
     } catch (error: any) {
-      alert(error.reason || error.message);
+      if (!(error instanceof TxError)) alert(formatTxError(decodeTxError(error)));
     } finally {
       setLoading(false);
     }
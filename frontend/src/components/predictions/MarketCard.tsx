@@ -1,29 +1,57 @@
 'use client';
 
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import { Market, LimitOrder } from '@/hooks/usePredictionMarket';
+import { parseUnits, formatUnits } from 'viem';
+import { Market, LimitOrder, PriceHistory, TradeRequest } from '@/hooks/usePredictionMarket';
+import { useMarketPriceHistory } from '@/hooks/useMarketPriceHistory';
+import { useTxPreview } from '@/hooks/useTxPreview';
+import { useOrderBook } from '@/hooks/useOrderBook';
+import { TxError, TxPreview } from '@/lib/transactions';
+import { claimableWinnings, quoteBuy, quoteSell, refundableAmount } from '@/utils/marketMath';
+import { routeBuy } from '@/utils/orderRouter';
+import { decodeTxError, formatTxError } from '@/utils/txErrors';
 // ✅ 引入支持多选项的概率图表组件
 import { 
   ProbabilityChart,
   MiniProbabilityChart, 
-  generateMockProbabilityHistory,
-  generateMiniProbabilityData,
+  ProbabilityRange,
+  buildProbabilityHistory,
+  toMiniProbabilityData,
 } from '@/components/charts/ProbabilityChart';
+import { RangeSelector } from '@/components/charts/PortfolioCharts';
+import { TxPreviewNotice } from '@/components/ui/TxPreviewNotice';
+import { OrderBookPanel } from './OrderBookPanel';
+import { RouteSummary } from './RouteSummary';
+import { OrderExpiryCountdown, OrderExpiryPicker } from './OrderExpiry';
+import { ConditionalOrderForm } from './ConditionalOrderForm';
+import { SlippageSettings } from '@/components/ui/SlippageSettings';
 
 interface MarketCardProps {
   market: Market;
   userOrders?: LimitOrder[];
-  onBuy: (marketId: number, outcomeIndex: number | boolean, amount: string) => Promise<void>;
-  onSell: (marketId: number, outcomeIndex: number | boolean, shares: bigint | string) => Promise<void>;
+  onBuy: (marketId: number, outcomeIndex: number | boolean, amount: string, expectedShares?: bigint) => Promise<void>;
+  onBuyRouted?: (marketId: number, outcomeIndex: number, amount: string, expectedShares?: bigint) => Promise<void>;
+  onSell: (marketId: number, outcomeIndex: number | boolean, shares: bigint | string, expectedUsdc?: bigint) => Promise<void>;
   onClaim: (marketId: number) => Promise<void>;
+  onRefund: (marketId: number) => Promise<void>;
   onDelete?: (marketId: number) => Promise<void>;
-  onPlaceBuyOrder?: (marketId: number, outcomeIndex: number, shares: string, price: number) => Promise<void>;
-  onPlaceSellOrder?: (marketId: number, outcomeIndex: number, shares: string, price: number) => Promise<void>;
+  onPlaceBuyOrder?: (marketId: number, outcomeIndex: number, shares: string, price: number, expiresAt?: number) => Promise<void>;
+  onPlaceSellOrder?: (marketId: number, outcomeIndex: number, shares: string, price: number, expiresAt?: number) => Promise<void>;
   onCancelOrder?: (orderId: number) => Promise<void>;
+  getPriceHistory?: (marketId: number) => Promise<PriceHistory>;
+  getMarketOrders?: (marketId: number, outcomeIndex: number) => Promise<LimitOrder[]>;
+  onPreviewTrade?: (request: TradeRequest) => Promise<TxPreview>;
   isConnected: boolean;
   isOwner?: boolean;
   usdcBalance: string;
   userAddress?: string;
+  supportsOrderExpiry?: boolean;   // 旧合约没有限价单到期
+}
+
+// hook 抛出的 TxError 已经在通知托盘里展示，这里只提示组件自身的错误（如金额格式不对）
+function showTradeError(error: unknown) {
+  if (error instanceof TxError) return;
+  alert(formatTxError(decodeTxError(error)));
 }
 
 const CATEGORY_COLORS: Record<string, string> = {
@@ -85,15 +113,22 @@ export function MarketCard({
   market, 
   userOrders = [],
   onBuy, 
+  onBuyRouted,
   onSell, 
   onClaim,
+  onRefund,
   onDelete,
   onPlaceBuyOrder,
   onPlaceSellOrder,
   onCancelOrder,
+  getPriceHistory,
+  getMarketOrders,
+  onPreviewTrade,
   isConnected,
   isOwner = false,
   usdcBalance,
+  userAddress,
+  supportsOrderExpiry = false,
 }: MarketCardProps) {
   const [selectedOutcome, setSelectedOutcome] = useState<number | null>(null);
   const [tradeMode, setTradeMode] = useState<'buy' | 'sell'>('buy');
@@ -106,11 +141,14 @@ export function MarketCard({
   const [sellShares, setSellShares] = useState('');
   const [sellLimitPrice, setSellLimitPrice] = useState('50');
   const [sellLimitShares, setSellLimitShares] = useState('');
+  const [orderExpirySeconds, setOrderExpirySeconds] = useState(0);
   
   const [loading, setLoading] = useState(false);
   const [showTradePanel, setShowTradePanel] = useState(false);
   const [deleteConfirm, setDeleteConfirm] = useState(false);
   const [showChart, setShowChart] = useState(false);
+  const [showOrderBook, setShowOrderBook] = useState(false);
+  const [chartRange, setChartRange] = useState<ProbabilityRange>('all');
 
   const isOpen = market.status === 0;
   const isResolved = market.status === 1;
@@ -126,6 +164,10 @@ export function MarketCard({
     ? market.userShares.some(s => s > 0n)
     : (market.userYesShares > 0n || market.userNoShares > 0n);
 
+  // 按合约的池子比例公式计算可领取金额
+  const winnings = claimableWinnings(market);
+  const refund = refundableAmount(market);
+
   const marketOrders = userOrders.filter(o => o.marketId === market.id);
 
   const numOutcomes = market.numOutcomes || 2;
@@ -155,15 +197,34 @@ export function MarketCard({
     return Array.from({ length: numOutcomes }, (_, i) => `Option ${String.fromCharCode(65 + i)}`);
   }, [market.outcomeLabels, numOutcomes]);
 
-  // ✅ 生成概率历史数据（支持多选项）
-  const probabilityHistory = useMemo(() => {
-    return generateMiniProbabilityData(currentPrices, 12);
-  }, [currentPrices]);
+  // ✅ 链上价格历史（价格或状态变化时才重新拉取）
+  const { series: priceSeries } = useMarketPriceHistory(
+    market.id,
+    `${market.status}:${market.prices.join(',')}`,
+    getPriceHistory
+  );
+  // 所选选项的订单簿（展开订单簿或市价买入需要路由时才读取；自己挂单 / 撤单或价格变化后刷新）
+  const needsOrders = showOrderBook || (!!onBuyRouted && orderType === 'market' && tradeMode === 'buy');
+  const { orders: outcomeOrders, book: orderBook, loading: orderBookLoading, refresh: refreshOrderBook } = useOrderBook(
+    market.id,
+    showTradePanel && needsOrders ? selectedOutcome : null,
+    `${market.prices.join(',')}:${marketOrders.map(o => o.id).join(',')}`,
+    getMarketOrders
+  );
+
+  const resolvedAt = isResolved && market.resolutionTime > 0 ? market.resolutionTime * 1000 : undefined;
 
-  // ✅ 生成完整图表数据
+  // ✅ 完整图表数据（按时间范围截取）
   const fullChartData = useMemo(() => {
-    return generateMockProbabilityHistory(currentPrices, 12);
-  }, [currentPrices]);
+    if (!priceSeries) return [];
+    return buildProbabilityHistory(priceSeries, currentPrices, chartRange, resolvedAt);
+  }, [priceSeries, currentPrices, chartRange, resolvedAt]);
+
+  // ✅ 迷你图始终展示全部历史
+  const probabilityHistory = useMemo(() => {
+    if (!priceSeries) return [];
+    return toMiniProbabilityData(buildProbabilityHistory(priceSeries, currentPrices, 'all', resolvedAt), numOutcomes);
+  }, [priceSeries, currentPrices, resolvedAt, numOutcomes]);
 
   const getOutcomeLabel = useCallback((index: number) => {
     return outcomeLabels[index] || `Option ${index + 1}`;
@@ -198,20 +259,29 @@ export function MarketCard({
     }
   }, [selectedOutcome, getUserShares]);
 
+  // 提交时才换算成绝对时间
+  const expirySeconds = supportsOrderExpiry ? orderExpirySeconds : 0;
+  const limitOrderExpiresAt = () => (expirySeconds > 0 ? Math.floor(Date.now() / 1000) + expirySeconds : undefined);
+
   const handleBuy = async () => {
     if (selectedOutcome === null) return;
     setLoading(true);
     try {
       if (orderType === 'market') {
-        await onBuy(market.id, selectedOutcome, buyAmount);
+        // 把面板上展示的报价传下去，提交前按滑点容忍度核对；有更便宜的卖单时走分单路由
+        if (buyRoute && buyRoute.bookLegs.length > 0 && onBuyRouted) {
+          await onBuyRouted(market.id, selectedOutcome, buyAmount, buyRoute.totalShares);
+        } else {
+          await onBuy(market.id, selectedOutcome, buyAmount, buyQuote?.shares);
+        }
       } else if (onPlaceBuyOrder) {
-        await onPlaceBuyOrder(market.id, selectedOutcome, buyLimitShares, parseInt(buyLimitPrice));
+        await onPlaceBuyOrder(market.id, selectedOutcome, buyLimitShares, parseInt(buyLimitPrice), limitOrderExpiresAt());
       }
       setShowTradePanel(false);
       setSelectedOutcome(null);
     } catch (error: any) {
       console.error('Buy error:', error);
-      alert(error.reason || error.message);
+      showTradeError(error);
     } finally {
       setLoading(false);
     }
@@ -222,15 +292,15 @@ export function MarketCard({
     setLoading(true);
     try {
       if (orderType === 'market') {
-        await onSell(market.id, selectedOutcome, sellShares);
+        await onSell(market.id, selectedOutcome, sellShares, sellQuote?.usdcOut);
       } else if (onPlaceSellOrder) {
-        await onPlaceSellOrder(market.id, selectedOutcome, sellLimitShares, parseInt(sellLimitPrice));
+        await onPlaceSellOrder(market.id, selectedOutcome, sellLimitShares, parseInt(sellLimitPrice), limitOrderExpiresAt());
       }
       setShowTradePanel(false);
       setSelectedOutcome(null);
     } catch (error: any) {
       console.error('Sell error:', error);
-      alert(error.reason || error.message);
+      showTradeError(error);
     } finally {
       setLoading(false);
     }
@@ -243,7 +313,7 @@ export function MarketCard({
       await onCancelOrder(orderId);
     } catch (error: any) {
       console.error('Cancel order error:', error);
-      alert(error.reason || error.message);
+      showTradeError(error);
     } finally {
       setLoading(false);
     }
@@ -257,7 +327,7 @@ export function MarketCard({
       setDeleteConfirm(false);
     } catch (error: any) {
       console.error('Delete market error:', error);
-      alert(error.reason || error.message);
+      showTradeError(error);
     } finally {
       setLoading(false);
     }
@@ -267,6 +337,59 @@ export function MarketCard({
     ? (market.prices?.[selectedOutcome] || (selectedOutcome === 0 ? market.yesPrice * 100 : market.noPrice * 100)) / 100
     : 50;
 
+  // ✅ 本地按 LMSR / CPMM 报价（与合约计算一致，无需 RPC）
+  const buyQuote = useMemo(() => {
+    if (selectedOutcome === null) return null;
+    try {
+      return quoteBuy(market, selectedOutcome, parseUnits(buyAmount || '0', 6));
+    } catch {
+      return null;
+    }
+  }, [market, selectedOutcome, buyAmount]);
+
+  const buyRoute = useMemo(() => {
+    if (selectedOutcome === null || !onBuyRouted || outcomeOrders.length === 0) return null;
+    try {
+      return routeBuy(market, selectedOutcome, parseUnits(buyAmount || '0', 6), outcomeOrders, userAddress);
+    } catch {
+      return null;
+    }
+  }, [market, selectedOutcome, buyAmount, outcomeOrders, onBuyRouted, userAddress]);
+
+  const sellQuote = useMemo(() => {
+    if (selectedOutcome === null) return null;
+    try {
+      return quoteSell(market, selectedOutcome, parseUnits(sellShares || '0', 18));
+    } catch {
+      return null;
+    }
+  }, [market, selectedOutcome, sellShares]);
+
+  // 链上模拟当前输入的交易：预估 gas，会 revert 时提前给出原因
+  const tradeRequest = useMemo((): TradeRequest | null => {
+    if (!showTradePanel || selectedOutcome === null || !isConnected) return null;
+    const base = { marketId: market.id, outcomeIndex: selectedOutcome };
+    if (orderType === 'market') {
+      // 和 handleBuy 一样：有可吃的卖单时按分单路由的两笔交易模拟
+      if (tradeMode === 'buy' && buyRoute && buyRoute.bookLegs.length > 0 && onBuyRouted) {
+        return {
+          ...base,
+          type: 'routedBuy',
+          bookLegs: buyRoute.bookLegs.map(l => ({ orderId: l.orderId, shares: formatUnits(l.shares, 18) })),
+          ammUsdc: formatUnits(buyRoute.ammUsdc, 6),
+        };
+      }
+      return tradeMode === 'buy'
+        ? { ...base, type: 'buy', amount: buyAmount }
+        : { ...base, type: 'sell', shares: sellShares };
+    }
+    return tradeMode === 'buy'
+      ? { ...base, type: 'limitBuy', shares: buyLimitShares, price: parseInt(buyLimitPrice) || 0, expirySeconds }
+      : { ...base, type: 'limitSell', shares: sellLimitShares, price: parseInt(sellLimitPrice) || 0, expirySeconds };
+  }, [showTradePanel, selectedOutcome, isConnected, market.id, orderType, tradeMode, buyAmount, sellShares, buyLimitShares, buyLimitPrice, sellLimitShares, sellLimitPrice, expirySeconds, buyRoute, onBuyRouted]);
+
+  const { preview: txPreview, loading: txPreviewLoading } = useTxPreview(tradeRequest, onPreviewTrade);
+
   return (
     <div className="bg-white dark:bg-[#12141c] rounded-2xl border border-gray-200 dark:border-gray-800 overflow-hidden shadow-sm hover:shadow-lg dark:hover:border-gray-700 transition-all duration-200">
       <div className={`h-1.5 bg-gradient-to-r ${categoryColor}`} />
@@ -334,6 +457,12 @@ export function MarketCard({
               </div>
             </div>
             
+            {showChart && (
+              <div className="flex justify-end mt-2">
+                <RangeSelector range={chartRange} onRangeChange={setChartRange} />
+              </div>
+            )}
+
             {/* 图表区域 */}
             <div className={`mt-2 transition-all duration-300 overflow-hidden ${showChart ? 'h-32' : 'h-10'}`}>
               {showChart ? (
@@ -342,6 +471,8 @@ export function MarketCard({
                   outcomeLabels={outcomeLabels}
                   height={120}
                   showLegend={false}
+                  resolvedAt={resolvedAt}
+                  winnerLabel={isResolved ? outcomeLabels[market.winnerIndex] : undefined}
                 />
               ) : (
                 <MiniProbabilityChart 
@@ -433,6 +564,12 @@ export function MarketCard({
                     </span>
                     {' @ '}
                     <span className="font-medium">{(order.price / 100).toFixed(0)}%</span>
+                    {order.expiresAt > 0 && (
+                      <>
+                        {' · '}
+                        <OrderExpiryCountdown expiresAt={order.expiresAt} />
+                      </>
+                    )}
                   </div>
                   <button
                     onClick={() => handleCancelOrder(order.id)}
@@ -508,6 +645,37 @@ export function MarketCard({
               </button>
             </div>
 
+            {getMarketOrders && (
+              <div>
+                <button
+                  onClick={() => setShowOrderBook(prev => !prev)}
+                  className="text-xs text-gray-500 hover:text-gray-900 dark:hover:text-white transition"
+                >
+                  📖 {showOrderBook ? 'Hide' : 'Show'} order book {showOrderBook ? '▴' : '▾'}
+                </button>
+                {showOrderBook && (
+                  <div className="mt-2">
+                    <OrderBookPanel
+                      book={orderBook}
+                      loading={orderBookLoading}
+                      ammPrice={currentPrice}
+                      outcomeLabel={getOutcomeLabel(selectedOutcome)}
+                      onRefresh={refreshOrderBook}
+                      onSelectLevel={(side, priceCents) => {
+                        // 按所点档位的价格挂对手方向的限价单
+                        const placeOrder = side === 'buy' ? onPlaceBuyOrder : onPlaceSellOrder;
+                        if (!placeOrder) return;
+                        setTradeMode(side);
+                        setOrderType('limit');
+                        if (side === 'buy') setBuyLimitPrice(String(priceCents));
+                        else setSellLimitPrice(String(priceCents));
+                      }}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* BUY MODE */}
             {tradeMode === 'buy' && (
               <>
@@ -540,14 +708,31 @@ export function MarketCard({
                     </div>
                     <div className="p-3 bg-gray-50 dark:bg-gray-800/60 rounded-xl border border-gray-200 dark:border-gray-700 text-sm">
                       <div className="flex justify-between">
-                        <span className="text-gray-500">Est. shares</span>
-                        <span className="font-medium">{(parseFloat(buyAmount || '0') / (currentPrice / 100)).toFixed(2)}</span>
+                        <span className="text-gray-500">Shares out</span>
+                        <span className="font-medium">{buyQuote ? Number(formatUnits(buyQuote.shares, 18)).toFixed(2) : '0.00'}</span>
+                      </div>
+                      <div className="flex justify-between mt-1">
+                        <span className="text-gray-500">Avg. price</span>
+                        <span className="font-medium">${buyQuote ? buyQuote.avgPrice.toFixed(4) : '0.00'}</span>
+                      </div>
+                      <div className="flex justify-between mt-1">
+                        <span className="text-gray-500">Fee</span>
+                        <span className="font-medium">${buyQuote ? Number(formatUnits(buyQuote.fee, 6)).toFixed(4) : '0.00'}</span>
                       </div>
                       <div className="flex justify-between mt-1">
-                        <span className="text-gray-500">Potential return</span>
-                        <span className="text-green-600 font-medium">${(parseFloat(buyAmount || '0') / (currentPrice / 100)).toFixed(2)}</span>
+                        <span className="text-gray-500">Probability</span>
+                        <span className="font-medium">
+                          {currentPrice.toFixed(1)}% → {buyQuote ? (buyQuote.pricesAfter[selectedOutcome] / 100).toFixed(1) : currentPrice.toFixed(1)}%
+                        </span>
+                      </div>
+                      <div className="flex justify-between mt-1">
+                        <span className="text-gray-500">Payout if {getOutcomeLabel(selectedOutcome)} wins</span>
+                        <span className="text-green-600 font-medium">${buyQuote ? Number(formatUnits(buyQuote.payoutIfWins, 6)).toFixed(2) : '0.00'}</span>
                       </div>
                     </div>
+                    {buyRoute && buyRoute.bookLegs.length > 0 && (
+                      <RouteSummary route={buyRoute} outcomeLabel={getOutcomeLabel(selectedOutcome)} />
+                    )}
                   </>
                 ) : (
                   <>
@@ -582,6 +767,9 @@ export function MarketCard({
                         </span>
                       </div>
                     </div>
+                    {supportsOrderExpiry && (
+                      <OrderExpiryPicker seconds={orderExpirySeconds} marketEndTime={market.endTime} onChange={setOrderExpirySeconds} />
+                    )}
                   </>
                 )}
               </>
@@ -624,11 +812,28 @@ export function MarketCard({
                     </div>
                     <div className="p-3 bg-gray-50 dark:bg-gray-800/60 rounded-xl border border-gray-200 dark:border-gray-700 text-sm">
                       <div className="flex justify-between">
-                        <span className="text-gray-500">Est. receive</span>
+                        <span className="text-gray-500">You receive</span>
                         <span className="font-medium text-green-600">
-                          ~${((parseFloat(sellShares) || 0) * currentPrice / 100).toFixed(2)} USDC
+                          ${sellQuote ? Number(formatUnits(sellQuote.usdcOut, 6)).toFixed(2) : '0.00'} USDC
                         </span>
                       </div>
+                      <div className="flex justify-between mt-1">
+                        <span className="text-gray-500">Avg. price</span>
+                        <span className="font-medium">${sellQuote ? sellQuote.avgPrice.toFixed(4) : '0.00'}</span>
+                      </div>
+                      <div className="flex justify-between mt-1">
+                        <span className="text-gray-500">Fee</span>
+                        <span className="font-medium">${sellQuote ? Number(formatUnits(sellQuote.fee, 6)).toFixed(4) : '0.00'}</span>
+                      </div>
+                      <div className="flex justify-between mt-1">
+                        <span className="text-gray-500">Probability</span>
+                        <span className="font-medium">
+                          {currentPrice.toFixed(1)}% → {sellQuote ? (sellQuote.pricesAfter[selectedOutcome] / 100).toFixed(1) : currentPrice.toFixed(1)}%
+                        </span>
+                      </div>
+                      {sellQuote?.insufficientLiquidity && (
+                        <div className="mt-2 text-xs text-red-500">⚠️ Not enough liquidity in the pool for this sale</div>
+                      )}
                     </div>
                   </>
                 ) : (
@@ -665,18 +870,33 @@ export function MarketCard({
                         </span>
                       </div>
                     </div>
+                    {supportsOrderExpiry && (
+                      <OrderExpiryPicker seconds={orderExpirySeconds} marketEndTime={market.endTime} onChange={setOrderExpirySeconds} />
+                    )}
                   </>
                 )}
+                {getUserShares(selectedOutcome) > 0n && (
+                  <ConditionalOrderForm
+                    marketId={market.id}
+                    outcomeIndex={selectedOutcome}
+                    outcomeLabel={getOutcomeLabel(selectedOutcome)}
+                    currentPrice={currentPrice}
+                  />
+                )}
               </>
             )}
 
+            {orderType === 'market' && <SlippageSettings />}
+
+            <TxPreviewNotice preview={txPreview} loading={txPreviewLoading} />
+
             <div className="text-xs text-gray-500">
               Balance: <span className="font-semibold">${parseFloat(usdcBalance).toFixed(2)} USDC</span>
             </div>
 
             <button
               onClick={tradeMode === 'buy' ? handleBuy : handleSell}
-              disabled={loading}
+              disabled={loading || !!txPreview.error}
               className={`w-full py-4 rounded-xl font-bold text-lg transition-all shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed text-white ${
                 tradeMode === 'buy'
                   ? `bg-gradient-to-r ${OUTCOME_BTN_COLORS[selectedOutcome % OUTCOME_BTN_COLORS.length]}`
@@ -703,13 +923,29 @@ export function MarketCard({
         {/* Claim Button */}
         {isResolved && hasPosition && !market.hasClaimed && (
           <button
-            onClick={() => onClaim(market.id)}
+            onClick={() => onClaim(market.id).catch(showTradeError)}
             className="w-full py-4 bg-gradient-to-r from-yellow-400 to-orange-500 rounded-xl font-bold text-lg hover:from-yellow-500 hover:to-orange-600 transition-all mt-4 shadow-lg hover:shadow-xl text-white"
           >
-            🎉 Claim Winnings
+            🎉 Claim Winnings{winnings > 0n && ` · $${Number(formatUnits(winnings, 6)).toFixed(2)}`}
           </button>
         )}
 
+        {/* Refund Button */}
+        {isCancelled && refund > 0n && (
+          <div className="mt-4 p-4 rounded-xl bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800">
+            <div className="flex justify-between text-sm mb-3">
+              <span className="text-gray-600 dark:text-gray-400">Refundable</span>
+              <span className="font-semibold text-blue-700 dark:text-blue-300">${Number(formatUnits(refund, 6)).toFixed(2)} USDC</span>
+            </div>
+            <button
+              onClick={() => onRefund(market.id).catch(showTradeError)}
+              className="w-full py-3 bg-gradient-to-r from-blue-500 to-indigo-600 rounded-xl font-bold hover:from-blue-600 hover:to-indigo-700 transition-all shadow-lg hover:shadow-xl text-white"
+            >
+              💸 Claim Refund
+            </button>
+          </div>
+        )}
+
         {/* Status Badge */}
         {!isOpen && (
           <div
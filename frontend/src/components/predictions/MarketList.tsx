@@ -2,24 +2,30 @@
 
 import { useState } from 'react';
 import { MarketCard } from './MarketCard';
-import { Market, LimitOrder, PriceHistory } from '@/hooks/usePredictionMarket';
+import { Market, LimitOrder, PriceHistory, TradeRequest } from '@/hooks/usePredictionMarket';
+import type { TxPreview } from '@/lib/transactions';
 
 interface MarketListProps {
   markets: Market[];
   userOrders?: LimitOrder[];
   isOwner?: boolean;
-  onBuy: (marketId: number, outcomeIndex: number | boolean, amount: string) => Promise<void>;
-  onSell: (marketId: number, outcomeIndex: number | boolean, shares: bigint | string) => Promise<void>;
+  onBuy: (marketId: number, outcomeIndex: number | boolean, amount: string, expectedShares?: bigint) => Promise<void>;
+  onBuyRouted?: (marketId: number, outcomeIndex: number, amount: string, expectedShares?: bigint) => Promise<void>;
+  onSell: (marketId: number, outcomeIndex: number | boolean, shares: bigint | string, expectedUsdc?: bigint) => Promise<void>;
   onClaim: (marketId: number) => Promise<void>;
+  onRefund: (marketId: number) => Promise<void>;
   onDelete?: (marketId: number) => Promise<void>;
-  onPlaceBuyOrder?: (marketId: number, outcomeIndex: number, shares: string, price: number) => Promise<void>;
-  onPlaceSellOrder?: (marketId: number, outcomeIndex: number, shares: string, price: number) => Promise<void>;
+  onPlaceBuyOrder?: (marketId: number, outcomeIndex: number, shares: string, price: number, expiresAt?: number) => Promise<void>;
+  onPlaceSellOrder?: (marketId: number, outcomeIndex: number, shares: string, price: number, expiresAt?: number) => Promise<void>;
   onCancelOrder?: (orderId: number) => Promise<void>;
   getPriceHistory?: (marketId: number) => Promise<PriceHistory>;
+  getMarketOrders?: (marketId: number, outcomeIndex: number) => Promise<LimitOrder[]>;
+  onPreviewTrade?: (request: TradeRequest) => Promise<TxPreview>;
   isConnected: boolean;
   loading: boolean;
   usdcBalance: string;
   userAddress?: string;
+  supportsOrderExpiry?: boolean;
 }
 
 type Filter = 'all' | 'open' | 'resolved' | 'my-positions' | 'multi-outcome';
@@ -30,17 +36,22 @@ export function MarketList({
   userOrders = [],
   isOwner = false,
   onBuy,
+  onBuyRouted,
   onSell,
   onClaim,
+  onRefund,
   onDelete,
   onPlaceBuyOrder,
   onPlaceSellOrder,
   onCancelOrder,
   getPriceHistory,
+  getMarketOrders,
+  onPreviewTrade,
   isConnected,
   loading,
   usdcBalance,
   userAddress = '',
+  supportsOrderExpiry = false,
 }: MarketListProps) {
   const [filter, setFilter] = useState<Filter>('all');
   const [sortBy, setSortBy] = useState<SortBy>('newest');
@@ -163,15 +174,21 @@ export function MarketList({
               userOrders={userOrders}
               isOwner={isOwner}
               onBuy={onBuy}
+              onBuyRouted={onBuyRouted}
               onSell={onSell}
               onClaim={onClaim}
+              onRefund={onRefund}
               onDelete={onDelete}
               onPlaceBuyOrder={onPlaceBuyOrder}
               onPlaceSellOrder={onPlaceSellOrder}
               onCancelOrder={onCancelOrder}
+              getPriceHistory={getPriceHistory}
+              getMarketOrders={getMarketOrders}
+              onPreviewTrade={onPreviewTrade}
               isConnected={isConnected}
               usdcBalance={usdcBalance}
               userAddress={userAddress}
+              supportsOrderExpiry={supportsOrderExpiry}
             />
           ))}
         </div>
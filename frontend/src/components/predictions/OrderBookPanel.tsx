@@ -0,0 +1,112 @@
+'use client';
+
+import { formatUnits } from 'viem';
+import { OrderBookDepthChart } from '@/components/charts';
+import type { OrderBook, OrderBookLevel } from '@/utils/orderBook';
+
+const MAX_LEVELS = 6;
+
+interface OrderBookPanelProps {
+  book: OrderBook;
+  loading: boolean;
+  ammPrice: number;             // AMM 当前价格（百分比 / 美分）
+  outcomeLabel: string;
+  onRefresh: () => void;
+  // 点击卖单档位 = 以该价买入，点击买单档位 = 以该价卖出
+  onSelectLevel?: (side: 'buy' | 'sell', priceCents: number) => void;
+}
+
+function LevelRow({ level, side, maxShares, onClick }: {
+  level: OrderBookLevel;
+  side: 'bid' | 'ask';
+  maxShares: bigint;
+  onClick?: () => void;
+}) {
+  const width = maxShares > 0n ? Number((level.cumulative * 100n) / maxShares) : 0;
+  return (
+    <button
+      onClick={onClick}
+      disabled={!onClick}
+      className="relative w-full grid grid-cols-3 px-2 py-1 text-xs hover:bg-gray-100 dark:hover:bg-gray-800 disabled:hover:bg-transparent transition"
+    >
+      <span
+        className={`absolute inset-y-0 right-0 ${side === 'bid' ? 'bg-green-500/10' : 'bg-red-500/10'}`}
+        style={{ width: `${width}%` }}
+      />
+      <span className={`relative text-left font-medium ${side === 'bid' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+        {(level.price / 100).toFixed(0)}¢
+      </span>
+      <span className="relative text-right">{Number(formatUnits(level.shares, 18)).toFixed(2)}</span>
+      <span className="relative text-right text-gray-500">{level.orders}</span>
+    </button>
+  );
+}
+
+export function OrderBookPanel({ book, loading, ammPrice, outcomeLabel, onRefresh, onSelectLevel }: OrderBookPanelProps) {
+  const asks = book.asks.slice(0, MAX_LEVELS);
+  const bids = book.bids.slice(0, MAX_LEVELS);
+  const maxShares = [...asks, ...bids].reduce((max, l) => (l.cumulative > max ? l.cumulative : max), 0n);
+  const isEmpty = asks.length === 0 && bids.length === 0;
+
+  return (
+    <div className="rounded-xl border border-gray-200 dark:border-gray-800 overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-2 bg-gray-50 dark:bg-gray-800/50 text-xs">
+        <span className="font-semibold text-gray-700 dark:text-gray-300">📖 {outcomeLabel} order book</span>
+        <div className="flex items-center gap-3 text-gray-500">
+          {book.spread !== null && <span>Spread {(book.spread / 100).toFixed(0)}¢</span>}
+          <button onClick={onRefresh} disabled={loading} className="hover:text-gray-900 dark:hover:text-white disabled:opacity-50 transition">
+            {loading ? '...' : '↻'}
+          </button>
+        </div>
+      </div>
+
+      {isEmpty ? (
+        <div className="p-4 text-center text-xs text-gray-500 dark:text-gray-400">
+          {loading ? 'Loading orders...' : `No open orders. AMM price is ${ammPrice.toFixed(1)}¢.`}
+        </div>
+      ) : (
+        <>
+          <div className="px-2 pt-2">
+            <OrderBookDepthChart book={book} ammPrice={ammPrice} height={120} />
+          </div>
+
+          <div className="grid grid-cols-3 px-2 pt-2 pb-1 text-[10px] uppercase tracking-wide text-gray-400">
+            <span>Price</span>
+            <span className="text-right">Shares</span>
+            <span className="text-right">Orders</span>
+          </div>
+
+          {/* 卖单：价格高的在上，最优卖价贴近中线 */}
+          {[...asks].reverse().map(level => (
+            <LevelRow
+              key={`ask-${level.price}`}
+              level={level}
+              side="ask"
+              maxShares={maxShares}
+              onClick={onSelectLevel && (() => onSelectLevel('buy', level.price / 100))}
+            />
+          ))}
+
+          <div className="flex items-center justify-between px-2 py-1 border-y border-dashed border-blue-300 dark:border-blue-700 text-xs text-blue-600 dark:text-blue-400">
+            <span>AMM {ammPrice.toFixed(1)}¢</span>
+            {book.bestBid !== null && book.bestAsk !== null && (
+              <span className="text-gray-500">
+                Bid {(book.bestBid / 100).toFixed(0)}¢ · Ask {(book.bestAsk / 100).toFixed(0)}¢
+              </span>
+            )}
+          </div>
+
+          {bids.map(level => (
+            <LevelRow
+              key={`bid-${level.price}`}
+              level={level}
+              side="bid"
+              maxShares={maxShares}
+              onClick={onSelectLevel && (() => onSelectLevel('sell', level.price / 100))}
+            />
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
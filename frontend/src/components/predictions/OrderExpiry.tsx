@@ -0,0 +1,63 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { ORDER_EXPIRY_OPTIONS } from '@/constants/config';
+import { formatTimeLeft } from '@/utils/orderExpiry';
+
+interface OrderExpiryPickerProps {
+  seconds: number;              // 0 = GTC
+  marketEndTime: number;        // 秒
+  onChange: (seconds: number) => void;
+}
+
+export function OrderExpiryPicker({ seconds, marketEndTime, onChange }: OrderExpiryPickerProps) {
+  const expiresAt = seconds > 0 ? Date.now() + seconds * 1000 : null;
+  // 市场结算时所有挂单都会被撤销，超过结束时间的有效期没有意义
+  const pastMarketEnd = expiresAt !== null && expiresAt > marketEndTime * 1000;
+
+  return (
+    <div>
+      <label className="block text-xs text-gray-500 mb-1">Expires</label>
+      <div className="flex gap-2">
+        {ORDER_EXPIRY_OPTIONS.map(option => (
+          <button
+            key={option.label}
+            type="button"
+            onClick={() => onChange(option.seconds)}
+            className={`flex-1 py-1.5 rounded-lg text-xs font-semibold transition ${
+              seconds === option.seconds
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+        {expiresAt === null
+          ? 'Stays open until you cancel it or the market resolves.'
+          : pastMarketEnd
+            ? 'Market ends before this expiry; the order is cancelled at resolution.'
+            : `Cancelled automatically at ${new Date(expiresAt).toLocaleString()}; your deposit is returned.`}
+      </p>
+    </div>
+  );
+}
+
+/// 挂单剩余有效期，每秒刷新
+export function OrderExpiryCountdown({ expiresAt }: { expiresAt: number }) {
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const left = expiresAt - now;
+  return (
+    <span className={`text-xs ${left <= 0 ? 'text-red-500' : left < 3600 ? 'text-amber-500' : 'text-gray-500 dark:text-gray-400'}`}>
+      {left <= 0 ? '⌛ Expired' : `⏱ ${formatTimeLeft(left)}`}
+    </span>
+  );
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import { formatUnits } from 'viem';
+import type { BuyRoute } from '@/utils/orderRouter';
+
+interface RouteSummaryProps {
+  route: BuyRoute;
+  outcomeLabel: string;
+}
+
+function formatUsdc(amount: bigint) {
+  return `$${Number(formatUnits(amount, 6)).toFixed(2)}`;
+}
+
+function formatShares(shares: bigint) {
+  return Number(formatUnits(shares, 18)).toFixed(2);
+}
+
+export function RouteSummary({ route, outcomeLabel }: RouteSummaryProps) {
+  return (
+    <div className="p-3 bg-blue-50 dark:bg-blue-500/10 rounded-xl border border-blue-200 dark:border-blue-500/30 text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-semibold text-blue-700 dark:text-blue-300">🔀 Best route · {outcomeLabel}</span>
+        {route.savings > 0n && (
+          <span className="text-xs font-medium text-green-600 dark:text-green-400">Saves ≈ {formatUsdc(route.savings)}</span>
+        )}
+      </div>
+
+      <div className="space-y-1 text-xs">
+        {route.bookLegs.map(leg => (
+          <div key={leg.orderId} className="flex justify-between text-gray-600 dark:text-gray-300">
+            <span>Order #{leg.orderId} @ {(leg.price / 100).toFixed(0)}¢</span>
+            <span>{formatShares(leg.shares)} shares · {formatUsdc(leg.cost)}</span>
+          </div>
+        ))}
+        {route.ammQuote && (
+          <div className="flex justify-between text-gray-600 dark:text-gray-300">
+            <span>AMM (incl. fee)</span>
+            <span>{formatShares(route.ammQuote.shares)} shares · {formatUsdc(route.ammUsdc)}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="mt-2 pt-2 border-t border-blue-200 dark:border-blue-500/30 space-y-1">
+        <div className="flex justify-between">
+          <span className="text-gray-500">Total</span>
+          <span className="font-medium">{formatShares(route.totalShares)} shares · {formatUsdc(route.usdcAmount)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-500">Avg. price</span>
+          <span className="font-medium">${route.avgPrice.toFixed(4)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-gray-500">AMM only</span>
+          <span className="text-gray-500">
+            {formatShares(route.ammOnlyShares)} shares
+            {route.extraShares > 0n && <span className="text-green-600 dark:text-green-400"> (+{formatShares(route.extraShares)})</span>}
+          </span>
+        </div>
+      </div>
+
+      <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+        {route.ammQuote
+          ? 'Fills resting orders first, then buys the rest from the AMM. You will sign two transactions.'
+          : 'Fills entirely from resting orders at their limit prices.'}
+      </p>
+    </div>
+  );
+}
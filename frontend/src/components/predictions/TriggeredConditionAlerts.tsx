@@ -0,0 +1,90 @@
+'use client';
+
+import { useState } from 'react';
+import { formatUnits } from 'viem';
+import type { Market } from '@/hooks/usePredictionMarket';
+import { useConditionalOrders } from '@/hooks/useConditionalOrders';
+import { quoteSell } from '@/utils/marketMath';
+import { CONDITION_LABELS, ConditionalOrder, describeCondition, sharesToSell } from '@/utils/conditionalOrders';
+
+interface TriggeredConditionAlertsProps {
+  markets: Market[];
+  onSell: (marketId: number, outcomeIndex: number, shares: bigint, expectedUsdc?: bigint) => Promise<void>;
+}
+
+function outcomeLabel(market: Market, index: number) {
+  return market.outcomeLabels[index] ?? `Option ${index + 1}`;
+}
+
+/// 已触发的止损 / 止盈，逐条提示用户签名卖出
+export function TriggeredConditionAlerts({ markets, onSell }: TriggeredConditionAlertsProps) {
+  const { triggered, dismiss, markExecuted, markFailed } = useConditionalOrders();
+  const [selling, setSelling] = useState<string | null>(null);
+
+  if (triggered.length === 0) return null;
+
+  const handleSell = async (order: ConditionalOrder, market: Market, shares: bigint, expectedUsdc?: bigint) => {
+    setSelling(order.id);
+    try {
+      await onSell(market.id, order.outcomeIndex, shares, expectedUsdc);
+      markExecuted(order.id, `Sold ${Number(formatUnits(shares, 18)).toFixed(2)} shares`);
+    } catch (error: any) {
+      markFailed(order.id, error?.message || 'Sell failed');
+    } finally {
+      setSelling(null);
+    }
+  };
+
+  return (
+    <div className="fixed bottom-6 left-6 z-50 w-80 max-w-[calc(100vw-3rem)] space-y-2">
+      {triggered.map(order => {
+        const market = markets.find(m => m.id === order.marketId);
+        if (!market) return null;
+        const position = market.userShares[order.outcomeIndex] ?? 0n;
+        const shares = sharesToSell(position, order.sellFractionBps);
+        const quote = shares > 0n ? quoteSell(market, order.outcomeIndex, shares) : null;
+
+        return (
+          <div key={order.id} className="bg-white dark:bg-[#12141c] rounded-xl border border-amber-300 dark:border-amber-500/40 shadow-lg p-4 text-sm">
+            <div className="flex items-center justify-between mb-1">
+              <span className="font-semibold text-amber-600 dark:text-amber-400">🚨 {CONDITION_LABELS[order.kind]} triggered</span>
+              <span className="text-xs text-gray-500">
+                {((order.triggerPriceBps ?? 0) / 100).toFixed(1)}%
+              </span>
+            </div>
+            <div className="text-gray-700 dark:text-gray-300 truncate">{market.question}</div>
+            <div className="text-xs text-gray-500 mt-1">{describeCondition(order, outcomeLabel(market, order.outcomeIndex))}</div>
+
+            {shares > 0n ? (
+              <div className="text-xs text-gray-600 dark:text-gray-400 mt-2">
+                Sell {Number(formatUnits(shares, 18)).toFixed(2)} shares for ≈ ${quote ? Number(formatUnits(quote.usdcOut, 6)).toFixed(2) : '0.00'}
+              </div>
+            ) : (
+              <div className="text-xs text-gray-500 mt-2">You no longer hold shares in this outcome.</div>
+            )}
+            {order.note && <div className="text-xs text-red-500 mt-1">{order.note}</div>}
+
+            <div className="flex gap-2 mt-3">
+              <button
+                onClick={() => dismiss(order.id, shares > 0n ? 'Dismissed' : 'No shares to sell')}
+                disabled={selling === order.id}
+                className="px-3 py-1.5 text-xs font-semibold rounded-lg bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50 transition"
+              >
+                Dismiss
+              </button>
+              {shares > 0n && (
+                <button
+                  onClick={() => handleSell(order, market, shares, quote?.usdcOut)}
+                  disabled={selling !== null || !quote || quote.insufficientLiquidity}
+                  className="flex-1 py-1.5 text-xs font-semibold rounded-lg bg-red-600 text-white hover:bg-red-700 disabled:opacity-50 transition"
+                >
+                  {selling === order.id ? 'Selling...' : 'Sign sell'}
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+// components/ui/ConfirmDialog.tsx
+'use client';
+
+import { ReactNode } from 'react';
+
+interface ConfirmDialogProps {
+  open: boolean;
+  title: string;
+  children?: ReactNode;
+  confirmLabel?: string;
+  danger?: boolean;
+  busy?: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export function ConfirmDialog({
+  open,
+  title,
+  children,
+  confirmLabel = 'Confirm',
+  danger = false,
+  busy = false,
+  onConfirm,
+  onCancel,
+}: ConfirmDialogProps) {
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={busy ? undefined : onCancel}>
+      <div
+        className="bg-white dark:bg-[#12141c] rounded-2xl w-full max-w-md border border-gray-200 dark:border-gray-800 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-6 border-b border-gray-200 dark:border-gray-800">
+          <h2 className="text-lg font-bold text-gray-900 dark:text-white">{title}</h2>
+        </div>
+        {children && <div className="p-6 text-sm text-gray-600 dark:text-gray-300 space-y-2">{children}</div>}
+        <div className="p-4 border-t border-gray-200 dark:border-gray-800 flex gap-3">
+          <button
+            onClick={onCancel}
+            disabled={busy}
+            className="flex-1 py-2.5 bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 font-semibold rounded-xl hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-50 transition"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={busy}
+            className={`flex-1 py-2.5 text-white font-semibold rounded-xl disabled:opacity-50 transition ${
+              danger ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+            }`}
+          >
+            {busy ? 'Confirming...' : confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+// components/ui/DevModeBanner.tsx
+'use client';
+
+import { useSwitchChain } from 'wagmi';
+import { LOCAL_CHAIN_ID } from '@/constants/deployments';
+import type { LocalNodeStatus } from '@/lib/localDev';
+
+interface DevModeBannerProps {
+  status: LocalNodeStatus;
+  isLocalChain: boolean;
+  isConnected: boolean;
+  funding: boolean;
+  onFund: () => void;
+}
+
+export function DevModeBanner({ status, isLocalChain, isConnected, funding, onFund }: DevModeBannerProps) {
+  const { switchChain, isPending } = useSwitchChain();
+
+  if (status === 'offline') return null;
+
+  return (
+    <div className="mb-6 flex flex-wrap items-center justify-between gap-3 px-4 py-3 rounded-xl border border-amber-300 dark:border-amber-500/30 bg-amber-50 dark:bg-amber-500/10 text-sm">
+      <div className="text-amber-800 dark:text-amber-300">
+        🧪 <span className="font-semibold">Local Hardhat node detected</span>
+        {status === 'not-deployed' && (
+          <span className="ml-1">
+            — contracts not deployed. Run <code className="font-mono">npm run deploy:local &amp;&amp; npm run seed:local</code> in <code className="font-mono">contracts/</code>, then reload.
+          </span>
+        )}
+        {status === 'ready' && isLocalChain && (
+          <span className="ml-1">— test ETH and USDC are minted to your wallet automatically.</span>
+        )}
+      </div>
+
+      {status === 'ready' && isConnected && (
+        isLocalChain ? (
+          <button
+            onClick={onFund}
+            disabled={funding}
+            className="px-3 py-1.5 rounded-lg bg-amber-500 hover:bg-amber-600 disabled:opacity-50 text-white font-semibold transition"
+          >
+            {funding ? 'Funding...' : '+10k USDC'}
+          </button>
+        ) : (
+          <button
+            onClick={() => switchChain({ chainId: LOCAL_CHAIN_ID })}
+            disabled={isPending}
+            className="px-3 py-1.5 rounded-lg bg-amber-500 hover:bg-amber-600 disabled:opacity-50 text-white font-semibold transition"
+          >
+            {isPending ? 'Switching...' : 'Switch to Hardhat'}
+          </button>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+// components/ui/SlippageSettings.tsx
+'use client';
+
+import { useState } from 'react';
+import { useSlippageTolerance } from '@/hooks/useSlippageTolerance';
+import { MAX_SLIPPAGE_BPS, SLIPPAGE_PRESETS, formatBps } from '@/utils/slippage';
+
+export function SlippageSettings() {
+  const { toleranceBps, setTolerance } = useSlippageTolerance();
+  const [open, setOpen] = useState(false);
+  const [custom, setCustom] = useState('');
+
+  const applyCustom = (value: string) => {
+    setCustom(value);
+    const percent = parseFloat(value);
+    if (percent > 0 && percent * 100 <= MAX_SLIPPAGE_BPS) setTolerance(percent * 100);
+  };
+
+  return (
+    <div className="text-xs">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="flex items-center gap-1 text-gray-500 hover:text-gray-900 dark:hover:text-white transition"
+      >
+        ⚙️ Max slippage: <span className="font-semibold">{formatBps(toleranceBps)}</span>
+        <span className="text-gray-400">{open ? '▴' : '▾'}</span>
+      </button>
+
+      {open && (
+        <div className="mt-2 flex flex-wrap items-center gap-1.5">
+          {SLIPPAGE_PRESETS.map(bps => (
+            <button
+              key={bps}
+              onClick={() => { setTolerance(bps); setCustom(''); }}
+              className={`px-2.5 py-1 rounded-lg font-medium transition ${
+                toleranceBps === bps && !custom
+                  ? 'bg-blue-500 text-white'
+                  : 'bg-gray-100 dark:bg-white/10 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-white/20'
+              }`}
+            >
+              {formatBps(bps)}
+            </button>
+          ))}
+          <div className="flex items-center gap-1 px-2 py-1 rounded-lg bg-gray-100 dark:bg-white/10">
+            <input
+              type="number"
+              min="0.01"
+              max={MAX_SLIPPAGE_BPS / 100}
+              step="0.1"
+              value={custom}
+              onChange={(e) => applyCustom(e.target.value)}
+              placeholder="Custom"
+              className="w-14 bg-transparent outline-none text-right"
+            />
+            <span className="text-gray-500">%</span>
+          </div>
+        </div>
+      )}
+
+      {toleranceBps > 500 && (
+        <div className="mt-1 text-amber-600 dark:text-amber-400">⚠️ High slippage: your trade may execute at a much worse price.</div>
+      )}
+    </div>
+  );
+}
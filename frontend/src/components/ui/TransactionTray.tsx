@@ -0,0 +1,115 @@
+// components/ui/TransactionTray.tsx
+'use client';
+
+import { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { getExplorerTxUrl } from '@/constants/deployments';
+import { useTransactions } from '@/hooks/useTransactions';
+import type { TxStatus } from '@/lib/transactions';
+
+const VISIBLE_COUNT = 5;
+
+const STATUS_STYLES: Record<TxStatus, { icon: string; text: string; className: string }> = {
+  pending: { icon: '⏳', text: 'Pending', className: 'text-amber-600 dark:text-amber-400' },
+  confirmed: { icon: '✅', text: 'Confirmed', className: 'text-green-600 dark:text-green-400' },
+  failed: { icon: '❌', text: 'Failed', className: 'text-red-600 dark:text-red-400' },
+};
+
+function timeAgo(timestamp: number) {
+  const seconds = Math.floor((Date.now() - timestamp) / 1000);
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)}h ago`;
+  return `${Math.floor(seconds / 86400)}d ago`;
+}
+
+export function TransactionTray() {
+  const { transactions, pendingCount, dismiss, clearSettled } = useTransactions();
+  const [collapsed, setCollapsed] = useState(false);
+
+  if (transactions.length === 0) return null;
+
+  const visible = transactions.slice(0, VISIBLE_COUNT);
+  const hasSettled = transactions.some(tx => tx.status !== 'pending');
+
+  return (
+    <div className="fixed bottom-6 right-6 z-50 w-80 max-w-[calc(100vw-3rem)]">
+      <div className="rounded-2xl border border-gray-200 dark:border-white/10 bg-white/95 dark:bg-[#14151b]/95 backdrop-blur-xl shadow-2xl overflow-hidden">
+        {/* 标题栏 */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100 dark:border-white/5">
+          <button
+            onClick={() => setCollapsed(prev => !prev)}
+            className="flex items-center gap-2 text-sm font-semibold"
+          >
+            <span>Transactions</span>
+            {pendingCount > 0 && (
+              <span className="px-2 py-0.5 rounded-full bg-amber-100 dark:bg-amber-500/20 text-amber-700 dark:text-amber-300 text-xs">
+                {pendingCount} pending
+              </span>
+            )}
+            <span className="text-gray-400">{collapsed ? '▴' : '▾'}</span>
+          </button>
+          {hasSettled && !collapsed && (
+            <button onClick={clearSettled} className="text-xs text-gray-500 hover:text-gray-900 dark:hover:text-white transition">
+              Clear
+            </button>
+          )}
+        </div>
+
+        {/* 交易列表 */}
+        {!collapsed && (
+          <ul className="max-h-80 overflow-y-auto divide-y divide-gray-100 dark:divide-white/5">
+            <AnimatePresence initial={false}>
+              {visible.map(tx => {
+                const style = STATUS_STYLES[tx.status];
+                const url = tx.hash ? getExplorerTxUrl(tx.chainId, tx.hash) : null;
+                return (
+                  <motion.li
+                    key={tx.id}
+                    initial={{ opacity: 0, y: 10 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    exit={{ opacity: 0, height: 0 }}
+                    className="px-4 py-3 text-sm"
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <div className="font-medium truncate" title={tx.label}>{tx.label}</div>
+                        <div className={`text-xs mt-0.5 ${style.className}`}>
+                          <span className={tx.status === 'pending' ? 'inline-block animate-pulse' : ''}>{style.icon}</span>{' '}
+                          {style.text} · {timeAgo(tx.settledAt ?? tx.submittedAt)}
+                        </div>
+                        {tx.error && (
+                          <div className="text-xs text-red-500 mt-0.5 break-words">{tx.error}</div>
+                        )}
+                        {tx.warning && (
+                          <div className="text-xs text-amber-600 dark:text-amber-400 mt-0.5 break-words">⚠️ {tx.warning}</div>
+                        )}
+                        {tx.hint && (
+                          <div className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">💡 {tx.hint}</div>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        {url && (
+                          <a href={url} target="_blank" rel="noopener noreferrer" className="text-xs text-blue-500 hover:underline">
+                            View
+                          </a>
+                        )}
+                        <button
+                          onClick={() => dismiss(tx.id)}
+                          className="text-gray-400 hover:text-gray-900 dark:hover:text-white transition"
+                          aria-label="Dismiss"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    </div>
+                  </motion.li>
+                );
+              })}
+            </AnimatePresence>
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
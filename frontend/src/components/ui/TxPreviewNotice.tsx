@@ -0,0 +1,51 @@
+// components/ui/TxPreviewNotice.tsx
+'use client';
+
+import { formatEther } from 'viem';
+import type { TxPreview } from '@/lib/transactions';
+
+interface TxPreviewNoticeProps {
+  preview: TxPreview;
+  loading: boolean;
+}
+
+const formatGas = (gasCost: bigint) => `${Number(formatEther(gasCost)).toFixed(6)} ETH`;
+
+export function TxPreviewNotice({ preview, loading }: TxPreviewNoticeProps) {
+  if (loading) {
+    return <div className="text-xs text-gray-400">⛽ Simulating transaction...</div>;
+  }
+
+  // 多笔交易时标出是哪一笔会失败，并列出每一笔
+  const steps = preview.steps && preview.steps.length > 1 ? preview.steps : null;
+  const failedStep = steps?.find(step => step.error);
+
+  if (preview.error) {
+    return (
+      <div className="px-3 py-2 rounded-lg bg-red-50 dark:bg-red-500/10 border border-red-200 dark:border-red-500/30 text-xs text-red-600 dark:text-red-400">
+        <div>⚠️ {failedStep ? `${failedStep.label}: ` : ''}{preview.error.message}</div>
+        {preview.error.hint && <div className="mt-0.5 text-red-500/80">{preview.error.hint}</div>}
+      </div>
+    );
+  }
+
+  if (preview.needsApproval) {
+    return <div className="text-xs text-gray-500">🔓 USDC approval will be requested first</div>;
+  }
+
+  if (preview.gasCost !== undefined) {
+    return (
+      <div className="text-xs text-gray-500">
+        ⛽ Est. gas: <span className="font-semibold">{formatGas(preview.gasCost)}</span>
+        {steps && <span> · {steps.length} transactions</span>}
+        {steps?.map(step => (
+          <div key={step.label} className="pl-4">
+            {step.label}: {step.gasCost !== undefined ? formatGas(step.gasCost) : '—'}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,36 @@
+// components/ui/UnsupportedNetwork.tsx
+'use client';
+
+import { useSwitchChain } from 'wagmi';
+import { DEPLOYMENTS } from '@/constants/deployments';
+
+interface UnsupportedNetworkProps {
+  chainId: number;
+}
+
+export function UnsupportedNetwork({ chainId }: UnsupportedNetworkProps) {
+  const { switchChain, isPending } = useSwitchChain();
+  const deployments = Object.values(DEPLOYMENTS);
+
+  return (
+    <div className="max-w-md mx-auto mt-16 text-center bg-white dark:bg-[#12141c] rounded-2xl border border-gray-200 dark:border-gray-800 p-8">
+      <div className="text-5xl mb-4">🔌</div>
+      <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-2">Unsupported network</h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+        Attention.Fi has no contracts deployed on chain {chainId}. Switch to one of the supported networks:
+      </p>
+      <div className="flex flex-col gap-2">
+        {deployments.map(d => (
+          <button
+            key={d.chainId}
+            onClick={() => switchChain({ chainId: d.chainId })}
+            disabled={isPending}
+            className="w-full py-2.5 rounded-xl bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-semibold text-sm transition"
+          >
+            {isPending ? 'Switching...' : `Switch to ${d.chain.name}`}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,4 @@
-// Auto-generated by deployV4.js - 2026-01-29T01:22:32.597Z
-// Network: sepolia (Chain ID: 11155111)
-
-export const PREDICTION_MARKET_ADDRESS = "0x740FCfe55805fCF291ab873D3d8aC5407e71B4C5";
-export const CREATOR_MARKET_ADDRESS = "0xbE245b43C802e9f6B70DB94Efa84c19d7207D724";
-export const USDC_ADDRESS = "0x118926B20Df05B694DE5074874fC141d2b3E11ee";
-export const CHAIN_ID = 11155111;
-export const CHAIN_NAME = "sepolia";
+// 全局常量（合约地址按网络记录在 deployments.json，见 constants/deployments.ts）
 
 // USDC decimals
 export const USDC_DECIMALS = 6;
@@ -33,5 +26,18 @@ export const DEFAULT_CURVE_B = 1000000;      // 1 USDC 基础价格
 export const DEFAULT_INFLECTION = 100;       // Sigmoid 拐点
 export const DEFAULT_LMSR_B = "100000000000000000000"; // 100 * 10^18
 
-// RPC URL (for reference)
-export const RPC_URL = "https://eth-sepolia.g.alchemy.com/v2/BVg93ArKlmUQFHzHqureN";
+
+// 默认滑点容忍度（基点）
+export const DEFAULT_SLIPPAGE_BPS = 100;     // 1%
+
+// 授权策略为 capped 时默认的授权上限（USDC）
+export const DEFAULT_APPROVAL_CAP_USDC = 1000;
+
+// 限价单有效期选项（秒；0 = 一直有效，直到撤单或市场结算）
+export const ORDER_EXPIRY_OPTIONS = [
+  { label: 'GTC', seconds: 0 },
+  { label: '1h', seconds: 60 * 60 },
+  { label: '6h', seconds: 6 * 60 * 60 },
+  { label: '1d', seconds: 24 * 60 * 60 },
+  { label: '7d', seconds: 7 * 24 * 60 * 60 },
+] as const;
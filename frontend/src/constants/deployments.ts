@@ -0,0 +1,87 @@
+// 部署注册表：按 chainId 记录各网络的合约地址
+// deployments.json 由 contracts/scripts/deployV4.js 部署后写入（与 deployed-addresses.json 同结构）
+import type { Chain } from 'viem';
+import { arbitrumSepolia, baseSepolia, hardhat, sepolia } from 'viem/chains';
+import records from './deployments.json';
+
+interface DeploymentRecord {
+  MockUSDC: string;
+  PredictionMarketV4: string;
+  CreatorMarketV3: string;
+  deployBlocks?: { PredictionMarketV4?: number; CreatorMarketV3?: number };
+  network: string;
+  chainId: number;
+}
+
+export interface Deployment {
+  chainId: number;
+  network: string;
+  chain: Chain;
+  rpcUrl: string;
+  predictionMarket: `0x${string}`;
+  creatorMarket: `0x${string}`;
+  usdc: `0x${string}`;
+  // 部署区块（事件索引从这里开始回溯；0 表示未知，由索引器自行定位）
+  predictionMarketDeployBlock: bigint;
+  creatorMarketDeployBlock: bigint;
+}
+
+// ============ 已知网络（前端可连接的链 + 公共 RPC） ============
+export const LOCAL_CHAIN_ID = hardhat.id;
+
+// 本地 Hardhat 节点只在开发环境（或显式开启时）出现在网络列表里
+export const LOCAL_DEV_ENABLED =
+  process.env.NODE_ENV === 'development' || process.env.NEXT_PUBLIC_ENABLE_LOCAL_CHAIN === 'true';
+
+export const KNOWN_CHAINS: Record<number, { chain: Chain; rpcUrl: string }> = {
+  [sepolia.id]: { chain: sepolia, rpcUrl: 'https://ethereum-sepolia-rpc.publicnode.com' },
+  [baseSepolia.id]: { chain: baseSepolia, rpcUrl: 'https://sepolia.base.org' },
+  [arbitrumSepolia.id]: { chain: arbitrumSepolia, rpcUrl: 'https://sepolia-rollup.arbitrum.io/rpc' },
+  [hardhat.id]: { chain: hardhat, rpcUrl: process.env.NEXT_PUBLIC_LOCAL_RPC_URL || 'http://127.0.0.1:8545' },
+};
+
+function toDeployment(record: DeploymentRecord): Deployment | null {
+  if (record.chainId === LOCAL_CHAIN_ID && !LOCAL_DEV_ENABLED) return null;
+  const known = KNOWN_CHAINS[record.chainId];
+  if (!known) {
+    console.warn(`⚠️ Deployment for unknown chain ${record.chainId} (${record.network}) ignored`);
+    return null;
+  }
+  return {
+    chainId: record.chainId,
+    network: record.network,
+    chain: known.chain,
+    rpcUrl: known.rpcUrl,
+    predictionMarket: record.PredictionMarketV4 as `0x${string}`,
+    creatorMarket: record.CreatorMarketV3 as `0x${string}`,
+    usdc: record.MockUSDC as `0x${string}`,
+    predictionMarketDeployBlock: BigInt(record.deployBlocks?.PredictionMarketV4 ?? 0),
+    creatorMarketDeployBlock: BigInt(record.deployBlocks?.CreatorMarketV3 ?? 0),
+  };
+}
+
+export const DEPLOYMENTS: Record<number, Deployment> = Object.fromEntries(
+  Object.values(records as Record<string, DeploymentRecord>)
+    .map(toDeployment)
+    .filter((d): d is Deployment => d !== null)
+    .map(d => [d.chainId, d])
+);
+
+export const SUPPORTED_CHAINS: Chain[] = Object.values(DEPLOYMENTS).map(d => d.chain);
+
+// 未连接钱包时读取的默认网络
+export const DEFAULT_CHAIN_ID: number = (() => {
+  const fromEnv = Number(process.env.NEXT_PUBLIC_DEFAULT_CHAIN_ID);
+  if (DEPLOYMENTS[fromEnv]) return fromEnv;
+  return DEPLOYMENTS[sepolia.id] ? sepolia.id : SUPPORTED_CHAINS[0]?.id ?? sepolia.id;
+})();
+
+export function getDeployment(chainId?: number): Deployment | undefined {
+  return chainId !== undefined ? DEPLOYMENTS[chainId] : undefined;
+}
+
+/// 区块浏览器交易链接（本地链没有浏览器时返回 null）
+export function getExplorerTxUrl(chainId: number | undefined, txHash: string): string | null {
+  const explorer = chainId !== undefined ? KNOWN_CHAINS[chainId]?.chain.blockExplorers?.default.url : undefined;
+  return explorer ? `${explorer}/tx/${txHash}` : null;
+}
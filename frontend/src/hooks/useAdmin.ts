@@ -0,0 +1,189 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAccount, usePublicClient, useWalletClient } from 'wagmi';
+import { multicallChunked } from '@/lib/multicall';
+import { useDeployment } from '@/hooks/useDeployment';
+import { useTransactions } from '@/hooks/useTransactions';
+
+// ============ ABI（只包含 owner 操作和手续费相关的读取） ============
+const PREDICTION_ADMIN_ABI = [
+  { name: 'owner', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ type: 'address' }] },
+  { name: 'platformFee', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ type: 'uint256' }] },
+  { name: 'accumulatedFees', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ type: 'uint256' }] },
+  { name: 'setPlatformFee', type: 'function', stateMutability: 'nonpayable', inputs: [{ name: '_fee', type: 'uint256' }], outputs: [] },
+  { name: 'withdrawFees', type: 'function', stateMutability: 'nonpayable', inputs: [], outputs: [] },
+] as const;
+
+const CREATOR_ADMIN_ABI = [
+  { name: 'owner', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ type: 'address' }] },
+  { name: 'getCreatorCount', type: 'function', stateMutability: 'view', inputs: [], outputs: [{ type: 'uint256' }] },
+  { name: 'getCreatorByIndex', type: 'function', stateMutability: 'view', inputs: [{ name: 'index', type: 'uint256' }], outputs: [{ type: 'string' }] },
+  { name: 'getCreatorInfo', type: 'function', stateMutability: 'view', inputs: [{ name: 'handle', type: 'string' }], outputs: [{ name: 'exists', type: 'bool' }, { name: 'totalSupply', type: 'uint256' }, { name: 'poolBalance', type: 'uint256' }, { name: 'currentPrice', type: 'uint256' }, { name: 'curveType', type: 'uint8' }, { name: 'curveA', type: 'uint256' }, { name: 'curveB', type: 'uint256' }, { name: 'inflectionPoint', type: 'uint256' }] },
+  { name: 'updateCurveConfig', type: 'function', stateMutability: 'nonpayable', inputs: [{ name: 'handle', type: 'string' }, { name: 'curveType', type: 'uint8' }, { name: 'A', type: 'uint256' }, { name: 'B', type: 'uint256' }, { name: 'inflectionPoint', type: 'uint256' }], outputs: [] },
+  { name: 'withdrawFees', type: 'function', stateMutability: 'nonpayable', inputs: [], outputs: [] },
+] as const;
+
+const USDC_ABI = [
+  { name: 'balanceOf', type: 'function', stateMutability: 'view', inputs: [{ name: 'account', type: 'address' }], outputs: [{ type: 'uint256' }] },
+] as const;
+
+// ============ 类型 ============
+export interface AdminState {
+  isPredictionOwner: boolean;
+  isCreatorOwner: boolean;
+  platformFeeBps: number;
+  predictionFees: bigint;       // accumulatedFees
+  creatorFees: bigint;          // 合约余额 - 所有创作者池子（与合约 withdrawFees 的算法一致）
+}
+
+// 曲线参数传 0 表示保持原值（合约里的约定）
+export interface CurveConfigUpdate {
+  curveType: number;
+  A: bigint;
+  B: bigint;
+  inflectionPoint: bigint;
+}
+
+const EMPTY_STATE: AdminState = {
+  isPredictionOwner: false,
+  isCreatorOwner: false,
+  platformFeeBps: 0,
+  predictionFees: 0n,
+  creatorFees: 0n,
+};
+
+export const MAX_PLATFORM_FEE_BPS = 500;   // 合约 setPlatformFee 上限
+
+// ============ Hook ============
+export function useAdmin() {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
+  const { deployment } = useDeployment();
+  const { track, run } = useTransactions();
+
+  const [state, setState] = useState<AdminState>(EMPTY_STATE);
+  const [loading, setLoading] = useState(true);
+
+  const fetchAdminState = useCallback(async () => {
+    if (!publicClient || !address || !deployment) {
+      setState(EMPTY_STATE);
+      setLoading(false);
+      return;
+    }
+    try {
+      const prediction = { address: deployment.predictionMarket, abi: PREDICTION_ADMIN_ABI } as const;
+      const creator = { address: deployment.creatorMarket, abi: CREATOR_ADMIN_ABI } as const;
+
+      const [predictionOwner, creatorOwner, platformFee, predictionFees, creatorBalance, creatorCount] = await Promise.all([
+        publicClient.readContract({ ...prediction, functionName: 'owner' }),
+        publicClient.readContract({ ...creator, functionName: 'owner' }),
+        publicClient.readContract({ ...prediction, functionName: 'platformFee' }),
+        publicClient.readContract({ ...prediction, functionName: 'accumulatedFees' }),
+        publicClient.readContract({ address: deployment.usdc, abi: USDC_ABI, functionName: 'balanceOf', args: [deployment.creatorMarket] }),
+        publicClient.readContract({ ...creator, functionName: 'getCreatorCount' }),
+      ]);
+
+      const handleResults = await multicallChunked(publicClient, Array.from({ length: Number(creatorCount) }, (_, i) => ({
+        ...creator, functionName: 'getCreatorByIndex', args: [BigInt(i)],
+      })));
+      const handles = handleResults.filter(r => r.status === 'success').map(r => r.result as string);
+      const infoResults = await multicallChunked(publicClient, handles.map(handle => ({
+        ...creator, functionName: 'getCreatorInfo', args: [handle],
+      })));
+      const totalPools = infoResults.reduce(
+        (sum, r) => sum + (r.status === 'success' ? (r.result as readonly unknown[])[2] as bigint : 0n),
+        0n
+      );
+
+      setState({
+        isPredictionOwner: predictionOwner.toLowerCase() === address.toLowerCase(),
+        isCreatorOwner: creatorOwner.toLowerCase() === address.toLowerCase(),
+        platformFeeBps: Number(platformFee),
+        predictionFees,
+        creatorFees: creatorBalance > totalPools ? creatorBalance - totalPools : 0n,
+      });
+    } catch (error) {
+      console.error('Failed to load admin state:', error);
+      setState(EMPTY_STATE);
+    } finally {
+      setLoading(false);
+    }
+  }, [publicClient, address, deployment]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchAdminState();
+  }, [fetchAdminState]);
+
+  const setPlatformFee = useCallback(async (feeBps: number) => {
+    const label = `Set platform fee to ${feeBps / 100}%`;
+    return run(label, async () => {
+      if (!walletClient || !publicClient) throw new Error('Not connected');
+      if (!deployment) throw new Error('Unsupported network');
+      const { request } = await publicClient.simulateContract({
+        account: walletClient.account,
+        address: deployment.predictionMarket,
+        abi: PREDICTION_ADMIN_ABI,
+        functionName: 'setPlatformFee',
+        args: [BigInt(feeBps)],
+      });
+      const hash = await walletClient.writeContract(request);
+      await track(hash, label);
+      await fetchAdminState();
+    });
+  }, [walletClient, publicClient, deployment, fetchAdminState, track, run]);
+
+  /// 手续费转给 owner
+  const withdrawFees = useCallback(async (market: 'prediction' | 'creator') => {
+    const label = `Withdraw ${market === 'prediction' ? 'prediction' : 'creator'} market fees`;
+    return run(label, async () => {
+      if (!walletClient || !publicClient) throw new Error('Not connected');
+      if (!deployment) throw new Error('Unsupported network');
+      const { request } = market === 'prediction'
+        ? await publicClient.simulateContract({
+            account: walletClient.account,
+            address: deployment.predictionMarket,
+            abi: PREDICTION_ADMIN_ABI,
+            functionName: 'withdrawFees',
+          })
+        : await publicClient.simulateContract({
+            account: walletClient.account,
+            address: deployment.creatorMarket,
+            abi: CREATOR_ADMIN_ABI,
+            functionName: 'withdrawFees',
+          });
+      const hash = await walletClient.writeContract(request);
+      await track(hash, label);
+      await fetchAdminState();
+    });
+  }, [walletClient, publicClient, deployment, fetchAdminState, track, run]);
+
+  const updateCurveConfig = useCallback(async (handle: string, config: CurveConfigUpdate) => {
+    const label = `Update curve · @${handle}`;
+    return run(label, async () => {
+      if (!walletClient || !publicClient) throw new Error('Not connected');
+      if (!deployment) throw new Error('Unsupported network');
+      const { request } = await publicClient.simulateContract({
+        account: walletClient.account,
+        address: deployment.creatorMarket,
+        abi: CREATOR_ADMIN_ABI,
+        functionName: 'updateCurveConfig',
+        args: [handle, config.curveType, config.A, config.B, config.inflectionPoint],
+      });
+      const hash = await walletClient.writeContract(request);
+      await track(hash, label);
+    });
+  }, [walletClient, publicClient, deployment, track, run]);
+
+  return {
+    ...state,
+    isOwner: state.isPredictionOwner || state.isCreatorOwner,
+    loading,
+    refresh: fetchAdminState,
+    setPlatformFee,
+    withdrawFees,
+    updateCurveConfig,
+  };
+}
@@ -0,0 +1,100 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAccount, usePublicClient, useWalletClient } from 'wagmi';
+import { multicallChunked } from '@/lib/multicall';
+import { useDeployment } from '@/hooks/useDeployment';
+import { useTransactions } from '@/hooks/useTransactions';
+
+const USDC_ABI = [
+  { name: 'allowance', type: 'function', stateMutability: 'view', inputs: [{ name: 'owner', type: 'address' }, { name: 'spender', type: 'address' }], outputs: [{ type: 'uint256' }] },
+  { name: 'approve', type: 'function', stateMutability: 'nonpayable', inputs: [{ name: 'spender', type: 'address' }, { name: 'amount', type: 'uint256' }], outputs: [{ type: 'bool' }] },
+] as const;
+
+// ============ 类型 ============
+export interface SpenderAllowance {
+  name: string;
+  spender: `0x${string}`;
+  amount: bigint | null;      // null 表示读取失败
+}
+
+// ============ Hook ============
+export function useAllowances() {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+  const { data: walletClient } = useWalletClient();
+  const { deployment } = useDeployment();
+  const { track, run, pendingCount } = useTransactions();
+
+  const [allowances, setAllowances] = useState<SpenderAllowance[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [revoking, setRevoking] = useState(false);
+
+  const fetchAllowances = useCallback(async () => {
+    if (!publicClient || !address || !deployment) {
+      setAllowances([]);
+      return;
+    }
+    const spenders = [
+      { name: 'Prediction Market', spender: deployment.predictionMarket },
+      { name: 'Creator Market', spender: deployment.creatorMarket },
+    ];
+
+    setLoading(true);
+    try {
+      const results = await multicallChunked(publicClient, spenders.map(({ spender }) => ({
+        address: deployment.usdc,
+        abi: USDC_ABI,
+        functionName: 'allowance',
+        args: [address, spender],
+      })));
+      setAllowances(spenders.map((s, i) => ({
+        ...s,
+        amount: results[i].status === 'success' ? results[i].result as bigint : null,
+      })));
+    } finally {
+      setLoading(false);
+    }
+  }, [publicClient, address, deployment]);
+
+  // 账户 / 网络切换，或有交易结束（可能是 approve）时重新读取
+  useEffect(() => {
+    if (pendingCount === 0) fetchAllowances();
+  }, [fetchAllowances, pendingCount]);
+
+  /// 把授权清零；spenders 不传时撤销所有仍有授权的合约
+  const revoke = useCallback(async (spenders?: `0x${string}`[]) => {
+    const targets = allowances.filter(a => a.amount !== 0n && (!spenders || spenders.includes(a.spender)));
+    if (targets.length === 0) return;
+
+    setRevoking(true);
+    try {
+      for (const target of targets) {
+        const label = `Revoke USDC allowance · ${target.name}`;
+        await run(label, async () => {
+          if (!walletClient || !publicClient || !deployment) throw new Error('Not connected');
+          const { request } = await publicClient.simulateContract({
+            account: walletClient.account,
+            address: deployment.usdc,
+            abi: USDC_ABI,
+            functionName: 'approve',
+            args: [target.spender, 0n],
+          });
+          const hash = await walletClient.writeContract(request);
+          await track(hash, label);
+        });
+      }
+    } finally {
+      setRevoking(false);
+      await fetchAllowances();
+    }
+  }, [allowances, walletClient, publicClient, deployment, run, track, fetchAllowances]);
+
+  return {
+    allowances,
+    loading,
+    revoking,
+    refresh: fetchAllowances,
+    revoke,
+  };
+}
@@ -0,0 +1,43 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ApprovalPolicy, DEFAULT_APPROVAL_POLICY } from '@/utils/approvals';
+
+const POLICY_KEY = 'attention_fi_approval_policy';
+
+// ============ 模块级状态（两个市场 hook 和设置面板共用） ============
+let policy: ApprovalPolicy | null = null;
+const listeners = new Set<(policy: ApprovalPolicy) => void>();
+
+function loadPolicy(): ApprovalPolicy {
+  if (policy) return policy;
+  if (typeof window === 'undefined') return DEFAULT_APPROVAL_POLICY;
+  try {
+    const stored = JSON.parse(localStorage.getItem(POLICY_KEY) || 'null');
+    policy = stored && ['exact', 'capped', 'unlimited'].includes(stored.mode) && stored.capUsdc > 0
+      ? stored
+      : DEFAULT_APPROVAL_POLICY;
+  } catch {
+    policy = DEFAULT_APPROVAL_POLICY;
+  }
+  return policy!;
+}
+
+// ============ Hook ============
+export function useApprovalPolicy() {
+  const [state, setState] = useState<ApprovalPolicy>(DEFAULT_APPROVAL_POLICY);
+
+  useEffect(() => {
+    listeners.add(setState);
+    setState(loadPolicy());
+    return () => { listeners.delete(setState); };
+  }, []);
+
+  const setPolicy = useCallback((patch: Partial<ApprovalPolicy>) => {
+    policy = { ...loadPolicy(), ...patch };
+    localStorage.setItem(POLICY_KEY, JSON.stringify(policy));
+    listeners.forEach(listener => listener(policy!));
+  }, []);
+
+  return { policy: state, setPolicy };
+}
@@ -0,0 +1,169 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useAccount } from 'wagmi';
+import type { Market } from '@/hooks/usePredictionMarket';
+import { useDeployment } from '@/hooks/useDeployment';
+import { claimableAmount } from '@/utils/marketMath';
+
+const QUEUE_PREFIX = 'attention_fi_claim_queue_';
+
+// ============ 类型 ============
+export type ClaimKind = 'winnings' | 'refund';
+
+export interface Claimable {
+  market: Market;
+  kind: ClaimKind;
+  amount: bigint;           // 按合约公式估算的到账金额
+}
+
+export interface ClaimQueueEntry {
+  marketId: number;
+  kind: ClaimKind;
+  status: 'queued' | 'claiming' | 'done' | 'skipped' | 'failed';
+  error?: string;
+}
+
+// 排队中的批量领取按账户 + 链持久化：中途拒签、失败或刷新页面后可以从剩下的继续
+interface ClaimQueueState {
+  entries: ClaimQueueEntry[];
+  running: boolean;
+}
+
+const EMPTY_QUEUE: ClaimQueueState = { entries: [], running: false };
+
+function storageKey(account: string, chainId: number) {
+  return `${QUEUE_PREFIX}${chainId}_${account.toLowerCase()}`;
+}
+
+function loadQueue(account: string, chainId: number): ClaimQueueEntry[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const entries: ClaimQueueEntry[] = JSON.parse(localStorage.getItem(storageKey(account, chainId)) || '[]');
+    // 刷新时正在领取的那一笔结果未知，回到排队状态，继续时按链上 hasClaimed 判断是否跳过
+    return entries.map(e => (e.status === 'claiming' ? { ...e, status: 'queued' } : e));
+  } catch {
+    return [];
+  }
+}
+
+function saveQueue(account: string, chainId: number, entries: ClaimQueueEntry[]) {
+  if (typeof window === 'undefined') return;
+  const key = storageKey(account, chainId);
+  const unfinished = entries.some(e => e.status === 'queued' || e.status === 'failed' || e.status === 'claiming');
+  if (unfinished) {
+    localStorage.setItem(key, JSON.stringify(entries));
+  } else {
+    localStorage.removeItem(key);
+  }
+}
+
+/// 已结算市场的奖励和已取消市场的退款
+export function getClaimables(markets: Market[]): Claimable[] {
+  return markets
+    .map((market): Claimable => ({
+      market,
+      kind: market.status === 2 ? 'refund' : 'winnings',
+      amount: claimableAmount(market),
+    }))
+    .filter(c => c.amount > 0n);
+}
+
+// ============ Hook ============
+export function useClaimQueue(
+  markets: Market[],
+  claim: (marketId: number, kind: ClaimKind) => Promise<void>
+) {
+  const { address } = useAccount();
+  const { chainId } = useDeployment();
+  const [state, setState] = useState<ClaimQueueState>(EMPTY_QUEUE);
+
+  // 循环里要读最新的市场数据（每笔领取后都会刷新）
+  const marketsRef = useRef(markets);
+  marketsRef.current = markets;
+  const stopRef = useRef(false);
+
+  const claimables = useMemo(() => getClaimables(markets), [markets]);
+
+  useEffect(() => {
+    setState({ entries: address ? loadQueue(address, chainId) : [], running: false });
+  }, [address, chainId]);
+
+  const update = useCallback((entries: ClaimQueueEntry[], running: boolean) => {
+    if (address) saveQueue(address, chainId, entries);
+    setState({ entries, running });
+  }, [address, chainId]);
+
+  /// 按顺序逐笔领取；失败或拒签就暂停，已完成的保留，下次从剩下的继续
+  const process = useCallback(async (initial: ClaimQueueEntry[]) => {
+    let entries = initial.map(e => (e.status === 'failed' ? { ...e, status: 'queued' as const, error: undefined } : e));
+    stopRef.current = false;
+    update(entries, true);
+
+    const setEntry = (marketId: number, patch: Partial<ClaimQueueEntry>) => {
+      entries = entries.map(e => (e.marketId === marketId ? { ...e, ...patch } : e));
+    };
+
+    for (const entry of initial) {
+      if (stopRef.current) break;
+      if (entry.status === 'done' || entry.status === 'skipped') continue;
+
+      // 其他页面 / 单独领取过的直接跳过
+      const market = marketsRef.current.find(m => m.id === entry.marketId);
+      if (!market || claimableAmount(market) === 0n) {
+        setEntry(entry.marketId, { status: 'skipped' });
+        update(entries, true);
+        continue;
+      }
+
+      setEntry(entry.marketId, { status: 'claiming' });
+      update(entries, true);
+      try {
+        await claim(entry.marketId, entry.kind);
+        setEntry(entry.marketId, { status: 'done' });
+        update(entries, true);
+      } catch (error: any) {
+        setEntry(entry.marketId, { status: 'failed', error: error?.message || 'Claim failed' });
+        update(entries, false);
+        console.error(`❌ Claim queue paused at market #${entry.marketId}:`, error);
+        return;
+      }
+    }
+
+    update(entries, false);
+    if (!stopRef.current) console.log(`✅ Claim queue finished (${entries.filter(e => e.status === 'done').length} claimed)`);
+  }, [claim, update]);
+
+  const claimAll = useCallback(() => {
+    const entries = claimables.map((c): ClaimQueueEntry => ({ marketId: c.market.id, kind: c.kind, status: 'queued' }));
+    if (entries.length > 0) return process(entries);
+  }, [claimables, process]);
+
+  const resume = useCallback(() => process(state.entries), [process, state.entries]);
+
+  /// 当前这笔结束后停止；剩下的保留在队列里
+  const pause = useCallback(() => {
+    stopRef.current = true;
+  }, []);
+
+  const clear = useCallback(() => {
+    stopRef.current = true;
+    update([], false);
+  }, [update]);
+
+  const { entries, running } = state;
+  const finished = entries.filter(e => e.status === 'done' || e.status === 'skipped').length;
+  const hasUnfinished = entries.some(e => e.status === 'queued' || e.status === 'failed' || e.status === 'claiming');
+
+  return {
+    claimables,
+    entries,
+    running,
+    progress: { finished, total: entries.length },
+    canResume: !running && hasUnfinished,
+    claimAll,
+    resume,
+    pause,
+    clear,
+  };
+}
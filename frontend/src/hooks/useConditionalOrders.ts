@@ -0,0 +1,153 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAccount } from 'wagmi';
+import type { Market } from '@/hooks/usePredictionMarket';
+import { useDeployment } from '@/hooks/useDeployment';
+import { ConditionKind, ConditionalOrder, isTriggered } from '@/utils/conditionalOrders';
+
+const STORAGE_PREFIX = 'attention_fi_conditional_orders_';
+const MAX_HISTORY = 50;
+
+// ============ 模块级状态（市场卡片、监控和投资组合面板共用） ============
+interface ConditionStore {
+  key: string | null;         // 当前账户 + 链
+  orders: ConditionalOrder[];
+}
+
+let store: ConditionStore = { key: null, orders: [] };
+const listeners = new Set<(state: ConditionStore) => void>();
+
+function storageKey(account: string, chainId: number) {
+  return `${STORAGE_PREFIX}${chainId}_${account.toLowerCase()}`;
+}
+
+function loadOrders(key: string): ConditionalOrder[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    return JSON.parse(localStorage.getItem(key) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+/// 历史只保留最近 MAX_HISTORY 条，进行中的全部保留
+function setOrders(orders: ConditionalOrder[]) {
+  const open = orders.filter(o => o.status === 'active' || o.status === 'triggered');
+  const history = orders
+    .filter(o => o.status !== 'active' && o.status !== 'triggered')
+    .sort((a, b) => (b.settledAt ?? 0) - (a.settledAt ?? 0))
+    .slice(0, MAX_HISTORY);
+  store = { ...store, orders: [...open, ...history] };
+  if (store.key) localStorage.setItem(store.key, JSON.stringify(store.orders));
+  listeners.forEach(listener => listener(store));
+}
+
+function updateOrder(id: string, patch: Partial<ConditionalOrder>) {
+  setOrders(store.orders.map(o => (o.id === id ? { ...o, ...patch } : o)));
+}
+
+export interface NewCondition {
+  marketId: number;
+  outcomeIndex: number;
+  kind: ConditionKind;
+  triggerBps: number;
+  sellFractionBps: number;
+}
+
+// ============ Hook ============
+export function useConditionalOrders() {
+  const { address } = useAccount();
+  const { chainId } = useDeployment();
+  const [state, setState] = useState<ConditionStore>(store);
+
+  const key = address ? storageKey(address, chainId) : null;
+
+  useEffect(() => {
+    listeners.add(setState);
+    setState(store);
+    return () => { listeners.delete(setState); };
+  }, []);
+
+  // 切换账户 / 网络时载入对应的条件单
+  useEffect(() => {
+    if (store.key === key) return;
+    store = { key, orders: key ? loadOrders(key) : [] };
+    listeners.forEach(listener => listener(store));
+  }, [key]);
+
+  const add = useCallback((input: NewCondition) => {
+    const order: ConditionalOrder = {
+      ...input,
+      id: `${input.marketId}-${input.outcomeIndex}-${Date.now()}`,
+      createdAt: Date.now(),
+      status: 'active',
+    };
+    setOrders([order, ...store.orders]);
+    console.log(`🛡️ Condition added: market #${input.marketId} ${input.kind} @ ${input.triggerBps / 100}%`);
+  }, []);
+
+  const cancel = useCallback((id: string) => {
+    updateOrder(id, { status: 'cancelled', settledAt: Date.now() });
+  }, []);
+
+  const dismiss = useCallback((id: string, note = 'Dismissed') => {
+    updateOrder(id, { status: 'dismissed', settledAt: Date.now(), note });
+  }, []);
+
+  const markExecuted = useCallback((id: string, note: string) => {
+    updateOrder(id, { status: 'executed', settledAt: Date.now(), note });
+  }, []);
+
+  /// 卖出失败时保留在已触发状态，记下原因，用户可以重试
+  const markFailed = useCallback((id: string, note: string) => {
+    updateOrder(id, { note });
+  }, []);
+
+  const orders = state.key === key ? state.orders : [];
+
+  return {
+    orders,
+    active: orders.filter(o => o.status === 'active'),
+    triggered: orders.filter(o => o.status === 'triggered'),
+    history: orders.filter(o => o.status !== 'active' && o.status !== 'triggered'),
+    add,
+    cancel,
+    dismiss,
+    markExecuted,
+    markFailed,
+  };
+}
+
+/// 市场价格（getPrices）每次刷新后检查条件；页面打开期间有效
+export function useConditionalOrderWatcher(markets: Market[]) {
+  const { orders } = useConditionalOrders();
+
+  useEffect(() => {
+    if (markets.length === 0 || !orders.some(o => o.status === 'active' || o.status === 'triggered')) return;
+    const now = Date.now();
+    let changed = false;
+
+    const next = store.orders.map(order => {
+      if (order.status !== 'active' && order.status !== 'triggered') return order;
+      const market = markets.find(m => m.id === order.marketId);
+      if (!market) return order;
+
+      // 到期后等待结算，和已结算的市场一样不再触发；已触发还没签名的也收起，避免发出必然失败的卖单
+      if (market.status !== 0 || market.endTime * 1000 <= now) {
+        changed = true;
+        return { ...order, status: 'dismissed' as const, settledAt: now, note: 'Market closed' };
+      }
+      if (order.status === 'triggered') return order;
+
+      const price = market.prices[order.outcomeIndex];
+      if (price === undefined || !isTriggered(order, price)) return order;
+
+      changed = true;
+      console.log(`🚨 ${order.kind} triggered on market #${order.marketId}: ${price / 100}% (trigger ${order.triggerBps / 100}%)`);
+      return { ...order, status: 'triggered' as const, triggeredAt: now, triggerPriceBps: price };
+    });
+
+    if (changed) setOrders(next);
+  }, [markets, orders]);
+}
@@ -0,0 +1,76 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { usePublicClient } from 'wagmi';
+import type { Abi, WatchContractEventOnLogsParameter } from 'viem';
+
+// ============ 常量 ============
+const MAX_WATCH_ERRORS = 3;   // 连续出错这么多次后认为节点不支持 filter，改为轮询
+
+export type EventMode = 'live' | 'polling';
+
+interface UseContractEventsOptions<abi extends Abi> {
+  address: `0x${string}` | undefined;   // 当前网络没有部署时不订阅
+  abi: abi;
+  onLogs: (logs: WatchContractEventOnLogsParameter<abi>) => void;
+  onPoll: () => void;          // 回退模式下每个周期调用一次
+  pollingInterval?: number;
+  enabled?: boolean;
+}
+
+// ============ Hook ============
+/// 订阅合约事件；节点不支持 filter / 订阅时回退为定时调用 onPoll
+export function useContractEvents<const abi extends Abi>({
+  address,
+  abi,
+  onLogs,
+  onPoll,
+  pollingInterval = 12_000,
+  enabled = true,
+}: UseContractEventsOptions<abi>) {
+  const publicClient = usePublicClient();
+  const [mode, setMode] = useState<EventMode>('live');
+
+  // 回调放进 ref，避免调用方每次渲染都重新订阅
+  const onLogsRef = useRef(onLogs);
+  const onPollRef = useRef(onPoll);
+  onLogsRef.current = onLogs;
+  onPollRef.current = onPoll;
+
+  // 切换网络后重新尝试实时订阅
+  useEffect(() => {
+    setMode('live');
+  }, [publicClient, address]);
+
+  useEffect(() => {
+    if (!publicClient || !address || !enabled || mode !== 'live') return;
+
+    let errors = 0;
+    const unwatch = publicClient.watchContractEvent({
+      address,
+      abi,
+      pollingInterval,
+      onLogs: (logs) => {
+        errors = 0;
+        onLogsRef.current(logs as unknown as WatchContractEventOnLogsParameter<abi>);
+      },
+      onError: (error) => {
+        errors++;
+        console.warn(`Event watcher error (${errors}/${MAX_WATCH_ERRORS}):`, error);
+        if (errors >= MAX_WATCH_ERRORS) {
+          console.warn('📡 Falling back to polling for contract updates');
+          setMode('polling');
+        }
+      },
+    });
+    return unwatch;
+  }, [publicClient, address, abi, pollingInterval, enabled, mode]);
+
+  useEffect(() => {
+    if (!address || !enabled || mode !== 'polling') return;
+    const timer = setInterval(() => onPollRef.current(), pollingInterval);
+    return () => clearInterval(timer);
+  }, [address, enabled, mode, pollingInterval]);
+
+  return { mode };
+}
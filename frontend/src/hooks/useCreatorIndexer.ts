@@ -0,0 +1,97 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { usePublicClient } from 'wagmi';
+import type { PublicClient } from 'viem';
+import type { Deployment } from '@/constants/deployments';
+import { CreatorEvent, fetchCreatorEvents, mergeEvents } from '@/lib/creatorIndexer';
+import { findDeployBlock } from '@/lib/logs';
+import { useDeployment } from '@/hooks/useDeployment';
+
+// ============ 模块级缓存（多个组件共享同一份索引，重新挂载不重复回溯） ============
+interface IndexState {
+  chainId: number | null;     // 索引所属网络，切换网络时重新回溯
+  events: CreatorEvent[];
+  lastBlock: bigint | null;
+  syncing: boolean;
+}
+
+let indexState: IndexState = { chainId: null, events: [], lastBlock: null, syncing: false };
+let pendingSync: Promise<void> | null = null;
+const EMPTY_EVENTS: CreatorEvent[] = [];
+const listeners = new Set<(state: IndexState) => void>();
+
+function setIndexState(patch: Partial<IndexState>) {
+  indexState = { ...indexState, ...patch };
+  listeners.forEach(listener => listener(indexState));
+}
+
+async function runSync(client: PublicClient, deployment: Deployment) {
+  if (indexState.chainId !== deployment.chainId) {
+    setIndexState({ chainId: deployment.chainId, events: [], lastBlock: null });
+  }
+  setIndexState({ syncing: true });
+  try {
+    const latest = await client.getBlockNumber();
+    let fromBlock: bigint;
+    if (indexState.lastBlock !== null) {
+      fromBlock = indexState.lastBlock + 1n;
+    } else {
+      fromBlock = deployment.creatorMarketDeployBlock > 0n
+        ? deployment.creatorMarketDeployBlock
+        : await findDeployBlock(client, deployment.creatorMarket);
+      console.log(`📚 Backfilling creator events on ${deployment.network} from block ${fromBlock}`);
+    }
+    if (fromBlock > latest) return;
+
+    const incoming = await fetchCreatorEvents(client, deployment.creatorMarket, fromBlock, latest);
+    setIndexState({ events: mergeEvents(indexState.events, incoming), lastBlock: latest });
+  } catch (error) {
+    console.error('Failed to sync creator events:', error);
+  } finally {
+    setIndexState({ syncing: false });
+  }
+}
+
+// ============ Hook ============
+export function useCreatorIndexer(pollingInterval: number = 12_000) {
+  const publicClient = usePublicClient();
+  const { deployment } = useDeployment();
+  const [state, setState] = useState<IndexState>(indexState);
+
+  useEffect(() => {
+    listeners.add(setState);
+    setState(indexState);
+    return () => { listeners.delete(setState); };
+  }, []);
+
+  // 同一时间只跑一次同步，并发调用共享同一个 Promise
+  const sync = useCallback(async () => {
+    if (!publicClient || !deployment) return;
+    if (!pendingSync) {
+      pendingSync = runSync(publicClient as PublicClient, deployment).finally(() => { pendingSync = null; });
+    }
+    await pendingSync;
+  }, [publicClient, deployment]);
+
+  // 回溯历史，然后跟随新区块
+  useEffect(() => {
+    if (!publicClient) return;
+    sync();
+    const unwatch = publicClient.watchBlockNumber({
+      onBlockNumber: () => { sync(); },
+      pollingInterval,
+    });
+    return unwatch;
+  }, [publicClient, sync, pollingInterval]);
+
+  // 只返回属于当前网络的索引（切换网络后、重新回溯前为空）
+  const current = deployment && state.chainId === deployment.chainId;
+
+  return {
+    events: current ? state.events : EMPTY_EVENTS,
+    lastBlock: current ? state.lastBlock : null,
+    syncing: state.syncing,
+    sync,
+  };
+}
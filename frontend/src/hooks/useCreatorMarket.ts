@@ -1,16 +1,27 @@
 'use client';
 
-import { useState, useCallback, useEffect, useMemo } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { useAccount, usePublicClient, useWalletClient } from 'wagmi';
-import { parseUnits, formatUnits } from 'viem';
-import { 
-  CREATOR_MARKET_ADDRESS, 
-  USDC_ADDRESS, 
-  USDC_DECIMALS,
-  CurveType,
-} from '@/constants/config';
+import { parseUnits, formatUnits, parseEventLogs, type PublicClient } from 'viem';
+import { USDC_DECIMALS, CurveType } from '@/constants/config';
+import { Activity, CREATOR_MARKET_EVENTS_ABI, getHandleHash } from '@/lib/creatorIndexer';
+import { multicallChunked } from '@/lib/multicall';
+import { TxPreview, previewTransaction } from '@/lib/transactions';
+import { CostBasisMethod, Trade, computeCostBasis } from '@/utils/costBasis';
+import { StatsTrade, computeCreatorStats } from '@/utils/creatorStats';
+import { BPS, FEE_BPS } from '@/utils/bondingCurve';
+import { approvalAmount } from '@/utils/approvals';
+import { adverseDeviationBps, assertWithinSlippage, formatBps, maxWithSlippage } from '@/utils/slippage';
+import { useCreatorIndexer } from '@/hooks/useCreatorIndexer';
+import { useContractEvents } from '@/hooks/useContractEvents';
+import { useDeployment } from '@/hooks/useDeployment';
+import { useTransactions } from '@/hooks/useTransactions';
+import { useSlippageTolerance } from '@/hooks/useSlippageTolerance';
+import { useApprovalPolicy } from '@/hooks/useApprovalPolicy';
 
 export { CurveType } from '@/constants/config';
+export type { Activity } from '@/lib/creatorIndexer';
+export type { CostBasisMethod } from '@/utils/costBasis';
 
 // ============ ABI ============
 const CREATOR_MARKET_ABI = [
@@ -62,33 +73,32 @@ export interface Creator {
   _metaLoaded: boolean;
 }
 
-export interface Activity {
-  id: string;
-  type: 'buy' | 'sell' | 'launch';
-  user: string;
-  creatorHandle: string;
-  creatorName: string;
+export interface PricePoint { timestamp: number; price: number; }
+
+export interface PortfolioHolding {
+  creator: Creator;
   amount: number;
-  price: number;
-  totalValue: number;
-  timestamp: number;
+  currentValue: number;
+  avgBuyPrice: number;      // 剩余持仓单位成本（含手续费）
+  costBasis: number;
+  unrealizedPnL: number;
+  realizedPnL: number;
+  feesPaid: number;
+  pnl: number;              // 未实现 + 已实现
+  pnlPercent: number;
+  costBasisComplete: boolean;   // 索引到的记录能解释全部链上持仓
 }
 
-export interface PricePoint { timestamp: number; price: number; }
-
 export interface PortfolioStats {
+  method: CostBasisMethod;
   totalValue: number;
-  totalInvested: number;
+  totalInvested: number;        // 当前持仓成本
+  totalUnrealizedPnL: number;
+  totalRealizedPnL: number;     // 含已清仓的 creator
+  totalFeesPaid: number;
   totalPnL: number;
-  totalPnLPercent: number;
-  holdings: Array<{
-    creator: Creator;
-    amount: number;
-    currentValue: number;
-    avgBuyPrice: number;
-    pnl: number;
-    pnlPercent: number;
-  }>;
+  totalPnLPercent: number;      // 相对累计买入花费
+  holdings: PortfolioHolding[];
 }
 
 export interface PriceImpact {
@@ -97,9 +107,17 @@ export interface PriceImpact {
   priceImpactPercent: number;
 }
 
+export interface CreatorTradeRequest {
+  type: 'buy' | 'sell';
+  handle: string;
+  amount: number;
+}
+
 // ============ Storage Keys ============
-const ACTIVITY_STORAGE_KEY = 'attention_fi_activities';
 const PRICE_HISTORY_KEY = 'attention_fi_price_history';
+const COST_BASIS_METHOD_KEY = 'attention_fi_cost_basis_method';
+
+const STATS_REFRESH_INTERVAL = 60_000;   // 24h 统计窗口的刷新间隔
 
 // ============ 工具函数 ============
 function getCurveTypeName(curveType: number): string {
@@ -128,20 +146,6 @@ function calculateLocalScore(c: { followers?: number; tweets?: number; poolBalan
   );
 }
 
-function generateId(): string {
-  return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-}
-
-function loadActivities(): Activity[] {
-  if (typeof window === 'undefined') return [];
-  try { return JSON.parse(localStorage.getItem(ACTIVITY_STORAGE_KEY) || '[]'); } catch { return []; }
-}
-
-function saveActivities(activities: Activity[]) {
-  if (typeof window === 'undefined') return;
-  localStorage.setItem(ACTIVITY_STORAGE_KEY, JSON.stringify(activities.slice(0, 200)));
-}
-
 function loadPriceHistory(): Record<string, PricePoint[]> {
   if (typeof window === 'undefined') return {};
   try { return JSON.parse(localStorage.getItem(PRICE_HISTORY_KEY) || '{}'); } catch { return {}; }
@@ -152,16 +156,34 @@ function savePriceHistory(history: Record<string, PricePoint[]>) {
   localStorage.setItem(PRICE_HISTORY_KEY, JSON.stringify(history));
 }
 
+function loadCostBasisMethod(): CostBasisMethod {
+  if (typeof window === 'undefined') return 'fifo';
+  return localStorage.getItem(COST_BASIS_METHOD_KEY) === 'average' ? 'average' : 'fifo';
+}
+
 // ============ Hook ============
 export function useCreatorMarket() {
   const { address } = useAccount();
   const publicClient = usePublicClient();
   const { data: walletClient } = useWalletClient();
+  const { deployment } = useDeployment();
+  const { track, report, flag } = useTransactions();
+  const { toleranceBps } = useSlippageTolerance();
+  const { policy: approvalPolicy } = useApprovalPolicy();
+
+  const { events: creatorEvents, lastBlock: indexedBlock, syncing: activitiesSyncing, sync: syncEvents } = useCreatorIndexer();
 
   const [creators, setCreators] = useState<Creator[]>([]);
-  const [activities, setActivities] = useState<Activity[]>([]);
   const [priceHistory, setPriceHistory] = useState<Record<string, PricePoint[]>>({});
   const [loading, setLoading] = useState(false);
+  const [costBasisMethod, setCostBasisMethodState] = useState<CostBasisMethod>('fifo');
+
+  useEffect(() => { setCostBasisMethodState(loadCostBasisMethod()); }, []);
+
+  const setCostBasisMethod = useCallback((method: CostBasisMethod) => {
+    setCostBasisMethodState(method);
+    if (typeof window !== 'undefined') localStorage.setItem(COST_BASIS_METHOD_KEY, method);
+  }, []);
 
   // ============ 从 API 获取元数据映射 ============
   const fetchMetaFromApi = useCallback(async (): Promise<Record<string, any>> => {
@@ -226,7 +248,7 @@ export function useCreatorMarket() {
 
   // ============ 获取所有 Creators ============
   const fetchCreators = useCallback(async () => {
-    if (!publicClient) return;
+    if (!publicClient || !deployment) return;
     
     setLoading(true);
     try {
@@ -234,7 +256,7 @@ export function useCreatorMarket() {
       const [metaMap, count] = await Promise.all([
         fetchMetaFromApi(),
         publicClient.readContract({
-          address: CREATOR_MARKET_ADDRESS as `0x${string}`,
+          address: deployment.creatorMarket,
           abi: CREATOR_MARKET_ABI,
           functionName: 'getCreatorCount',
         }) as Promise<bigint>
@@ -247,14 +269,14 @@ export function useCreatorMarket() {
       for (let i = 0; i < Number(count); i++) {
         try {
           const handle = await publicClient.readContract({
-            address: CREATOR_MARKET_ADDRESS as `0x${string}`,
+            address: deployment.creatorMarket,
             abi: CREATOR_MARKET_ABI,
             functionName: 'getCreatorByIndex',
             args: [BigInt(i)],
           }) as string;
 
           const info = await publicClient.readContract({
-            address: CREATOR_MARKET_ADDRESS as `0x${string}`,
+            address: deployment.creatorMarket,
             abi: CREATOR_MARKET_ABI,
             functionName: 'getCreatorInfo',
             args: [handle],
@@ -266,7 +288,7 @@ export function useCreatorMarket() {
           if (address) {
             try {
               userShares = await publicClient.readContract({
-                address: CREATOR_MARKET_ADDRESS as `0x${string}`,
+                address: deployment.creatorMarket,
                 abi: CREATOR_MARKET_ABI,
                 functionName: 'getUserShares',
                 args: [handle, address as `0x${string}`],
@@ -296,9 +318,10 @@ export function useCreatorMarket() {
             verified: meta.verified || false,
             launchedAt: meta.launchedAt || Date.now(),
             attentionScore: meta.attentionScore || 0,
+            // 索引完成后由链上事件覆盖（见 creatorsWithStats）
             priceChange24h: meta.priceChange24h || 0,
-            holders: meta.holders || Math.max(1, Math.floor(Number(info[1]) * 0.7)),
-            volume24h: meta.volume24h || Number(formatUnits(info[2], USDC_DECIMALS)) * 0.1,
+            holders: meta.holders || 0,
+            volume24h: meta.volume24h || 0,
             avgBuyPrice: meta.avgBuyPrice || 0,
             _metaLoaded: hasValidData,
           };
@@ -315,7 +338,6 @@ export function useCreatorMarket() {
       }
 
       setCreators(list);
-      setActivities(loadActivities());
       setPriceHistory(loadPriceHistory());
 
       // ⚠️ 不再自动刷新！用户需要时手动点击刷新按钮
@@ -325,19 +347,105 @@ export function useCreatorMarket() {
     } finally {
       setLoading(false);
     }
-  }, [publicClient, address, fetchMetaFromApi]);
+  }, [publicClient, deployment, address, fetchMetaFromApi]);
 
-  // ============ 辅助函数 ============
-  const addActivity = useCallback((activity: Omit<Activity, 'id'>) => {
-    const newActivity: Activity = { ...activity, id: generateId() };
-    setActivities(prev => {
-      const updated = [newActivity, ...prev].slice(0, 200);
-      saveActivities(updated);
-      return updated;
-    });
-    return newActivity;
+  // ============ 局部刷新（只更新链上字段，保留元数据） ============
+  const refreshCreators = useCallback(async (handles: string[]) => {
+    if (!publicClient || !deployment || handles.length === 0) return;
+    try {
+      const contract = { address: deployment.creatorMarket, abi: CREATOR_MARKET_ABI } as const;
+      const callsPerCreator = address ? 2 : 1;
+      const results = await multicallChunked(
+        publicClient as PublicClient,
+        handles.flatMap(handle => [
+          { ...contract, functionName: 'getCreatorInfo', args: [handle] },
+          ...(address ? [{ ...contract, functionName: 'getUserShares', args: [handle, address] }] : []),
+        ])
+      );
+
+      const patches = new Map<string, Partial<Creator>>();
+      handles.forEach((handle, index) => {
+        const [infoResult, sharesResult] = results.slice(index * callsPerCreator, (index + 1) * callsPerCreator);
+        if (infoResult.status === 'failure') {
+          console.error(`Failed to refresh creator ${handle}:`, infoResult.error);
+          return;
+        }
+        const info = infoResult.result as readonly [boolean, bigint, bigint, bigint, number, bigint, bigint, bigint];
+        if (!info[0]) return;
+        patches.set(handle, {
+          totalSupply: Number(info[1]),
+          poolBalance: Number(formatUnits(info[2], USDC_DECIMALS)),
+          price: Number(formatUnits(info[3], USDC_DECIMALS)),
+          ...(sharesResult?.status === 'success' ? { userShares: Number(sharesResult.result as bigint) } : {}),
+        });
+      });
+
+      setCreators(prev => prev.map(c => {
+        const patch = patches.get(c.handle);
+        return patch ? { ...c, ...patch } : c;
+      }));
+      return patches;
+    } catch (error) {
+      console.error('Failed to refresh creators:', error);
+    }
+  }, [publicClient, deployment, address]);
+
+  // ============ 链上活动流（由事件索引器提供） ============
+  const activities = useMemo((): Activity[] => {
+    const creatorByHash = new Map(creators.map(c => [getHandleHash(c.handle), c]));
+    const list: Activity[] = [];
+
+    for (const event of creatorEvents) {
+      const creator = creatorByHash.get(event.handleHash);
+      if (!creator) continue;
+      const totalValue = Number(formatUnits(event.value, USDC_DECIMALS));
+      list.push({
+        id: event.id,
+        type: event.type,
+        user: event.user,
+        creatorHandle: creator.handle,
+        creatorName: creator.displayName,
+        amount: event.amount,
+        price: event.amount > 0 ? totalValue / event.amount : 0,
+        totalValue,
+        timestamp: event.timestamp,
+        txHash: event.txHash,
+        blockNumber: Number(event.blockNumber),
+      });
+    }
+
+    return list.reverse();
+  }, [creatorEvents, creators]);
+
+  // ============ 链上统计：持有人数 / 24h 成交额 / 24h 涨跌 ============
+  // 事件由索引器跟随新区块推送；定时刷新 now，让 24h 窗口在没有新成交时也会滚动
+  const [statsNow, setStatsNow] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setStatsNow(Date.now()), STATS_REFRESH_INTERVAL);
+    return () => clearInterval(timer);
   }, []);
 
+  const creatorsWithStats = useMemo((): Creator[] => {
+    if (indexedBlock === null) return creators;
+
+    const tradesByHash = new Map<string, StatsTrade[]>();
+    for (const event of creatorEvents) {
+      const trades = tradesByHash.get(event.handleHash) || [];
+      trades.push(event);
+      tradesByHash.set(event.handleHash, trades);
+    }
+
+    return creators.map(c => {
+      const { holders, volume24h, priceChange24h } = computeCreatorStats(
+        tradesByHash.get(getHandleHash(c.handle)) || [],
+        c,
+        statsNow
+      );
+      return { ...c, holders, volume24h, priceChange24h };
+    });
+  }, [creators, creatorEvents, indexedBlock, statsNow]);
+
+  // ============ 辅助函数 ============
   const recordPrice = useCallback((handle: string, price: number) => {
     setPriceHistory(prev => {
       const history = prev[handle] || [];
@@ -348,25 +456,27 @@ export function useCreatorMarket() {
   }, []);
 
   const ensureAllowance = useCallback(async (requiredAmount: bigint) => {
-    if (!publicClient || !walletClient || !address) return;
+    if (!publicClient || !walletClient || !address || !deployment) return;
 
     const currentAllowance = await publicClient.readContract({
-      address: USDC_ADDRESS as `0x${string}`,
+      address: deployment.usdc,
       abi: USDC_ABI,
       functionName: 'allowance',
-      args: [address as `0x${string}`, CREATOR_MARKET_ADDRESS as `0x${string}`],
+      args: [address as `0x${string}`, deployment.creatorMarket],
     }) as bigint;
 
     if (currentAllowance < requiredAmount) {
-      const hash = await walletClient.writeContract({
-        address: USDC_ADDRESS as `0x${string}`,
+      const { request } = await publicClient.simulateContract({
+        account: walletClient.account,
+        address: deployment.usdc,
         abi: USDC_ABI,
         functionName: 'approve',
-        args: [CREATOR_MARKET_ADDRESS as `0x${string}`, requiredAmount * 10n],
+        args: [deployment.creatorMarket, approvalAmount(requiredAmount, approvalPolicy)],
       });
-      await publicClient.waitForTransactionReceipt({ hash });
+      const hash = await walletClient.writeContract(request);
+      await track(hash, 'Approve USDC');
     }
-  }, [publicClient, walletClient, address]);
+  }, [publicClient, deployment, walletClient, address, approvalPolicy, track]);
 
   // ============ 注册 Creator（后端自动获取 Twitter 数据） ============
   const registerCreator = useCallback(async (
@@ -386,7 +496,8 @@ export function useCreatorMarket() {
       inflectionPoint?: string;
     }
   ): Promise<boolean> => {
-    if (!handle.trim() || !walletClient || !publicClient) return false;
+    if (!handle.trim() || !walletClient || !publicClient || !deployment) return false;
+    const label = `Launch @${handle}`;
     setLoading(true);
 
     try {
@@ -398,30 +509,36 @@ export function useCreatorMarket() {
         const B = curveConfig.B ? parseUnits(curveConfig.B, USDC_DECIMALS) : 1000000n;
         
         if (curveConfig.inflectionPoint) {
-          hash = await walletClient.writeContract({
-            address: CREATOR_MARKET_ADDRESS as `0x${string}`,
+          const { request } = await publicClient.simulateContract({
+            account: walletClient.account,
+            address: deployment.creatorMarket,
             abi: CREATOR_MARKET_ABI,
             functionName: 'registerCreatorFull',
             args: [handle, curveConfig.curveType, A, B, BigInt(curveConfig.inflectionPoint)],
           });
+          hash = await walletClient.writeContract(request);
         } else {
-          hash = await walletClient.writeContract({
-            address: CREATOR_MARKET_ADDRESS as `0x${string}`,
+          const { request } = await publicClient.simulateContract({
+            account: walletClient.account,
+            address: deployment.creatorMarket,
             abi: CREATOR_MARKET_ABI,
             functionName: 'registerCreatorWithCurve',
             args: [handle, curveConfig.curveType, A, B],
           });
+          hash = await walletClient.writeContract(request);
         }
       } else {
-        hash = await walletClient.writeContract({
-          address: CREATOR_MARKET_ADDRESS as `0x${string}`,
+        const { request } = await publicClient.simulateContract({
+          account: walletClient.account,
+          address: deployment.creatorMarket,
           abi: CREATOR_MARKET_ABI,
           functionName: 'registerCreator',
           args: [handle],
         });
+        hash = await walletClient.writeContract(request);
       }
 
-      await publicClient.waitForTransactionReceipt({ hash });
+      await track(hash, label);
 
       // 2. 调用后端 API 保存元数据（后端会自动获取 Twitter 数据）
       const res = await fetch('/api/creators', {
@@ -438,58 +555,62 @@ export function useCreatorMarket() {
         }),
       });
 
-      const savedData = await res.json();
-      const displayName = getSafeDisplayName(savedData.data?.displayName || twitterData?.displayName, handle);
-
-      // 3. 记录活动
-      addActivity({
-        type: 'launch',
-        user: address || '',
-        creatorHandle: handle,
-        creatorName: displayName,
-        amount: 0,
-        price: 1.0,
-        totalValue: 0,
-        timestamp: Date.now(),
-      });
+      if (!res.ok) {
+        console.warn(`⚠️ Failed to save metadata for @${handle}: ${res.status}`);
+      }
 
-      // 4. 刷新列表
-      await fetchCreators();
+      // 3. 刷新列表和活动流
+      await Promise.all([fetchCreators(), syncEvents()]);
       return true;
     } catch (error) {
-      console.error('Register creator failed:', error);
+      report(label, error);
       return false;
     } finally {
       setLoading(false);
     }
-  }, [walletClient, publicClient, address, addActivity, fetchCreators]);
+  }, [walletClient, publicClient, deployment, fetchCreators, syncEvents, track, report]);
 
-  // ============ 买入 ============
-  const buyShares = useCallback(async (handle: string, amount: number): Promise<boolean> => {
-    if (amount <= 0 || !walletClient || !publicClient) return false;
+  // ============ 买入（expectedCost 为面板上看到的含手续费总成本，USDC） ============
+  const buyShares = useCallback(async (handle: string, amount: number, expectedCost?: number): Promise<boolean> => {
+    if (amount <= 0 || !walletClient || !publicClient || !deployment) return false;
+    const label = `Buy ${amount} @${handle} keys`;
     setLoading(true);
 
     try {
       const cost = await publicClient.readContract({
-        address: CREATOR_MARKET_ADDRESS as `0x${string}`,
+        address: deployment.creatorMarket,
         abi: CREATOR_MARKET_ABI,
         functionName: 'getBuyPrice',
         args: [handle, BigInt(amount)],
       }) as bigint;
 
-      await ensureAllowance((cost * 105n) / 100n);
+      // 合约没有 maxCost 参数：提交前按链上最新价格重新报价，超出容忍度就不发送
+      const totalCost = cost + (cost * FEE_BPS) / BPS;
+      const seen = expectedCost !== undefined ? parseUnits(expectedCost.toFixed(USDC_DECIMALS), USDC_DECIMALS) : totalCost;
+      assertWithinSlippage(seen, totalCost, 'pay', toleranceBps);
+
+      await ensureAllowance(maxWithSlippage(seen, toleranceBps));
 
-      const hash = await walletClient.writeContract({
-        address: CREATOR_MARKET_ADDRESS as `0x${string}`,
+      const { request } = await publicClient.simulateContract({
+        account: walletClient.account,
+        address: deployment.creatorMarket,
         abi: CREATOR_MARKET_ABI,
         functionName: 'buyShares',
         args: [handle, BigInt(amount)],
       });
+      const hash = await walletClient.writeContract(request);
 
-      await publicClient.waitForTransactionReceipt({ hash });
+      const receipt = await track(hash, label);
+
+      // 核对实际成交成本
+      const [bought] = parseEventLogs({ abi: CREATOR_MARKET_EVENTS_ABI, eventName: 'SharesBought', logs: receipt.logs });
+      const deviation = bought ? adverseDeviationBps(seen, bought.args.cost, 'pay') : 0;
+      if (deviation > toleranceBps) {
+        flag(hash, `Paid $${Number(formatUnits(bought!.args.cost, USDC_DECIMALS)).toFixed(2)}, ${formatBps(deviation)} above your quote`);
+      }
 
       const newPrice = await publicClient.readContract({
-        address: CREATOR_MARKET_ADDRESS as `0x${string}`,
+        address: deployment.creatorMarket,
         abi: CREATOR_MARKET_ABI,
         functionName: 'getCurrentPrice',
         args: [handle],
@@ -497,52 +618,53 @@ export function useCreatorMarket() {
 
       recordPrice(handle, Number(formatUnits(newPrice, USDC_DECIMALS)));
 
-      const creator = creators.find(c => c.handle.toLowerCase() === handle.toLowerCase());
-      addActivity({
-        type: 'buy',
-        user: address || '',
-        creatorHandle: handle,
-        creatorName: creator?.displayName || handle,
-        amount,
-        price: Number(formatUnits(cost, USDC_DECIMALS)) / amount,
-        totalValue: Number(formatUnits(cost, USDC_DECIMALS)),
-        timestamp: Date.now(),
-      });
-
-      await fetchCreators();
+      await Promise.all([fetchCreators(), syncEvents()]);
       return true;
     } catch (error) {
-      console.error('Buy shares failed:', error);
+      report(label, error);
       return false;
     } finally {
       setLoading(false);
     }
-  }, [walletClient, publicClient, address, ensureAllowance, creators, recordPrice, addActivity, fetchCreators]);
+  }, [walletClient, publicClient, deployment, toleranceBps, ensureAllowance, recordPrice, fetchCreators, syncEvents, track, flag, report]);
 
-  // ============ 卖出 ============
-  const sellShares = useCallback(async (handle: string, amount: number): Promise<boolean> => {
-    if (amount <= 0 || !walletClient || !publicClient) return false;
+  // ============ 卖出（expectedProceeds 为面板上看到的扣费后到账，USDC） ============
+  const sellShares = useCallback(async (handle: string, amount: number, expectedProceeds?: number): Promise<boolean> => {
+    if (amount <= 0 || !walletClient || !publicClient || !deployment) return false;
+    const label = `Sell ${amount} @${handle} keys`;
     setLoading(true);
 
     try {
-      const proceeds = await publicClient.readContract({
-        address: CREATOR_MARKET_ADDRESS as `0x${string}`,
+      const gross = await publicClient.readContract({
+        address: deployment.creatorMarket,
         abi: CREATOR_MARKET_ABI,
         functionName: 'getSellPrice',
         args: [handle, BigInt(amount)],
       }) as bigint;
 
-      const hash = await walletClient.writeContract({
-        address: CREATOR_MARKET_ADDRESS as `0x${string}`,
+      const netProceeds = gross - (gross * FEE_BPS) / BPS;
+      const seen = expectedProceeds !== undefined ? parseUnits(expectedProceeds.toFixed(USDC_DECIMALS), USDC_DECIMALS) : netProceeds;
+      assertWithinSlippage(seen, netProceeds, 'receive', toleranceBps);
+
+      const { request } = await publicClient.simulateContract({
+        account: walletClient.account,
+        address: deployment.creatorMarket,
         abi: CREATOR_MARKET_ABI,
         functionName: 'sellShares',
         args: [handle, BigInt(amount)],
       });
+      const hash = await walletClient.writeContract(request);
 
-      await publicClient.waitForTransactionReceipt({ hash });
+      const receipt = await track(hash, label);
+
+      const [sold] = parseEventLogs({ abi: CREATOR_MARKET_EVENTS_ABI, eventName: 'SharesSold', logs: receipt.logs });
+      const deviation = sold ? adverseDeviationBps(seen, sold.args.proceeds, 'receive') : 0;
+      if (deviation > toleranceBps) {
+        flag(hash, `Received $${Number(formatUnits(sold!.args.proceeds, USDC_DECIMALS)).toFixed(2)}, ${formatBps(deviation)} below your quote`);
+      }
 
       const newPrice = await publicClient.readContract({
-        address: CREATOR_MARKET_ADDRESS as `0x${string}`,
+        address: deployment.creatorMarket,
         abi: CREATOR_MARKET_ABI,
         functionName: 'getCurrentPrice',
         args: [handle],
@@ -550,60 +672,60 @@ export function useCreatorMarket() {
 
       recordPrice(handle, Number(formatUnits(newPrice, USDC_DECIMALS)));
 
-      const creator = creators.find(c => c.handle.toLowerCase() === handle.toLowerCase());
-      addActivity({
-        type: 'sell',
-        user: address || '',
-        creatorHandle: handle,
-        creatorName: creator?.displayName || handle,
-        amount,
-        price: Number(formatUnits(proceeds, USDC_DECIMALS)) / amount,
-        totalValue: Number(formatUnits(proceeds, USDC_DECIMALS)),
-        timestamp: Date.now(),
-      });
-
-      await fetchCreators();
+      await Promise.all([fetchCreators(), syncEvents()]);
       return true;
     } catch (error) {
-      console.error('Sell shares failed:', error);
+      report(label, error);
       return false;
     } finally {
       setLoading(false);
     }
-  }, [walletClient, publicClient, address, creators, recordPrice, addActivity, fetchCreators]);
+  }, [walletClient, publicClient, deployment, toleranceBps, recordPrice, fetchCreators, syncEvents, track, flag, report]);
+
+  // ============ 交易预估（模拟 + gas 费） ============
+  const previewTrade = useCallback(async ({ type, handle, amount }: CreatorTradeRequest): Promise<TxPreview> => {
+    if (!publicClient || !address || !deployment || !Number.isInteger(amount) || amount <= 0) return {};
+    return previewTransaction(publicClient, () => publicClient.estimateContractGas({
+      account: address,
+      address: deployment.creatorMarket,
+      abi: CREATOR_MARKET_ABI,
+      functionName: type === 'buy' ? 'buyShares' : 'sellShares',
+      args: [handle, BigInt(amount)],
+    }));
+  }, [publicClient, address, deployment]);
 
   // ============ 价格查询 ============
   const getBuyPrice = useCallback(async (handle: string, amount: number): Promise<number> => {
-    if (!publicClient || amount <= 0) return 0;
+    if (!publicClient || !deployment || amount <= 0) return 0;
     try {
       const cost = await publicClient.readContract({
-        address: CREATOR_MARKET_ADDRESS as `0x${string}`,
+        address: deployment.creatorMarket,
         abi: CREATOR_MARKET_ABI,
         functionName: 'getBuyPrice',
         args: [handle, BigInt(amount)],
       }) as bigint;
       return Number(formatUnits(cost, USDC_DECIMALS));
     } catch { return 0; }
-  }, [publicClient]);
+  }, [publicClient, deployment]);
 
   const getSellPrice = useCallback(async (handle: string, amount: number): Promise<number> => {
-    if (!publicClient || amount <= 0) return 0;
+    if (!publicClient || !deployment || amount <= 0) return 0;
     try {
       const proceeds = await publicClient.readContract({
-        address: CREATOR_MARKET_ADDRESS as `0x${string}`,
+        address: deployment.creatorMarket,
         abi: CREATOR_MARKET_ABI,
         functionName: 'getSellPrice',
         args: [handle, BigInt(amount)],
       }) as bigint;
       return Number(formatUnits(proceeds, USDC_DECIMALS));
     } catch { return 0; }
-  }, [publicClient]);
+  }, [publicClient, deployment]);
 
   const estimatePriceImpact = useCallback(async (handle: string, amount: number, isBuy: boolean): Promise<PriceImpact | null> => {
-    if (!publicClient || amount <= 0) return null;
+    if (!publicClient || !deployment || amount <= 0) return null;
     try {
       const result = await publicClient.readContract({
-        address: CREATOR_MARKET_ADDRESS as `0x${string}`,
+        address: deployment.creatorMarket,
         abi: CREATOR_MARKET_ABI,
         functionName: 'estimatePriceImpact',
         args: [handle, BigInt(amount), isBuy],
@@ -614,14 +736,14 @@ export function useCreatorMarket() {
         priceImpactPercent: Number(result[1]) / 100,
       };
     } catch { return null; }
-  }, [publicClient]);
+  }, [publicClient, deployment]);
 
   // ============ 排行榜 ============
   const getLeaderboard = useCallback((
     sortBy: 'score' | 'price' | 'holders' | 'volume' | 'change' = 'score',
     order: 'asc' | 'desc' = 'desc'
   ) => {
-    return [...creators].sort((a, b) => {
+    return [...creatorsWithStats].sort((a, b) => {
       const getValue = (c: Creator) => {
         switch (sortBy) {
           case 'score': return c.attentionScore;
@@ -634,64 +756,137 @@ export function useCreatorMarket() {
       };
       return order === 'desc' ? getValue(b) - getValue(a) : getValue(a) - getValue(b);
     });
-  }, [creators]);
+  }, [creatorsWithStats]);
 
   // ============ Portfolio ============
   const portfolioStats = useMemo((): PortfolioStats => {
-    const holdings = creators
-      .filter(c => c.userShares > 0)
-      .map(c => {
-        const currentValue = c.userShares * c.price;
-        const invested = c.userShares * (c.avgBuyPrice || c.price * 0.9);
-        const pnl = currentValue - invested;
-        return {
-          creator: c,
-          amount: c.userShares,
-          currentValue,
-          avgBuyPrice: c.avgBuyPrice || c.price * 0.9,
-          pnl,
-          pnlPercent: invested > 0 ? (pnl / invested) * 100 : 0,
-        };
-      })
-      .sort((a, b) => b.currentValue - a.currentValue);
+    // 按 creator 汇总当前地址的买卖记录（事件按区块升序）
+    const tradesByHash = new Map<string, Trade[]>();
+    if (address) {
+      const me = address.toLowerCase();
+      for (const event of creatorEvents) {
+        if (event.type === 'launch' || event.user.toLowerCase() !== me) continue;
+        const trades = tradesByHash.get(event.handleHash) || [];
+        trades.push({
+          type: event.type,
+          amount: event.amount,
+          value: Number(formatUnits(event.value, USDC_DECIMALS)),
+          timestamp: event.timestamp,
+        });
+        tradesByHash.set(event.handleHash, trades);
+      }
+    }
+
+    let totalRealizedPnL = 0;
+    let totalFeesPaid = 0;
+    let totalBought = 0;
+    const holdings: PortfolioHolding[] = [];
+
+    for (const c of creatorsWithStats) {
+      const basis = computeCostBasis(tradesByHash.get(getHandleHash(c.handle)) || [], costBasisMethod);
+      totalRealizedPnL += basis.realizedPnL;
+      totalFeesPaid += basis.feesPaid;
+      totalBought += basis.totalBought;
+      if (c.userShares <= 0) continue;
+
+      // 链上持仓多于索引记录时（回溯未完成），多出的部分没有成本可用，按已知单位成本估算
+      const avgBuyPrice = basis.avgCost || c.price;
+      const costBasis = avgBuyPrice * c.userShares;
+      const currentValue = c.userShares * c.price;
+      const unrealizedPnL = currentValue - costBasis;
+      const pnl = unrealizedPnL + basis.realizedPnL;
+      holdings.push({
+        creator: c,
+        amount: c.userShares,
+        currentValue,
+        avgBuyPrice,
+        costBasis,
+        unrealizedPnL,
+        realizedPnL: basis.realizedPnL,
+        feesPaid: basis.feesPaid,
+        pnl,
+        pnlPercent: basis.totalBought > 0 ? (pnl / basis.totalBought) * 100 : 0,
+        costBasisComplete: basis.shares === c.userShares,
+      });
+    }
+    holdings.sort((a, b) => b.currentValue - a.currentValue);
 
     const totalValue = holdings.reduce((sum, h) => sum + h.currentValue, 0);
-    const totalInvested = holdings.reduce((sum, h) => sum + (h.avgBuyPrice * h.amount), 0);
-    const totalPnL = totalValue - totalInvested;
+    const totalInvested = holdings.reduce((sum, h) => sum + h.costBasis, 0);
+    const totalUnrealizedPnL = totalValue - totalInvested;
+    const totalPnL = totalUnrealizedPnL + totalRealizedPnL;
 
     return {
+      method: costBasisMethod,
       totalValue,
       totalInvested,
+      totalUnrealizedPnL,
+      totalRealizedPnL,
+      totalFeesPaid,
       totalPnL,
-      totalPnLPercent: totalInvested > 0 ? (totalPnL / totalInvested) * 100 : 0,
+      totalPnLPercent: totalBought > 0 ? (totalPnL / totalBought) * 100 : 0,
       holdings,
     };
-  }, [creators]);
+  }, [creatorsWithStats, creatorEvents, address, costBasisMethod]);
 
   // ============ 其他方法 ============
   const getPriceHistory = useCallback((handle: string): PricePoint[] => priceHistory[handle] || [], [priceHistory]);
   const getRecentActivities = useCallback((limit: number = 20): Activity[] => activities.slice(0, limit), [activities]);
   const getCreatorActivities = useCallback((handle: string, limit: number = 10): Activity[] => 
     activities.filter(a => a.creatorHandle.toLowerCase() === handle.toLowerCase()).slice(0, limit), [activities]);
+  const getAddressActivities = useCallback((user: string, limit: number = 20): Activity[] =>
+    activities.filter(a => a.user.toLowerCase() === user.toLowerCase()).slice(0, limit), [activities]);
+
+  // ============ 实时订阅：别人的买卖只刷新对应 creator ============
+  const creatorsRef = useRef(creators);
+  creatorsRef.current = creators;
+
+  useContractEvents({
+    address: deployment?.creatorMarket,
+    abi: CREATOR_MARKET_EVENTS_ABI,
+    onLogs: async (logs) => {
+      const byHash = new Map(creatorsRef.current.map(c => [getHandleHash(c.handle), c.handle]));
+      const handles = [...new Set(
+        logs
+          .filter(log => log.eventName === 'SharesBought' || log.eventName === 'SharesSold')
+          .map(log => byHash.get(log.args.handle as `0x${string}`))
+          .filter((handle): handle is string => !!handle)
+      )];
+      const patches = await refreshCreators(handles);
+      patches?.forEach((patch, handle) => {
+        if (patch.price !== undefined) recordPrice(handle, patch.price);
+      });
+    },
+    onPoll: () => { refreshCreators(creatorsRef.current.map(c => c.handle)); },
+  });
 
   // ============ 初始化 ============
   useEffect(() => {
+    if (!deployment) {
+      setCreators([]);
+      return;
+    }
     if (publicClient) fetchCreators();
-  }, [publicClient, fetchCreators]);
+  }, [publicClient, deployment, fetchCreators]);
 
   useEffect(() => {
     if (publicClient && address) fetchCreators();
   }, [address]);
 
   return {
-    creators,
+    creators: creatorsWithStats,
     activities,
+    activitiesSyncing,
     portfolioStats,
+    costBasisMethod,
+    setCostBasisMethod,
     loading,
     registerCreator,
     buyShares,
     sellShares,
+    previewTrade,
     fetchCreators,
+    refreshCreators,
     refreshTwitterData, // 手动刷新单个
     getBuyPrice,
     getSellPrice,
@@ -700,5 +895,6 @@ export function useCreatorMarket() {
     getPriceHistory,
     getRecentActivities,
     getCreatorActivities,
+    getAddressActivities,
   };
 }
\ No newline at end of file
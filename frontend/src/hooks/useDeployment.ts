@@ -0,0 +1,18 @@
+'use client';
+
+import { useAccount, useChainId } from 'wagmi';
+import { getDeployment } from '@/constants/deployments';
+
+/// 当前网络的合约部署：已连接钱包时取钱包所在链，否则取默认链；没有部署时 deployment 为 undefined
+export function useDeployment() {
+  const { chainId: walletChainId, isConnected } = useAccount();
+  const configChainId = useChainId();
+  const chainId = isConnected && walletChainId !== undefined ? walletChainId : configChainId;
+  const deployment = getDeployment(chainId);
+
+  return {
+    chainId,
+    deployment,
+    isSupported: deployment !== undefined,
+  };
+}
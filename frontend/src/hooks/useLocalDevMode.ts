@@ -0,0 +1,60 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAccount } from 'wagmi';
+import { LOCAL_CHAIN_ID, getDeployment } from '@/constants/deployments';
+import { LocalNodeStatus, ensureLocalFunds, probeLocalNode } from '@/lib/localDev';
+import { useDeployment } from '@/hooks/useDeployment';
+
+// ============ Hook ============
+/// 开发环境下探测本地 Hardhat 节点；钱包连到本地链后自动发测试币（每个地址一次）
+export function useLocalDevMode(onFunded?: () => void) {
+  const { address } = useAccount();
+  const { chainId } = useDeployment();
+  const localDeployment = getDeployment(LOCAL_CHAIN_ID);
+
+  const [status, setStatus] = useState<LocalNodeStatus>('offline');
+  const [funding, setFunding] = useState(false);
+  const fundedRef = useRef(new Set<string>());
+  const onFundedRef = useRef(onFunded);
+  onFundedRef.current = onFunded;
+
+  const isLocalChain = chainId === LOCAL_CHAIN_ID;
+
+  // 探测节点（切换到本地链时重新探测，节点可能刚启动 / 刚部署）
+  useEffect(() => {
+    if (!localDeployment) return;
+    let cancelled = false;
+    probeLocalNode(localDeployment).then(result => {
+      if (!cancelled) setStatus(result);
+    });
+    return () => { cancelled = true; };
+  }, [localDeployment, isLocalChain]);
+
+  const fund = useCallback(async (force = true) => {
+    if (!localDeployment || !address) return;
+    setFunding(true);
+    try {
+      const funded = await ensureLocalFunds(localDeployment, address, force);
+      if (funded) onFundedRef.current?.();
+    } catch (error) {
+      console.error('Failed to fund local account:', error);
+    } finally {
+      setFunding(false);
+    }
+  }, [localDeployment, address]);
+
+  useEffect(() => {
+    if (!isLocalChain || status !== 'ready' || !address || fundedRef.current.has(address)) return;
+    fundedRef.current.add(address);
+    fund(false);
+  }, [isLocalChain, status, address, fund]);
+
+  return {
+    enabled: !!localDeployment,
+    status,
+    isLocalChain,
+    funding,
+    fund,
+  };
+}
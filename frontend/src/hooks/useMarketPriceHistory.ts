@@ -0,0 +1,101 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { PriceHistory } from '@/hooks/usePredictionMarket';
+import { normalizePrices } from '@/utils/marketMath';
+
+export interface ProbabilitySeries {
+  timestamps: number[];   // 毫秒
+  prices: number[][];     // 各选项概率（百分比，总和 100）
+}
+
+interface CacheEntry {
+  version: string;
+  promise: Promise<ProbabilitySeries>;
+  series?: ProbabilitySeries;
+}
+
+type GetPriceHistory = (marketId: number) => Promise<PriceHistory>;
+
+// 按市场缓存，多个卡片 / 反复展开不重复请求；version 变化（有新成交或结算）时才重新拉取
+// 外层按 getPriceHistory 区分：它随网络切换而变化，旧网络的缓存随之失效
+const caches = new WeakMap<GetPriceHistory, Map<number, CacheEntry>>();
+
+function getCache(getPriceHistory: GetPriceHistory): Map<number, CacheEntry> {
+  let cache = caches.get(getPriceHistory);
+  if (!cache) {
+    cache = new Map();
+    caches.set(getPriceHistory, cache);
+  }
+  return cache;
+}
+
+function loadPriceHistory(
+  marketId: number,
+  version: string,
+  getPriceHistory: GetPriceHistory
+): Promise<ProbabilitySeries> {
+  const cache = getCache(getPriceHistory);
+  const cached = cache.get(marketId);
+  if (cached && cached.version === version) return cached.promise;
+
+  const entry: CacheEntry = {
+    version,
+    promise: getPriceHistory(marketId).then(history => {
+      const series = {
+        timestamps: history.timestamps.map(ts => ts * 1000),
+        prices: history.prices.map(p => normalizePrices(p).map(bps => bps / 100)),
+      };
+      // 读取失败时返回空数组，不缓存以便下次重试
+      if (series.timestamps.length === 0 && cache.get(marketId) === entry) cache.delete(marketId);
+      else entry.series = series;
+      return series;
+    }),
+  };
+  cache.set(marketId, entry);
+  return entry.promise;
+}
+
+/// 读取合约记录的价格历史（getPriceHistory），version 一般取当前价格 + 状态
+export function useMarketPriceHistory(
+  marketId: number,
+  version: string,
+  getPriceHistory?: GetPriceHistory
+) {
+  const [series, setSeries] = useState<ProbabilitySeries | null>(() => {
+    const cached = getPriceHistory && getCache(getPriceHistory).get(marketId);
+    return cached?.version === version ? cached.series ?? null : null;
+  });
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!getPriceHistory) return;
+    let cancelled = false;
+
+    const cache = getCache(getPriceHistory);
+    const cached = cache.get(marketId);
+    if (cached?.version === version && cached.series) {
+      setSeries(cached.series);
+      return;
+    }
+
+    setLoading(true);
+    loadPriceHistory(marketId, version, getPriceHistory)
+      .then(result => {
+        if (!cancelled && result.timestamps.length > 0) setSeries(result);
+      })
+      .catch(error => {
+        if (cache.get(marketId)?.version === version) cache.delete(marketId);
+        console.error(`Failed to load price history for market ${marketId}:`, error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [marketId, version, getPriceHistory]);
+
+  return { series, loading };
+}
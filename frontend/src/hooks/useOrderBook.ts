@@ -0,0 +1,50 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { LimitOrder } from '@/hooks/usePredictionMarket';
+import { EMPTY_ORDER_BOOK, OrderBook, buildOrderBook } from '@/utils/orderBook';
+
+type GetMarketOrders = (marketId: number, outcomeIndex: number) => Promise<LimitOrder[]>;
+
+// ============ Hook ============
+/// 读取某个选项的挂单并聚合（orders 保留原始订单给分单路由用）；version 变化（有新挂单 / 成交 / 撤单）时重新读取，outcomeIndex 为 null 时不读
+export function useOrderBook(
+  marketId: number,
+  outcomeIndex: number | null,
+  version: string,
+  getMarketOrders?: GetMarketOrders
+) {
+  const [orders, setOrders] = useState<LimitOrder[]>([]);
+  const [book, setBook] = useState<OrderBook>(EMPTY_ORDER_BOOK);
+  const [loading, setLoading] = useState(false);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  useEffect(() => {
+    if (outcomeIndex === null || !getMarketOrders) {
+      setOrders([]);
+      setBook(EMPTY_ORDER_BOOK);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    getMarketOrders(marketId, outcomeIndex)
+      .then(result => {
+        if (cancelled) return;
+        setOrders(result);
+        setBook(buildOrderBook(result));
+      })
+      .catch(error => {
+        console.error(`Failed to load order book for market ${marketId}:`, error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [marketId, outcomeIndex, version, getMarketOrders, reloadCount]);
+
+  const refresh = useCallback(() => setReloadCount(n => n + 1), []);
+
+  return { orders, book, loading, refresh };
+}
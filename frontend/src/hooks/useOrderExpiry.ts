@@ -0,0 +1,58 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import type { LimitOrder } from '@/hooks/usePredictionMarket';
+
+// 合约按 block.timestamp 判断是否过期，本地时钟可能比出块时间快，多等一会儿再发
+const EXPIRY_GRACE_MS = 15_000;
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
+// ============ Hook ============
+/// 页面打开期间，自己的限价单一到期就调用 cancelExpiredOrder 退回押金 / 份额
+/// 每个订单本次会话只尝试一次（拒签后不会反复弹窗，订单列表里仍可手动撤单）；keeper 进程会兜底
+/// enabled=false 时不调度（合约没有 cancelExpiredOrder）
+export function useOrderExpiryScheduler(
+  orders: LimitOrder[],
+  cancelExpiredOrder: (orderId: number) => Promise<void>,
+  enabled = true
+) {
+  const [tick, setTick] = useState(0);
+  const attemptedRef = useRef(new Set<number>());
+  const runningRef = useRef(false);
+
+  // 回调在 effect 里读最新的
+  const cancelRef = useRef(cancelExpiredOrder);
+  cancelRef.current = cancelExpiredOrder;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const pending = orders.filter(o => o.status === 0 && o.expiresAt > 0 && !attemptedRef.current.has(o.id));
+    if (pending.length === 0) return;
+
+    const now = Date.now();
+    const due = pending.filter(o => o.expiresAt * 1000 + EXPIRY_GRACE_MS <= now);
+
+    if (due.length > 0 && !runningRef.current) {
+      runningRef.current = true;
+      (async () => {
+        for (const order of due) {
+          attemptedRef.current.add(order.id);
+          try {
+            console.log(`⏰ Order #${order.id} expired, cancelling...`);
+            await cancelRef.current(order.id);
+          } catch (error) {
+            console.error(`❌ Failed to cancel expired order #${order.id}:`, error);
+          }
+        }
+        runningRef.current = false;
+        setTick(t => t + 1);
+      })();
+      return;
+    }
+
+    // 等到下一个订单到期
+    const next = Math.min(...pending.map(o => o.expiresAt * 1000 + EXPIRY_GRACE_MS));
+    const timer = setTimeout(() => setTick(t => t + 1), Math.min(Math.max(next - now, 1000), MAX_TIMEOUT_MS));
+    return () => clearTimeout(timer);
+  }, [orders, tick, enabled]);
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useAccount, usePublicClient } from 'wagmi';
+import type { PublicClient } from 'viem';
+import { findDeployBlock } from '@/lib/logs';
+import {
+  HistoryRange,
+  MarketPriceSeries,
+  PredictionTrade,
+  UsdcTransfer,
+  buildPortfolioSeries,
+  fetchMarketPriceHistories,
+  fetchPredictionTrades,
+  fetchUsdcTransfers,
+} from '@/lib/portfolioHistory';
+import { useCreatorIndexer } from '@/hooks/useCreatorIndexer';
+import { useDeployment } from '@/hooks/useDeployment';
+import type { Creator } from '@/hooks/useCreatorMarket';
+
+export type { HistoryRange } from '@/lib/portfolioHistory';
+
+interface HistoryCache {
+  key: string;              // `${chainId}:${address}`
+  lastBlock: bigint | null;
+  trades: PredictionTrade[];
+  transfers: UsdcTransfer[];
+}
+
+const byTimestamp = (a: { timestamp: number }, b: { timestamp: number }) => a.timestamp - b.timestamp;
+
+function mergeById<T extends { id: string; timestamp: number }>(existing: T[], incoming: T[]): T[] {
+  if (incoming.length === 0) return existing;
+  const seen = new Set(existing.map(item => item.id));
+  return [...existing, ...incoming.filter(item => !seen.has(item.id))].sort(byTimestamp);
+}
+
+// ============ Hook ============
+/// 用链上交易回放当前地址的资产净值曲线（USDC + creator 持仓 + 预测市场持仓）
+export function usePortfolioHistory(range: HistoryRange, usdcBalance: string, creators: Creator[]) {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+  const { deployment } = useDeployment();
+  const { events: creatorEvents } = useCreatorIndexer();
+
+  const cacheRef = useRef<HistoryCache>({ key: '', lastBlock: null, trades: [], transfers: [] });
+  const [trades, setTrades] = useState<PredictionTrade[]>([]);
+  const [transfers, setTransfers] = useState<UsdcTransfer[]>([]);
+  const [priceHistories, setPriceHistories] = useState<Map<number, MarketPriceSeries>>(new Map());
+  const [loading, setLoading] = useState(false);
+
+  const sync = useCallback(async () => {
+    if (!publicClient || !address || !deployment) return;
+    const client = publicClient as PublicClient;
+
+    // 切换地址或网络时重新回溯
+    const key = `${deployment.chainId}:${address}`;
+    if (cacheRef.current.key !== key) {
+      cacheRef.current = { key, lastBlock: null, trades: [], transfers: [] };
+      setTrades([]);
+      setTransfers([]);
+      setPriceHistories(new Map());
+    }
+    const cache = cacheRef.current;
+
+    setLoading(true);
+    try {
+      const latest = await client.getBlockNumber();
+      const fromBlock = cache.lastBlock !== null
+        ? cache.lastBlock + 1n
+        : deployment.predictionMarketDeployBlock > 0n
+          ? deployment.predictionMarketDeployBlock
+          : await findDeployBlock(client, deployment.predictionMarket);
+
+      const [newTrades, newTransfers] = await Promise.all([
+        fetchPredictionTrades(client, deployment.predictionMarket, address, fromBlock, latest),
+        fetchUsdcTransfers(client, deployment.usdc, address, fromBlock, latest),
+      ]);
+      if (cacheRef.current !== cache) return;
+
+      cache.trades = mergeById(cache.trades, newTrades);
+      cache.transfers = mergeById(cache.transfers, newTransfers);
+      cache.lastBlock = latest;
+
+      const marketIds = [...new Set(cache.trades.map(t => t.marketId))];
+      const histories = marketIds.length > 0 ? await fetchMarketPriceHistories(client, deployment.predictionMarket, marketIds) : new Map();
+      if (cacheRef.current !== cache) return;
+
+      setTrades(cache.trades);
+      setTransfers(cache.transfers);
+      setPriceHistories(histories);
+    } catch (error) {
+      console.error('Failed to sync portfolio history:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [publicClient, address, deployment]);
+
+  // 余额变化说明有新的转账 / 交易，增量同步
+  useEffect(() => {
+    sync();
+  }, [sync, usdcBalance]);
+
+  const data = useMemo(() => {
+    if (!address || !deployment) return [];
+    return buildPortfolioSeries({
+      range,
+      now: Date.now(),
+      address,
+      usdcBalance: parseFloat(usdcBalance) || 0,
+      transfers,
+      creatorEvents,
+      creators,
+      predictionTrades: trades,
+      priceHistories,
+    });
+  }, [range, address, deployment, usdcBalance, transfers, creatorEvents, creators, trades, priceHistories]);
+
+  return { data, loading, refresh: sync };
+}
@@ -2,12 +2,21 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useAccount, usePublicClient, useWalletClient } from 'wagmi';
-import { parseUnits, formatUnits } from 'viem';
-import { 
-  PREDICTION_MARKET_ADDRESS, 
-  USDC_ADDRESS, 
-  USDC_DECIMALS,
-} from '@/constants/config';
+import { parseUnits, formatUnits, parseEventLogs, type PublicClient } from 'viem';
+import { USDC_DECIMALS } from '@/constants/config';
+import { multicallChunked } from '@/lib/multicall';
+import { TxPreview, previewTransaction, previewTransactions } from '@/lib/transactions';
+import { DEFAULT_PLATFORM_FEE_BPS, normalizePrices, quoteBuy, quoteSell } from '@/utils/marketMath';
+import { approvalAmount } from '@/utils/approvals';
+import { routeBuy } from '@/utils/orderRouter';
+import { isOrderExpired } from '@/utils/orderExpiry';
+import { adverseDeviationBps, assertWithinSlippage, formatBps, minWithSlippage } from '@/utils/slippage';
+import { decodeTxError, formatTxError } from '@/utils/txErrors';
+import { useContractEvents } from '@/hooks/useContractEvents';
+import { useDeployment } from '@/hooks/useDeployment';
+import { useTransactions } from '@/hooks/useTransactions';
+import { useSlippageTolerance } from '@/hooks/useSlippageTolerance';
+import { useApprovalPolicy } from '@/hooks/useApprovalPolicy';
 
 // ============ 定价算法枚举 ============
 export enum PricingAlgorithm {
@@ -42,23 +51,6 @@ const PREDICTION_MARKET_ABI = [
       { name: 'creator', type: 'address' },
     ],
   },
-  // 🆕 V4 新增：获取完整市场信息（含算法）
-  {
-    name: 'getMarketFullInfo',
-    type: 'function',
-    stateMutability: 'view',
-    inputs: [{ name: 'marketId', type: 'uint256' }],
-    outputs: [
-      { name: 'question', type: 'string' },
-      { name: 'category', type: 'string' },
-      { name: 'endTime', type: 'uint256' },
-      { name: 'status', type: 'uint8' },
-      { name: 'numOutcomes', type: 'uint8' },
-      { name: 'liquidityPool', type: 'uint256' },
-      { name: 'algorithm', type: 'uint8' },
-      { name: 'lmsrB', type: 'uint256' },
-    ],
-  },
   // 🆕 V4 新增：获取市场算法类型
   {
     name: 'getMarketAlgorithm',
@@ -131,6 +123,40 @@ const PREDICTION_MARKET_ABI = [
       ],
     }],
   },
+  {
+    name: 'getActiveOrders',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'marketId', type: 'uint256' },
+      { name: 'outcomeIndex', type: 'uint8' },
+    ],
+    outputs: [
+      { name: 'buyOrderIds', type: 'uint256[]' },
+      { name: 'sellOrderIds', type: 'uint256[]' },
+    ],
+  },
+  {
+    name: 'getOrderInfo',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'orderId', type: 'uint256' }],
+    outputs: [{
+      type: 'tuple',
+      components: [
+        { name: 'id', type: 'uint256' },
+        { name: 'marketId', type: 'uint256' },
+        { name: 'user', type: 'address' },
+        { name: 'outcomeIndex', type: 'uint8' },
+        { name: 'shares', type: 'uint256' },
+        { name: 'price', type: 'uint256' },
+        { name: 'usdcDeposit', type: 'uint256' },
+        { name: 'timestamp', type: 'uint256' },
+        { name: 'isBuy', type: 'bool' },
+        { name: 'status', type: 'uint8' },
+      ],
+    }],
+  },
   {
     name: 'owner',
     type: 'function',
@@ -138,6 +164,35 @@ const PREDICTION_MARKET_ABI = [
     inputs: [],
     outputs: [{ type: 'address' }],
   },
+  {
+    name: 'platformFee',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ type: 'uint256' }],
+  },
+  // 公开数组 getter（读取 creatorFee 用于本地报价、resolutionTime 用于走势图结算标记）
+  {
+    name: 'markets',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'index', type: 'uint256' }],
+    outputs: [
+      { name: 'question', type: 'string' },
+      { name: 'imageUrl', type: 'string' },
+      { name: 'category', type: 'string' },
+      { name: 'endTime', type: 'uint256' },
+      { name: 'resolutionTime', type: 'uint256' },
+      { name: 'status', type: 'uint8' },
+      { name: 'numOutcomes', type: 'uint8' },
+      { name: 'winnerIndex', type: 'uint8' },
+      { name: 'liquidityPool', type: 'uint256' },
+      { name: 'creator', type: 'address' },
+      { name: 'creatorFee', type: 'uint256' },
+      { name: 'algorithm', type: 'uint8' },
+      { name: 'lmsrB', type: 'uint256' },
+    ],
+  },
   // === 写入函数 ===
   {
     name: 'createMarket',
@@ -227,6 +282,58 @@ const PREDICTION_MARKET_ABI = [
     ],
     outputs: [{ type: 'uint256' }],
   },
+  {
+    name: 'placeBuyOrderWithExpiry',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'marketId', type: 'uint256' },
+      { name: 'outcomeIndex', type: 'uint8' },
+      { name: 'shares', type: 'uint256' },
+      { name: 'price', type: 'uint256' },
+      { name: 'expiry', type: 'uint256' },
+    ],
+    outputs: [{ type: 'uint256' }],
+  },
+  {
+    name: 'placeSellOrderWithExpiry',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'marketId', type: 'uint256' },
+      { name: 'outcomeIndex', type: 'uint8' },
+      { name: 'shares', type: 'uint256' },
+      { name: 'price', type: 'uint256' },
+      { name: 'expiry', type: 'uint256' },
+    ],
+    outputs: [{ type: 'uint256' }],
+  },
+  {
+    name: 'orderExpiry',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'orderId', type: 'uint256' }],
+    outputs: [{ type: 'uint256' }],
+  },
+  {
+    name: 'cancelExpiredOrder',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'orderId', type: 'uint256' }],
+    outputs: [],
+  },
+  {
+    name: 'takeSellOrders',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'marketId', type: 'uint256' },
+      { name: 'outcomeIndex', type: 'uint8' },
+      { name: 'orderIds', type: 'uint256[]' },
+      { name: 'shareAmounts', type: 'uint256[]' },
+    ],
+    outputs: [{ name: 'totalShares', type: 'uint256' }, { name: 'totalCost', type: 'uint256' }],
+  },
   {
     name: 'cancelOrder',
     type: 'function',
@@ -241,6 +348,13 @@ const PREDICTION_MARKET_ABI = [
     inputs: [{ name: 'marketId', type: 'uint256' }],
     outputs: [{ type: 'uint256' }],
   },
+  {
+    name: 'claimRefund',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'marketId', type: 'uint256' }],
+    outputs: [{ type: 'uint256' }],
+  },
   {
     name: 'resolveMarket',
     type: 'function',
@@ -251,6 +365,13 @@ const PREDICTION_MARKET_ABI = [
     ],
     outputs: [],
   },
+  {
+    name: 'cancelMarket',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'marketId', type: 'uint256' }],
+    outputs: [],
+  },
 ] as const;
 
 const USDC_ABI = [
@@ -293,6 +414,65 @@ const USDC_ABI = [
   },
 ] as const;
 
+// 实时刷新订阅的事件（只用来定位受影响的市场）
+const PREDICTION_MARKET_EVENTS_ABI = [
+  {
+    name: 'SharesPurchased',
+    type: 'event',
+    inputs: [
+      { name: 'marketId', type: 'uint256', indexed: true },
+      { name: 'buyer', type: 'address', indexed: true },
+      { name: 'outcomeIndex', type: 'uint8', indexed: false },
+      { name: 'usdcAmount', type: 'uint256', indexed: false },
+      { name: 'shares', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'SharesSold',
+    type: 'event',
+    inputs: [
+      { name: 'marketId', type: 'uint256', indexed: true },
+      { name: 'seller', type: 'address', indexed: true },
+      { name: 'outcomeIndex', type: 'uint8', indexed: false },
+      { name: 'shares', type: 'uint256', indexed: false },
+      { name: 'usdcOut', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'OrderPlaced',
+    type: 'event',
+    inputs: [
+      { name: 'marketId', type: 'uint256', indexed: true },
+      { name: 'orderId', type: 'uint256', indexed: true },
+      { name: 'user', type: 'address', indexed: false },
+      { name: 'outcomeIndex', type: 'uint8', indexed: false },
+      { name: 'isBuy', type: 'bool', indexed: false },
+      { name: 'shares', type: 'uint256', indexed: false },
+      { name: 'price', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'MarketResolved',
+    type: 'event',
+    inputs: [
+      { name: 'marketId', type: 'uint256', indexed: true },
+      { name: 'winnerIndex', type: 'uint8', indexed: false },
+    ],
+  },
+] as const;
+
+// 分单买入核对订单簿成交用（不带 marketId，不参与实时刷新订阅）
+const ORDER_FILLED_EVENT_ABI = [
+  {
+    name: 'OrderFilled',
+    type: 'event',
+    inputs: [
+      { name: 'orderId', type: 'uint256', indexed: true },
+      { name: 'filledShares', type: 'uint256', indexed: false },
+    ],
+  },
+] as const;
+
 // ============ 类型定义 ============
 export interface Market {
   id: number;
@@ -300,6 +480,7 @@ export interface Market {
   category: string;
   imageUrl?: string;
   endTime: number;
+  resolutionTime: number;   // 实际结算时间（未结算为 0）
   status: number;
   numOutcomes: number;
   outcomeLabels: string[];
@@ -315,6 +496,9 @@ export interface Market {
   algorithm: PricingAlgorithm;
   algorithmName: string;
   lmsrB: bigint;
+  // 手续费（基点），供本地报价使用
+  creatorFee: number;
+  platformFee: number;
   // 兼容旧接口
   yesShares: bigint;
   noShares: bigint;
@@ -336,6 +520,7 @@ export interface LimitOrder {
   timestamp: number;
   isBuy: boolean;
   status: number;
+  expiresAt: number;      // 秒，0 = 一直有效
 }
 
 export interface PriceHistory {
@@ -356,37 +541,244 @@ export interface CreateMarketParams {
   lmsrB?: string; // LMSR 流动性参数（如 "100"）
 }
 
+// 交易面板里预估的操作（数量为用户输入的字符串）
+export type TradeRequest =
+  | { type: 'buy'; marketId: number; outcomeIndex: number; amount: string }
+  | { type: 'sell'; marketId: number; outcomeIndex: number; shares: string }
+  | { type: 'limitBuy' | 'limitSell'; marketId: number; outcomeIndex: number; shares: string; price: number; expirySeconds?: number }
+  // 分单买入：先 takeSellOrders 再 buyShares，两笔都要模拟
+  | { type: 'routedBuy'; marketId: number; outcomeIndex: number; bookLegs: { orderId: number; shares: string }[]; ammUsdc: string };
+
+// ============ 订单 ============
+function toLimitOrder(order: any, expiry: bigint = 0n): LimitOrder {
+  return {
+    id: Number(order.id),
+    marketId: Number(order.marketId),
+    user: order.user,
+    outcomeIndex: Number(order.outcomeIndex),
+    shares: order.shares,
+    price: Number(order.price),
+    usdcDeposit: order.usdcDeposit,
+    timestamp: Number(order.timestamp),
+    isBuy: order.isBuy,
+    status: Number(order.status),
+    expiresAt: Number(expiry),
+  };
+}
+
+/// 各订单的到期时间（旧合约没有 orderExpiry，读取失败按一直有效处理）
+async function loadOrderExpiries(publicClient: PublicClient, predictionMarket: `0x${string}`, ids: readonly bigint[]): Promise<bigint[]> {
+  const results = await multicallChunked(publicClient, ids.map(id => ({
+    address: predictionMarket, abi: PREDICTION_MARKET_ABI, functionName: 'orderExpiry', args: [id],
+  })));
+  return results.map(r => (r.status === 'success' ? r.result as bigint : 0n));
+}
+
+// ============ 合约版本 ============
+/// 部署的合约支持的功能（Sepolia 上的旧合约早于限价单到期和订单簿分单）
+export interface ContractFeatures {
+  orderExpiry: boolean;     // orderExpiry / placeXxxOrderWithExpiry / cancelExpiredOrder
+  orderRouting: boolean;    // takeSellOrders
+}
+
+const NO_FEATURES: ContractFeatures = { orderExpiry: false, orderRouting: false };
+
+/// orderExpiry 能读到说明支持限价单到期；
+/// 用长度不一致的参数预演 takeSellOrders：新合约以 "Length mismatch" revert，旧合约没有这个函数，revert 不带原因
+async function detectFeatures(client: PublicClient, predictionMarket: `0x${string}`): Promise<ContractFeatures> {
+  const [orderExpiry, orderRouting] = await Promise.all([
+    client.readContract({
+      address: predictionMarket,
+      abi: PREDICTION_MARKET_ABI,
+      functionName: 'orderExpiry',
+      args: [0n],
+    }).then(() => true, () => false),
+    client.simulateContract({
+      address: predictionMarket,
+      abi: PREDICTION_MARKET_ABI,
+      functionName: 'takeSellOrders',
+      args: [0n, 0, [], [1n]],
+    }).then(() => true, error => decodeTxError(error).reason === 'Length mismatch'),
+  ]);
+  return { orderExpiry, orderRouting };
+}
+
+// ============ 市场加载 ============
+// 算法名称映射
+function getAlgorithmName(algo: number): string {
+  switch (algo) {
+    case 0: return 'CPMM';
+    case 1: return 'LMSR';
+    default: return 'Unknown';
+  }
+}
+
+/// multicall 批量读取：先读市场信息，再批量读未删除市场的详情；单个市场失败只跳过它自己。
+/// deleted 为本次读到已删除（status 3）的市场，增量刷新时据此从列表中移除
+async function loadMarkets(
+  client: PublicClient,
+  marketAddress: `0x${string}`,
+  ids: bigint[],
+  address?: `0x${string}`
+): Promise<{ list: Market[]; deleted: number[] }> {
+  const MARKET_CONTRACT = { address: marketAddress, abi: PREDICTION_MARKET_ABI } as const;
+  const [infoResults, platformFee] = await Promise.all([
+    multicallChunked(
+      client,
+      ids.map((id) => ({ ...MARKET_CONTRACT, functionName: 'getMarketInfo', args: [id] }))
+    ),
+    client.readContract({ ...MARKET_CONTRACT, functionName: 'platformFee' })
+      .then(Number)
+      .catch(() => DEFAULT_PLATFORM_FEE_BPS),
+  ]);
+
+  // 跳过读取失败和已删除的市场
+  const deleted = ids
+    .filter((_, i) => infoResults[i].status === 'success' && Number((infoResults[i].result as any)[4]) === 3)
+    .map(Number);
+  const live = ids
+    .map((id, i) => ({ id, info: infoResults[i] }))
+    .filter(({ id, info }) => {
+      if (info.status === 'failure') {
+        console.error(`Failed to fetch market ${id}:`, info.error);
+        return false;
+      }
+      return Number((info.result as any)[4]) !== 3;
+    });
+
+  // 每个市场的详情调用：算法、结果、价格、市场结构体（creatorFee），连接钱包时再加用户持仓
+  const callsPerMarket = address ? 5 : 4;
+  const detailResults = await multicallChunked(
+    client,
+    live.flatMap(({ id }) => [
+      { ...MARKET_CONTRACT, functionName: 'getMarketAlgorithm', args: [id] },
+      { ...MARKET_CONTRACT, functionName: 'getMarketOutcomes', args: [id] },
+      { ...MARKET_CONTRACT, functionName: 'getPrices', args: [id] },
+      { ...MARKET_CONTRACT, functionName: 'markets', args: [id] },
+      ...(address ? [{ ...MARKET_CONTRACT, functionName: 'getUserPosition', args: [id, address] }] : []),
+    ])
+  );
+
+  const list: Market[] = [];
+
+  live.forEach(({ id, info: infoResult }, index) => {
+    const i = Number(id);
+    const info = infoResult.result as any;
+    const [algoResult, outcomesResult, pricesResult, structResult, positionResult] =
+      detailResults.slice(index * callsPerMarket, (index + 1) * callsPerMarket);
+
+    if (outcomesResult.status === 'failure' || pricesResult.status === 'failure') {
+      console.error(`Failed to fetch market ${i}:`, outcomesResult.error ?? pricesResult.error);
+      return;
+    }
+
+    // 🆕 算法信息（调用失败可能是旧版合约，默认 CPMM）
+    let algorithm: PricingAlgorithm = PricingAlgorithm.CPMM;
+    let lmsrB: bigint = 0n;
+    if (algoResult.status === 'success') {
+      const algoInfo = algoResult.result as any;
+      algorithm = Number(algoInfo[0]) as PricingAlgorithm;
+      lmsrB = algoInfo[1];
+    }
+
+    const outcomes = outcomesResult.result as any;
+    const rawPrices = pricesResult.result as bigint[];
+
+    const normalizedPrices = normalizePrices(rawPrices);
+    const creatorFee = structResult.status === 'success' ? Number((structResult.result as any)[10]) : 0;
+    const resolutionTime = structResult.status === 'success' ? Number((structResult.result as any)[4]) : 0;
+
+    let userShares: bigint[] = [];
+    let hasClaimed = false;
+
+    if (positionResult?.status === 'success') {
+      const position = positionResult.result as any;
+      userShares = [...position[0]];
+      hasClaimed = position[1];
+    } else if (positionResult) {
+      console.error('Failed to get user position:', positionResult.error);
+    }
+
+    const numOutcomes = Number(info[5]);
+
+    list.push({
+      id: i,
+      question: info[0],
+      category: info[1],
+      imageUrl: info[2],
+      endTime: Number(info[3]),
+      resolutionTime,
+      status: Number(info[4]),
+      numOutcomes,
+      outcomeLabels: [...outcomes[0]],
+      outcomeShares: [...outcomes[1]],
+      prices: normalizedPrices,
+      liquidityPool: info[6],
+      winnerIndex: Number(info[7]),
+      creator: info[8],
+      userShares: userShares.length > 0 ? userShares : Array(numOutcomes).fill(0n),
+      hasClaimed,
+      volume: formatUnits(info[6] as bigint, USDC_DECIMALS),
+      // 🆕 算法信息
+      algorithm,
+      algorithmName: getAlgorithmName(algorithm),
+      lmsrB,
+      creatorFee,
+      platformFee,
+      // 兼容旧接口
+      yesPrice: Math.round(normalizedPrices[0] / 100),
+      noPrice: normalizedPrices.length > 1 ? Math.round(normalizedPrices[1] / 100) : Math.round((10000 - normalizedPrices[0]) / 100),
+      userYesShares: userShares[0] || 0n,
+      userNoShares: userShares[1] || 0n,
+      outcome: Number(info[7]) === 0,
+      yesShares: outcomes[1][0] || 0n,
+      noShares: outcomes[1][1] || 0n,
+    });
+  });
+
+  return { list, deleted };
+}
+
 // ============ Hook ============
 export function usePredictionMarket() {
   const { address, isConnected } = useAccount();
   const publicClient = usePublicClient();
   const { data: walletClient } = useWalletClient();
+  const { deployment } = useDeployment();
+  const { track, run, flag } = useTransactions();
+  const { toleranceBps } = useSlippageTolerance();
+  const { policy: approvalPolicy } = useApprovalPolicy();
 
   const [isOwner, setIsOwner] = useState(false);
   const [markets, setMarkets] = useState<Market[]>([]);
   const [userOrders, setUserOrders] = useState<LimitOrder[]>([]);
   const [loading, setLoading] = useState(false);
   const [usdcBalance, setUsdcBalance] = useState('0');
+  const [features, setFeatures] = useState<ContractFeatures>(NO_FEATURES);
 
-  // 算法名称映射
-  const getAlgorithmName = (algo: number): string => {
-    switch (algo) {
-      case 0: return 'CPMM';
-      case 1: return 'LMSR';
-      default: return 'Unknown';
+  // 探测合约版本，旧部署上不提供对应的入口
+  useEffect(() => {
+    if (!publicClient || !deployment) {
+      setFeatures(NO_FEATURES);
+      return;
     }
-  };
+    let cancelled = false;
+    detectFeatures(publicClient, deployment.predictionMarket).then(detected => {
+      if (!cancelled) setFeatures(detected);
+    });
+    return () => { cancelled = true; };
+  }, [publicClient, deployment]);
 
   // 检查是否是 owner
   useEffect(() => {
     const checkOwner = async () => {
-      if (!publicClient || !address) {
+      if (!publicClient || !address || !deployment) {
         setIsOwner(false);
         return;
       }
       try {
         const owner = await publicClient.readContract({
-          address: PREDICTION_MARKET_ADDRESS as `0x${string}`,
+          address: deployment.predictionMarket,
           abi: PREDICTION_MARKET_ABI,
           functionName: 'owner',
         });
@@ -396,14 +788,14 @@ export function usePredictionMarket() {
       }
     };
     checkOwner();
-  }, [publicClient, address]);
+  }, [publicClient, deployment, address]);
 
   // 获取 USDC 余额
   const fetchBalance = useCallback(async () => {
-    if (!publicClient || !address) return;
+    if (!publicClient || !address || !deployment) return;
     try {
       const balance = await publicClient.readContract({
-        address: USDC_ADDRESS as `0x${string}`,
+        address: deployment.usdc,
         abi: USDC_ABI,
         functionName: 'balanceOf',
         args: [address],
@@ -412,124 +804,21 @@ export function usePredictionMarket() {
     } catch (error) {
       console.error('Failed to fetch balance:', error);
     }
-  }, [publicClient, address]);
+  }, [publicClient, deployment, address]);
 
   // 获取市场列表
   const fetchMarkets = useCallback(async () => {
-    if (!publicClient) return;
+    if (!publicClient || !deployment) return;
     setLoading(true);
 
     try {
       const count = await publicClient.readContract({
-        address: PREDICTION_MARKET_ADDRESS as `0x${string}`,
+        address: deployment.predictionMarket,
         abi: PREDICTION_MARKET_ABI,
         functionName: 'getMarketCount',
       });
-
-      const list: Market[] = [];
-
-      for (let i = 0; i < Number(count); i++) {
-        try {
-          const info = await publicClient.readContract({
-            address: PREDICTION_MARKET_ADDRESS as `0x${string}`,
-            abi: PREDICTION_MARKET_ABI,
-            functionName: 'getMarketInfo',
-            args: [BigInt(i)],
-          }) as any;
-
-          // 跳过已删除的市场
-          if (Number(info[4]) === 3) continue;
-
-          // 🆕 获取算法信息
-          let algorithm: PricingAlgorithm = PricingAlgorithm.CPMM;
-          let lmsrB: bigint = 0n;
-          try {
-            const algoInfo = await publicClient.readContract({
-              address: PREDICTION_MARKET_ADDRESS as `0x${string}`,
-              abi: PREDICTION_MARKET_ABI,
-              functionName: 'getMarketAlgorithm',
-              args: [BigInt(i)],
-            }) as any;
-            algorithm = Number(algoInfo[0]) as PricingAlgorithm;
-            lmsrB = algoInfo[1];
-          } catch {
-            // 如果调用失败，可能是旧版合约，默认 CPMM
-          }
-
-          const outcomes = await publicClient.readContract({
-            address: PREDICTION_MARKET_ADDRESS as `0x${string}`,
-            abi: PREDICTION_MARKET_ABI,
-            functionName: 'getMarketOutcomes',
-            args: [BigInt(i)],
-          }) as any;
-
-          const rawPrices = await publicClient.readContract({
-            address: PREDICTION_MARKET_ADDRESS as `0x${string}`,
-            abi: PREDICTION_MARKET_ABI,
-            functionName: 'getPrices',
-            args: [BigInt(i)],
-          }) as bigint[];
-
-          const rawPriceNumbers = rawPrices.map((p) => Number(p));
-          const priceSum = rawPriceNumbers.reduce((a, b) => a + b, 0);
-          const normalizedPrices = priceSum > 0
-            ? rawPriceNumbers.map((p) => Math.round((p / priceSum) * 10000))
-            : rawPriceNumbers;
-
-          let userShares: bigint[] = [];
-          let hasClaimed = false;
-
-          if (address) {
-            try {
-              const position = await publicClient.readContract({
-                address: PREDICTION_MARKET_ADDRESS as `0x${string}`,
-                abi: PREDICTION_MARKET_ABI,
-                functionName: 'getUserPosition',
-                args: [BigInt(i), address],
-              }) as any;
-              userShares = [...position[0]];
-              hasClaimed = position[1];
-            } catch (e) {
-              console.error('Failed to get user position:', e);
-            }
-          }
-
-          const numOutcomes = Number(info[5]);
-
-          list.push({
-            id: i,
-            question: info[0],
-            category: info[1],
-            imageUrl: info[2],
-            endTime: Number(info[3]),
-            status: Number(info[4]),
-            numOutcomes,
-            outcomeLabels: [...outcomes[0]],
-            outcomeShares: [...outcomes[1]],
-            prices: normalizedPrices,
-            liquidityPool: info[6],
-            winnerIndex: Number(info[7]),
-            creator: info[8],
-            userShares: userShares.length > 0 ? userShares : Array(numOutcomes).fill(0n),
-            hasClaimed,
-            volume: formatUnits(info[6] as bigint, USDC_DECIMALS),
-            // 🆕 算法信息
-            algorithm,
-            algorithmName: getAlgorithmName(algorithm),
-            lmsrB,
-            // 兼容旧接口
-            yesPrice: Math.round(normalizedPrices[0] / 100),
-            noPrice: normalizedPrices.length > 1 ? Math.round(normalizedPrices[1] / 100) : Math.round((10000 - normalizedPrices[0]) / 100),
-            userYesShares: userShares[0] || 0n,
-            userNoShares: userShares[1] || 0n,
-            outcome: Number(info[7]) === 0,
-            yesShares: outcomes[1][0] || 0n,
-            noShares: outcomes[1][1] || 0n,
-          });
-        } catch (e) {
-          console.error(`Failed to fetch market ${i}:`, e);
-        }
-      }
+      const ids = Array.from({ length: Number(count) }, (_, i) => BigInt(i));
+      const { list } = await loadMarkets(publicClient as PublicClient, deployment.predictionMarket, ids, address);
 
       list.sort((a, b) => b.id - a.id);
       setMarkets(list);
@@ -538,40 +827,95 @@ export function usePredictionMarket() {
     } finally {
       setLoading(false);
     }
-  }, [publicClient, address]);
+  }, [publicClient, deployment, address]);
+
+  // 只重新读取指定市场并就地替换（不传 ids 时刷新全部，不触发 loading）
+  const refreshMarkets = useCallback(async (ids?: number[]) => {
+    if (!publicClient || !deployment) return;
+    try {
+      let targets: bigint[];
+      if (ids) {
+        targets = ids.map(BigInt);
+      } else {
+        const count = await publicClient.readContract({
+          address: deployment.predictionMarket,
+          abi: PREDICTION_MARKET_ABI,
+          functionName: 'getMarketCount',
+        });
+        targets = Array.from({ length: Number(count) }, (_, i) => BigInt(i));
+      }
+      if (targets.length === 0) return;
+
+      const { list: updated, deleted } = await loadMarkets(publicClient as PublicClient, deployment.predictionMarket, targets, address);
+      if (updated.length === 0 && deleted.length === 0) return;
+
+      // 被删除的市场和 fetchMarkets 一样从列表中去掉
+      const replacedIds = new Set([...updated.map(m => m.id), ...deleted]);
+      setMarkets(prev => [...prev.filter(m => !replacedIds.has(m.id)), ...updated].sort((a, b) => b.id - a.id));
+    } catch (error) {
+      console.error('Failed to refresh markets:', error);
+    }
+  }, [publicClient, deployment, address]);
+
+  // 其他人的交易 / 挂单 / 结算只刷新受影响的市场
+  useContractEvents({
+    address: deployment?.predictionMarket,
+    abi: PREDICTION_MARKET_EVENTS_ABI,
+    onLogs: (logs) => {
+      const ids = [...new Set(logs.map(log => log.args.marketId).filter((id): id is bigint => id !== undefined))];
+      if (ids.length > 0) refreshMarkets(ids.map(Number));
+    },
+    onPoll: () => { refreshMarkets(); },
+  });
 
   // 获取用户订单
   const fetchUserOrders = useCallback(async () => {
-    if (!publicClient || !address) return;
+    if (!publicClient || !address || !deployment) return;
     try {
       const orders = await publicClient.readContract({
-        address: PREDICTION_MARKET_ADDRESS as `0x${string}`,
+        address: deployment.predictionMarket,
         abi: PREDICTION_MARKET_ABI,
         functionName: 'getAllUserActiveOrders',
         args: [address],
       }) as any[];
 
-      const formattedOrders: LimitOrder[] = orders.map((order) => ({
-        id: Number(order.id),
-        marketId: Number(order.marketId),
-        user: order.user,
-        outcomeIndex: Number(order.outcomeIndex),
-        shares: order.shares,
-        price: Number(order.price),
-        usdcDeposit: order.usdcDeposit,
-        timestamp: Number(order.timestamp),
-        isBuy: order.isBuy,
-        status: Number(order.status),
-      }));
-
-      setUserOrders(formattedOrders);
+      const expiries = await loadOrderExpiries(publicClient, deployment.predictionMarket, orders.map(o => o.id));
+      setUserOrders(orders.map((o, i) => toLimitOrder(o, expiries[i])));
     } catch (error) {
       console.error('Failed to fetch user orders:', error);
     }
-  }, [publicClient, address]);
+  }, [publicClient, deployment, address]);
+
+  // 某个选项的全部挂单（getActiveOrders 返回的 id 包含已成交 / 已撤销的，按 status 过滤；已过期的不能再成交，一并去掉）
+  const getMarketOrders = useCallback(async (marketId: number, outcomeIndex: number): Promise<LimitOrder[]> => {
+    if (!publicClient || !deployment) return [];
+    const contract = { address: deployment.predictionMarket, abi: PREDICTION_MARKET_ABI } as const;
+    const [buyIds, sellIds] = await publicClient.readContract({
+      ...contract,
+      functionName: 'getActiveOrders',
+      args: [BigInt(marketId), outcomeIndex],
+    });
+    const ids = [...buyIds, ...sellIds];
+    const [results, expiries] = await Promise.all([
+      multicallChunked(publicClient, ids.map(id => ({
+        ...contract, functionName: 'getOrderInfo', args: [id],
+      }))),
+      loadOrderExpiries(publicClient, deployment.predictionMarket, ids),
+    ]);
+    const now = Math.floor(Date.now() / 1000);
+    return results
+      .flatMap((r, i) => (r.status === 'success' ? [toLimitOrder(r.result, expiries[i])] : []))
+      .filter(order => order.status === 0 && !isOrderExpired(order, now));
+  }, [publicClient, deployment]);
 
-  // 初始化加载
+  // 初始化加载（切换到没有部署的网络时清空上一个网络的数据）
   useEffect(() => {
+    if (!deployment) {
+      setMarkets([]);
+      setUserOrders([]);
+      setUsdcBalance('0');
+      return;
+    }
     if (publicClient) {
       fetchMarkets();
       fetchBalance();
@@ -579,44 +923,51 @@ export function usePredictionMarket() {
         fetchUserOrders();
       }
     }
-  }, [publicClient, address, fetchMarkets, fetchBalance, fetchUserOrders]);
+  }, [publicClient, deployment, address, fetchMarkets, fetchBalance, fetchUserOrders]);
 
-  // 确保 allowance
+  // 确保 allowance（approve 金额按用户的授权策略）
   const ensureAllowance = useCallback(async (requiredAmount: bigint) => {
-    if (!publicClient || !walletClient || !address) return;
+    if (!publicClient || !walletClient || !address || !deployment) return;
 
     const currentAllowance = await publicClient.readContract({
-      address: USDC_ADDRESS as `0x${string}`,
+      address: deployment.usdc,
       abi: USDC_ABI,
       functionName: 'allowance',
-      args: [address, PREDICTION_MARKET_ADDRESS as `0x${string}`],
+      args: [address, deployment.predictionMarket],
     }) as bigint;
 
     if (currentAllowance < requiredAmount) {
-      const approveAmount = requiredAmount * 10n;
-      const hash = await walletClient.writeContract({
-        address: USDC_ADDRESS as `0x${string}`,
+      const approveAmount = approvalAmount(requiredAmount, approvalPolicy);
+      const { request } = await publicClient.simulateContract({
+        account: walletClient.account,
+        address: deployment.usdc,
         abi: USDC_ABI,
         functionName: 'approve',
-        args: [PREDICTION_MARKET_ADDRESS as `0x${string}`, approveAmount],
+        args: [deployment.predictionMarket, approveAmount],
       });
-      await publicClient.waitForTransactionReceipt({ hash });
+      const hash = await walletClient.writeContract(request);
+      await track(hash, 'Approve USDC');
     }
-  }, [publicClient, walletClient, address]);
+  }, [publicClient, deployment, walletClient, address, approvalPolicy, track]);
 
   // Faucet
   const faucet = useCallback(async (amount: string) => {
-    if (!walletClient || !publicClient || !address) return;
-    const amountWei = parseUnits(amount, USDC_DECIMALS);
-    const hash = await walletClient.writeContract({
-      address: USDC_ADDRESS as `0x${string}`,
-      abi: USDC_ABI,
-      functionName: 'mint',
-      args: [address, amountWei],
+    const label = `Mint ${amount} test USDC`;
+    return run(label, async () => {
+      if (!walletClient || !publicClient || !address || !deployment) return;
+      const amountWei = parseUnits(amount, USDC_DECIMALS);
+      const { request } = await publicClient.simulateContract({
+        account: walletClient.account,
+        address: deployment.usdc,
+        abi: USDC_ABI,
+        functionName: 'mint',
+        args: [address, amountWei],
+      });
+      const hash = await walletClient.writeContract(request);
+      await track(hash, label);
+      await fetchBalance();
     });
-    await publicClient.waitForTransactionReceipt({ hash });
-    await fetchBalance();
-  }, [walletClient, publicClient, address, fetchBalance]);
+  }, [walletClient, publicClient, deployment, address, fetchBalance, track, run]);
 
   // 🆕 创建市场（支持算法选择）
   const createMarket = useCallback(async (
@@ -630,53 +981,61 @@ export function usePredictionMarket() {
     algorithm: PricingAlgorithm = PricingAlgorithm.CPMM,
     lmsrB: string = '100' // 默认 LMSR 参数
   ) => {
-    if (!walletClient || !publicClient) throw new Error('Not connected');
-    const liquidityWei = parseUnits(initialLiquidity, USDC_DECIMALS);
-    await ensureAllowance(liquidityWei);
+    const label = `Create market "${question}"`;
+    return run(label, async () => {
+      if (!walletClient || !publicClient) throw new Error('Not connected');
+      if (!deployment) throw new Error('Unsupported network');
+      const liquidityWei = parseUnits(initialLiquidity, USDC_DECIMALS);
+      await ensureAllowance(liquidityWei);
 
-    let hash: `0x${string}`;
+      let hash: `0x${string}`;
 
-    if (algorithm === PricingAlgorithm.LMSR) {
-      // 使用 LMSR 算法创建市场
-      const lmsrBWei = parseUnits(lmsrB, 18); // LMSR b 参数使用 18 位精度
-      hash = await walletClient.writeContract({
-        address: PREDICTION_MARKET_ADDRESS as `0x${string}`,
-        abi: PREDICTION_MARKET_ABI,
-        functionName: 'createMarketWithAlgorithm',
-        args: [
-          question, 
-          category, 
-          imageUrl, 
-          BigInt(durationDays * 24 * 60 * 60), 
-          liquidityWei, 
-          BigInt(creatorFeeBps), 
-          outcomeLabels,
-          algorithm,
-          lmsrBWei,
-        ],
-      });
-    } else {
-      // 使用默认 CPMM 算法
-      hash = await walletClient.writeContract({
-        address: PREDICTION_MARKET_ADDRESS as `0x${string}`,
-        abi: PREDICTION_MARKET_ABI,
-        functionName: 'createMarket',
-        args: [
-          question, 
-          category, 
-          imageUrl, 
-          BigInt(durationDays * 24 * 60 * 60), 
-          liquidityWei, 
-          BigInt(creatorFeeBps), 
-          outcomeLabels
-        ],
-      });
-    }
+      if (algorithm === PricingAlgorithm.LMSR) {
+        // 使用 LMSR 算法创建市场
+        const lmsrBWei = parseUnits(lmsrB, 18); // LMSR b 参数使用 18 位精度
+        const { request } = await publicClient.simulateContract({
+          account: walletClient.account,
+          address: deployment.predictionMarket,
+          abi: PREDICTION_MARKET_ABI,
+          functionName: 'createMarketWithAlgorithm',
+          args: [
+            question, 
+            category, 
+            imageUrl, 
+            BigInt(durationDays * 24 * 60 * 60), 
+            liquidityWei, 
+            BigInt(creatorFeeBps), 
+            outcomeLabels,
+            algorithm,
+            lmsrBWei,
+          ],
+        });
+        hash = await walletClient.writeContract(request);
+      } else {
+        // 使用默认 CPMM 算法
+        const { request } = await publicClient.simulateContract({
+          account: walletClient.account,
+          address: deployment.predictionMarket,
+          abi: PREDICTION_MARKET_ABI,
+          functionName: 'createMarket',
+          args: [
+            question, 
+            category, 
+            imageUrl, 
+            BigInt(durationDays * 24 * 60 * 60), 
+            liquidityWei, 
+            BigInt(creatorFeeBps), 
+            outcomeLabels
+          ],
+        });
+        hash = await walletClient.writeContract(request);
+      }
     
-    await publicClient.waitForTransactionReceipt({ hash });
-    await fetchMarkets();
-    await fetchBalance();
-  }, [walletClient, publicClient, ensureAllowance, fetchMarkets, fetchBalance]);
+      await track(hash, label);
+      await fetchMarkets();
+      await fetchBalance();
+    });
+  }, [walletClient, publicClient, deployment, ensureAllowance, fetchMarkets, fetchBalance, track, run]);
 
   // 🆕 创建市场（简化版，使用参数对象）
   const createMarketAdvanced = useCallback(async (params: CreateMarketParams) => {
@@ -695,122 +1054,448 @@ export function usePredictionMarket() {
 
   // 删除市场
   const deleteMarket = useCallback(async (marketId: number) => {
-    if (!walletClient || !publicClient) throw new Error('Not connected');
-    const hash = await walletClient.writeContract({
-      address: PREDICTION_MARKET_ADDRESS as `0x${string}`,
-      abi: PREDICTION_MARKET_ABI,
-      functionName: 'deleteMarket',
-      args: [BigInt(marketId)],
+    const label = `Delete market #${marketId}`;
+    return run(label, async () => {
+      if (!walletClient || !publicClient) throw new Error('Not connected');
+      if (!deployment) throw new Error('Unsupported network');
+      const { request } = await publicClient.simulateContract({
+        account: walletClient.account,
+        address: deployment.predictionMarket,
+        abi: PREDICTION_MARKET_ABI,
+        functionName: 'deleteMarket',
+        args: [BigInt(marketId)],
+      });
+      const hash = await walletClient.writeContract(request);
+      await track(hash, label);
+      await fetchMarkets();
     });
-    await publicClient.waitForTransactionReceipt({ hash });
-    await fetchMarkets();
-  }, [walletClient, publicClient, fetchMarkets]);
-
-  // 买入
-  const buyShares = useCallback(async (marketId: number, outcomeIndex: number | boolean, amount: string) => {
-    if (!walletClient || !publicClient) throw new Error('Not connected');
-    const idx = typeof outcomeIndex === 'boolean' ? (outcomeIndex ? 0 : 1) : outcomeIndex;
-    const amountWei = parseUnits(amount, USDC_DECIMALS);
-    await ensureAllowance(amountWei);
-
-    const hash = await walletClient.writeContract({
-      address: PREDICTION_MARKET_ADDRESS as `0x${string}`,
-      abi: PREDICTION_MARKET_ABI,
-      functionName: 'buyShares',
-      args: [BigInt(marketId), idx, amountWei, 0n],
+  }, [walletClient, publicClient, deployment, fetchMarkets, track, run]);
+
+  // 结算市场（owner，市场到期后）
+  const resolveMarket = useCallback(async (marketId: number, winnerIndex: number) => {
+    const label = `Resolve market #${marketId}`;
+    return run(label, async () => {
+      if (!walletClient || !publicClient) throw new Error('Not connected');
+      if (!deployment) throw new Error('Unsupported network');
+      const { request } = await publicClient.simulateContract({
+        account: walletClient.account,
+        address: deployment.predictionMarket,
+        abi: PREDICTION_MARKET_ABI,
+        functionName: 'resolveMarket',
+        args: [BigInt(marketId), winnerIndex],
+      });
+      const hash = await walletClient.writeContract(request);
+      await track(hash, label);
+      await fetchMarkets();
     });
-    await publicClient.waitForTransactionReceipt({ hash });
-    await fetchMarkets();
-    await fetchBalance();
-  }, [walletClient, publicClient, ensureAllowance, fetchMarkets, fetchBalance]);
-
-  // 卖出
-  const sellShares = useCallback(async (marketId: number, outcomeIndex: number | boolean, shares: bigint | string) => {
-    if (!walletClient || !publicClient) throw new Error('Not connected');
-    const idx = typeof outcomeIndex === 'boolean' ? (outcomeIndex ? 0 : 1) : outcomeIndex;
-    const sharesWei = typeof shares === 'string' ? parseUnits(shares, 18) : shares;
-
-    const hash = await walletClient.writeContract({
-      address: PREDICTION_MARKET_ADDRESS as `0x${string}`,
-      abi: PREDICTION_MARKET_ABI,
-      functionName: 'sellShares',
-      args: [BigInt(marketId), idx, sharesWei, 0n],
+  }, [walletClient, publicClient, deployment, fetchMarkets, track, run]);
+
+  // 取消市场（owner）：挂单全部撤销，持仓者可以按比例退款
+  const cancelMarket = useCallback(async (marketId: number) => {
+    const label = `Cancel market #${marketId}`;
+    return run(label, async () => {
+      if (!walletClient || !publicClient) throw new Error('Not connected');
+      if (!deployment) throw new Error('Unsupported network');
+      const { request } = await publicClient.simulateContract({
+        account: walletClient.account,
+        address: deployment.predictionMarket,
+        abi: PREDICTION_MARKET_ABI,
+        functionName: 'cancelMarket',
+        args: [BigInt(marketId)],
+      });
+      const hash = await walletClient.writeContract(request);
+      await track(hash, label);
+      await fetchMarkets();
+    });
+  }, [walletClient, publicClient, deployment, fetchMarkets, track, run]);
+
+  // 买入（expectedShares 为用户在面板上看到的报价，缺省时以提交前的最新报价为准）
+  const buyShares = useCallback(async (marketId: number, outcomeIndex: number | boolean, amount: string, expectedShares?: bigint) => {
+    const label = `Buy ${amount} USDC · market #${marketId}`;
+    return run(label, async () => {
+      if (!walletClient || !publicClient) throw new Error('Not connected');
+      if (!deployment) throw new Error('Unsupported network');
+      const idx = typeof outcomeIndex === 'boolean' ? (outcomeIndex ? 0 : 1) : outcomeIndex;
+      const amountWei = parseUnits(amount, USDC_DECIMALS);
+
+      // 按链上最新状态重新报价：相对用户看到的报价超出容忍度就不发送；minShares 让合约兜底
+      const { list: [fresh] } = await loadMarkets(publicClient, deployment.predictionMarket, [BigInt(marketId)]);
+      const quote = fresh ? quoteBuy(fresh, idx, amountWei) : null;
+      const seen = expectedShares ?? quote?.shares ?? 0n;
+      if (quote) assertWithinSlippage(seen, quote.shares, 'receive', toleranceBps);
+      const minShares = minWithSlippage(seen, toleranceBps);
+
+      await ensureAllowance(amountWei);
+
+      const { request } = await publicClient.simulateContract({
+        account: walletClient.account,
+        address: deployment.predictionMarket,
+        abi: PREDICTION_MARKET_ABI,
+        functionName: 'buyShares',
+        args: [BigInt(marketId), idx, amountWei, minShares],
+      });
+      const hash = await walletClient.writeContract(request);
+      const receipt = await track(hash, label);
+
+      // 核对实际成交
+      const [purchase] = parseEventLogs({ abi: PREDICTION_MARKET_EVENTS_ABI, eventName: 'SharesPurchased', logs: receipt.logs });
+      const deviation = purchase ? adverseDeviationBps(seen, purchase.args.shares, 'receive') : 0;
+      if (deviation > toleranceBps) {
+        flag(hash, `Received ${Number(formatUnits(purchase!.args.shares, 18)).toFixed(2)} shares, ${formatBps(deviation)} below your quote`);
+      }
+
+      await fetchMarkets();
+      await fetchBalance();
+    });
+  }, [walletClient, publicClient, deployment, toleranceBps, ensureAllowance, fetchMarkets, fetchBalance, track, flag, run]);
+
+  // 分单买入：先吃便宜的卖单（跳过自己的卖单），剩下的走 AMM（expectedShares 为面板展示的路由总份额）
+  // 合约不支持 takeSellOrders 时整笔走 AMM
+  const buyRouted = useCallback(async (marketId: number, outcomeIndex: number, amount: string, expectedShares?: bigint) => {
+    const label = `Buy ${amount} USDC · market #${marketId}`;
+    return run(label, async () => {
+      if (!walletClient || !publicClient) throw new Error('Not connected');
+      if (!deployment) throw new Error('Unsupported network');
+      const amountWei = parseUnits(amount, USDC_DECIMALS);
+
+      // 按最新的池子和挂单重新路由，总份额超出容忍度就不发送
+      const [{ list: [fresh] }, orders] = await Promise.all([
+        loadMarkets(publicClient, deployment.predictionMarket, [BigInt(marketId)]),
+        features.orderRouting ? getMarketOrders(marketId, outcomeIndex) : Promise.resolve([]),
+      ]);
+      const route = fresh ? routeBuy(fresh, outcomeIndex, amountWei, orders, address) : null;
+      if (!route) throw new Error('Market not found');
+      const expected = expectedShares ?? route.totalShares;
+      assertWithinSlippage(expected, route.totalShares, 'receive', toleranceBps);
+
+      await ensureAllowance(route.usdcAmount);
+
+      // 每一段都按回执里的成交事件累计实际买到的份额
+      let bookShares = 0n;
+      let bookHash: `0x${string}` | null = null;
+      let lastHash: `0x${string}` | null = null;
+      if (route.bookLegs.length > 0) {
+        const bookLabel = `${label} · ${route.bookLegs.length} resting order${route.bookLegs.length === 1 ? '' : 's'}`;
+        const { request } = await publicClient.simulateContract({
+          account: walletClient.account,
+          address: deployment.predictionMarket,
+          abi: PREDICTION_MARKET_ABI,
+          functionName: 'takeSellOrders',
+          args: [BigInt(marketId), outcomeIndex, route.bookLegs.map(l => BigInt(l.orderId)), route.bookLegs.map(l => l.shares)],
+        });
+        bookHash = await walletClient.writeContract(request);
+        const receipt = await track(bookHash, bookLabel);
+        const fills = parseEventLogs({ abi: ORDER_FILLED_EVENT_ABI, eventName: 'OrderFilled', logs: receipt.logs });
+        bookShares = fills.reduce((sum, fill) => sum + fill.args.filledShares, 0n);
+        lastHash = bookHash;
+      }
+
+      // 订单簿部分不影响 AMM 价格，AMM 报价仍然有效
+      let ammShares = 0n;
+      if (route.ammQuote) {
+        const ammLabel = `${label} · AMM`;
+        try {
+          const { request } = await publicClient.simulateContract({
+            account: walletClient.account,
+            address: deployment.predictionMarket,
+            abi: PREDICTION_MARKET_ABI,
+            functionName: 'buyShares',
+            args: [BigInt(marketId), outcomeIndex, route.ammUsdc, minWithSlippage(route.ammQuote.shares, toleranceBps)],
+          });
+          const hash = await walletClient.writeContract(request);
+          const receipt = await track(hash, ammLabel);
+          const [purchase] = parseEventLogs({ abi: PREDICTION_MARKET_EVENTS_ABI, eventName: 'SharesPurchased', logs: receipt.logs });
+          ammShares = purchase?.args.shares ?? 0n;
+          lastHash = hash;
+        } catch (error) {
+          // 订单簿那笔已经上链：明确告诉用户只成交了一半
+          if (bookHash) {
+            const reason = formatTxError(decodeTxError(error));
+            flag(bookHash, `Only partly filled: ${Number(formatUnits(bookShares, 18)).toFixed(2)} shares from resting orders; the AMM leg ($${formatUnits(route.ammUsdc, USDC_DECIMALS)}) failed and was not spent (${reason})`);
+            await Promise.all([fetchMarkets(), fetchBalance(), fetchUserOrders()]);
+          }
+          throw error;
+        }
+      }
+
+      // 报价之后被别人抢先成交的卖单会被合约跳过，少买的部分在这里提示
+      const received = bookShares + ammShares;
+      const deviation = adverseDeviationBps(expected, received, 'receive');
+      if (lastHash && deviation > toleranceBps) {
+        const skipped = route.bookShares > bookShares ? ` (${Number(formatUnits(route.bookShares - bookShares, 18)).toFixed(2)} shares of resting orders were already taken)` : '';
+        flag(lastHash, `Received ${Number(formatUnits(received, 18)).toFixed(2)} shares, ${formatBps(deviation)} below your quote${skipped}`);
+      }
+
+      await fetchMarkets();
+      await fetchBalance();
+      await fetchUserOrders();
     });
-    await publicClient.waitForTransactionReceipt({ hash });
-    await fetchMarkets();
-    await fetchBalance();
-  }, [walletClient, publicClient, fetchMarkets, fetchBalance]);
+  }, [walletClient, publicClient, deployment, address, features, toleranceBps, getMarketOrders, ensureAllowance, fetchMarkets, fetchBalance, fetchUserOrders, track, flag, run]);
+
+  // 卖出（expectedUsdc 为面板报价的到账金额）
+  const sellShares = useCallback(async (marketId: number, outcomeIndex: number | boolean, shares: bigint | string, expectedUsdc?: bigint) => {
+    const label = `Sell shares · market #${marketId}`;
+    return run(label, async () => {
+      if (!walletClient || !publicClient) throw new Error('Not connected');
+      if (!deployment) throw new Error('Unsupported network');
+      const idx = typeof outcomeIndex === 'boolean' ? (outcomeIndex ? 0 : 1) : outcomeIndex;
+      const sharesWei = typeof shares === 'string' ? parseUnits(shares, 18) : shares;
+
+      const { list: [fresh] } = await loadMarkets(publicClient, deployment.predictionMarket, [BigInt(marketId)]);
+      const quote = fresh ? quoteSell(fresh, idx, sharesWei) : null;
+      const seen = expectedUsdc ?? quote?.usdcOut ?? 0n;
+      if (quote) assertWithinSlippage(seen, quote.usdcOut, 'receive', toleranceBps);
+      const minUsdc = minWithSlippage(seen, toleranceBps);
+
+      const { request } = await publicClient.simulateContract({
+        account: walletClient.account,
+        address: deployment.predictionMarket,
+        abi: PREDICTION_MARKET_ABI,
+        functionName: 'sellShares',
+        args: [BigInt(marketId), idx, sharesWei, minUsdc],
+      });
+      const hash = await walletClient.writeContract(request);
+      const receipt = await track(hash, label);
+
+      const [sale] = parseEventLogs({ abi: PREDICTION_MARKET_EVENTS_ABI, eventName: 'SharesSold', logs: receipt.logs });
+      const deviation = sale ? adverseDeviationBps(seen, sale.args.usdcOut, 'receive') : 0;
+      if (deviation > toleranceBps) {
+        flag(hash, `Received $${Number(formatUnits(sale!.args.usdcOut, USDC_DECIMALS)).toFixed(2)}, ${formatBps(deviation)} below your quote`);
+      }
+
+      await fetchMarkets();
+      await fetchBalance();
+    });
+  }, [walletClient, publicClient, deployment, toleranceBps, fetchMarkets, fetchBalance, track, flag, run]);
 
   // 限价买单
-  const placeBuyOrder = useCallback(async (marketId: number, outcomeIndex: number, shares: string, price: number) => {
-    if (!walletClient || !publicClient) throw new Error('Not connected');
-    const sharesWei = parseUnits(shares, 18);
-    const usdcRequired = (sharesWei * BigInt(price)) / (100n * BigInt(10 ** 12));
-    await ensureAllowance(usdcRequired + BigInt(10 ** 6));
-
-    const hash = await walletClient.writeContract({
-      address: PREDICTION_MARKET_ADDRESS as `0x${string}`,
-      abi: PREDICTION_MARKET_ABI,
-      functionName: 'placeBuyOrder',
-      args: [BigInt(marketId), outcomeIndex, sharesWei, BigInt(price * 100)],
+  const placeBuyOrder = useCallback(async (marketId: number, outcomeIndex: number, shares: string, price: number, expiresAt?: number) => {
+    const label = `Limit buy ${shares} @ ${price}¢ · market #${marketId}`;
+    return run(label, async () => {
+      if (!walletClient || !publicClient) throw new Error('Not connected');
+      if (!deployment) throw new Error('Unsupported network');
+      const sharesWei = parseUnits(shares, 18);
+      // 和合约的押金公式一致（shares × 基点价格 / (BASIS_POINTS × 1e12)），授权正好够用，不留余量
+      const usdcRequired = (sharesWei * BigInt(price * 100)) / (10000n * BigInt(10 ** 12));
+      await ensureAllowance(usdcRequired);
+
+      const base = [BigInt(marketId), outcomeIndex, sharesWei, BigInt(price * 100)] as const;
+      // 设置了有效期时走 WithExpiry 版本
+      if (expiresAt && !features.orderExpiry) throw new Error('This contract does not support order expiry');
+      const hash = expiresAt
+        ? await walletClient.writeContract((await publicClient.simulateContract({
+            account: walletClient.account,
+            address: deployment.predictionMarket,
+            abi: PREDICTION_MARKET_ABI,
+            functionName: 'placeBuyOrderWithExpiry',
+            args: [...base, BigInt(expiresAt)],
+          })).request)
+        : await walletClient.writeContract((await publicClient.simulateContract({
+            account: walletClient.account,
+            address: deployment.predictionMarket,
+            abi: PREDICTION_MARKET_ABI,
+            functionName: 'placeBuyOrder',
+            args: base,
+          })).request);
+      await track(hash, label);
+      await fetchMarkets();
+      await fetchUserOrders();
+      await fetchBalance();
     });
-    await publicClient.waitForTransactionReceipt({ hash });
-    await fetchMarkets();
-    await fetchUserOrders();
-    await fetchBalance();
-  }, [walletClient, publicClient, ensureAllowance, fetchMarkets, fetchUserOrders, fetchBalance]);
+  }, [walletClient, publicClient, deployment, features, ensureAllowance, fetchMarkets, fetchUserOrders, fetchBalance, track, run]);
 
   // 限价卖单
-  const placeSellOrder = useCallback(async (marketId: number, outcomeIndex: number, shares: string, price: number) => {
-    if (!walletClient || !publicClient) throw new Error('Not connected');
-    const sharesWei = parseUnits(shares, 18);
+  const placeSellOrder = useCallback(async (marketId: number, outcomeIndex: number, shares: string, price: number, expiresAt?: number) => {
+    const label = `Limit sell ${shares} @ ${price}¢ · market #${marketId}`;
+    return run(label, async () => {
+      if (!walletClient || !publicClient) throw new Error('Not connected');
+      if (!deployment) throw new Error('Unsupported network');
+      const sharesWei = parseUnits(shares, 18);
 
-    const hash = await walletClient.writeContract({
-      address: PREDICTION_MARKET_ADDRESS as `0x${string}`,
-      abi: PREDICTION_MARKET_ABI,
-      functionName: 'placeSellOrder',
-      args: [BigInt(marketId), outcomeIndex, sharesWei, BigInt(price * 100)],
+      const base = [BigInt(marketId), outcomeIndex, sharesWei, BigInt(price * 100)] as const;
+      // 设置了有效期时走 WithExpiry 版本
+      if (expiresAt && !features.orderExpiry) throw new Error('This contract does not support order expiry');
+      const hash = expiresAt
+        ? await walletClient.writeContract((await publicClient.simulateContract({
+            account: walletClient.account,
+            address: deployment.predictionMarket,
+            abi: PREDICTION_MARKET_ABI,
+            functionName: 'placeSellOrderWithExpiry',
+            args: [...base, BigInt(expiresAt)],
+          })).request)
+        : await walletClient.writeContract((await publicClient.simulateContract({
+            account: walletClient.account,
+            address: deployment.predictionMarket,
+            abi: PREDICTION_MARKET_ABI,
+            functionName: 'placeSellOrder',
+            args: base,
+          })).request);
+      await track(hash, label);
+      await fetchMarkets();
+      await fetchUserOrders();
     });
-    await publicClient.waitForTransactionReceipt({ hash });
-    await fetchMarkets();
-    await fetchUserOrders();
-  }, [walletClient, publicClient, fetchMarkets, fetchUserOrders]);
+  }, [walletClient, publicClient, deployment, features, fetchMarkets, fetchUserOrders, track, run]);
 
   // 取消订单
   const cancelOrder = useCallback(async (orderId: number) => {
-    if (!walletClient || !publicClient) throw new Error('Not connected');
-    const hash = await walletClient.writeContract({
-      address: PREDICTION_MARKET_ADDRESS as `0x${string}`,
-      abi: PREDICTION_MARKET_ABI,
-      functionName: 'cancelOrder',
-      args: [BigInt(orderId)],
+    const label = `Cancel order #${orderId}`;
+    return run(label, async () => {
+      if (!walletClient || !publicClient) throw new Error('Not connected');
+      if (!deployment) throw new Error('Unsupported network');
+      const { request } = await publicClient.simulateContract({
+        account: walletClient.account,
+        address: deployment.predictionMarket,
+        abi: PREDICTION_MARKET_ABI,
+        functionName: 'cancelOrder',
+        args: [BigInt(orderId)],
+      });
+      const hash = await walletClient.writeContract(request);
+      await track(hash, label);
+      await fetchMarkets();
+      await fetchUserOrders();
+      await fetchBalance();
+    });
+  }, [walletClient, publicClient, deployment, fetchMarkets, fetchUserOrders, fetchBalance, track, run]);
+
+  // 撤销已过期的订单（任何人都可以调用，押金 / 份额退回下单人）
+  const cancelExpiredOrder = useCallback(async (orderId: number) => {
+    const label = `Cancel expired order #${orderId}`;
+    return run(label, async () => {
+      if (!walletClient || !publicClient) throw new Error('Not connected');
+      if (!deployment) throw new Error('Unsupported network');
+      const { request } = await publicClient.simulateContract({
+        account: walletClient.account,
+        address: deployment.predictionMarket,
+        abi: PREDICTION_MARKET_ABI,
+        functionName: 'cancelExpiredOrder',
+        args: [BigInt(orderId)],
+      });
+      const hash = await walletClient.writeContract(request);
+      await track(hash, label);
+      await fetchMarkets();
+      await fetchUserOrders();
+      await fetchBalance();
     });
-    await publicClient.waitForTransactionReceipt({ hash });
-    await fetchMarkets();
-    await fetchUserOrders();
-    await fetchBalance();
-  }, [walletClient, publicClient, fetchMarkets, fetchUserOrders, fetchBalance]);
+  }, [walletClient, publicClient, deployment, fetchMarkets, fetchUserOrders, fetchBalance, track, run]);
 
   // 领取奖励
   const claimWinnings = useCallback(async (marketId: number) => {
-    if (!walletClient || !publicClient) throw new Error('Not connected');
-    const hash = await walletClient.writeContract({
-      address: PREDICTION_MARKET_ADDRESS as `0x${string}`,
-      abi: PREDICTION_MARKET_ABI,
-      functionName: 'claimWinnings',
-      args: [BigInt(marketId)],
+    const label = `Claim winnings · market #${marketId}`;
+    return run(label, async () => {
+      if (!walletClient || !publicClient) throw new Error('Not connected');
+      if (!deployment) throw new Error('Unsupported network');
+      const { request } = await publicClient.simulateContract({
+        account: walletClient.account,
+        address: deployment.predictionMarket,
+        abi: PREDICTION_MARKET_ABI,
+        functionName: 'claimWinnings',
+        args: [BigInt(marketId)],
+      });
+      const hash = await walletClient.writeContract(request);
+      await track(hash, label);
+      await fetchMarkets();
+      await fetchBalance();
     });
-    await publicClient.waitForTransactionReceipt({ hash });
-    await fetchMarkets();
-    await fetchBalance();
-  }, [walletClient, publicClient, fetchMarkets, fetchBalance]);
+  }, [walletClient, publicClient, deployment, fetchMarkets, fetchBalance, track, run]);
+
+  // 已取消市场退款
+  const claimRefund = useCallback(async (marketId: number) => {
+    const label = `Claim refund · market #${marketId}`;
+    return run(label, async () => {
+      if (!walletClient || !publicClient) throw new Error('Not connected');
+      if (!deployment) throw new Error('Unsupported network');
+      const { request } = await publicClient.simulateContract({
+        account: walletClient.account,
+        address: deployment.predictionMarket,
+        abi: PREDICTION_MARKET_ABI,
+        functionName: 'claimRefund',
+        args: [BigInt(marketId)],
+      });
+      const hash = await walletClient.writeContract(request);
+      await track(hash, label);
+      await fetchMarkets();
+      await fetchBalance();
+    });
+  }, [walletClient, publicClient, deployment, fetchMarkets, fetchBalance, track, run]);
+
+  // 交易预估：模拟 + gas 费，模拟失败的交易在面板里直接禁止发送
+  const previewTrade = useCallback(async (req: TradeRequest): Promise<TxPreview> => {
+    if (!publicClient || !address || !deployment) return {};
+    const base = { account: address, address: deployment.predictionMarket, abi: PREDICTION_MARKET_ABI } as const;
+    const marketId = BigInt(req.marketId);
+
+    if (req.type === 'routedBuy') {
+      const calls: { label: string; estimate: () => Promise<bigint> }[] = [];
+      try {
+        const orderIds = req.bookLegs.map(l => BigInt(l.orderId));
+        const shares = req.bookLegs.map(l => parseUnits(l.shares, 18));
+        const ammWei = parseUnits(req.ammUsdc, USDC_DECIMALS);
+        if (orderIds.length > 0) {
+          calls.push({
+            label: `${orderIds.length} resting order${orderIds.length === 1 ? '' : 's'}`,
+            estimate: () => publicClient.estimateContractGas({
+              ...base, functionName: 'takeSellOrders', args: [marketId, req.outcomeIndex, orderIds, shares],
+            }),
+          });
+        }
+        if (ammWei > 0n) {
+          calls.push({
+            label: 'AMM',
+            estimate: () => publicClient.estimateContractGas({
+              ...base, functionName: 'buyShares', args: [marketId, req.outcomeIndex, ammWei, 0n],
+            }),
+          });
+        }
+      } catch {
+        return {};
+      }
+      return calls.length > 0 ? previewTransactions(publicClient, calls) : {};
+    }
+
+    let estimate: () => Promise<bigint>;
+    try {
+      if (req.type === 'buy') {
+        const amountWei = parseUnits(req.amount, USDC_DECIMALS);
+        if (amountWei <= 0n) return {};
+        estimate = () => publicClient.estimateContractGas({
+          ...base, functionName: 'buyShares', args: [marketId, req.outcomeIndex, amountWei, 0n],
+        });
+      } else if (req.type === 'sell') {
+        const sharesWei = parseUnits(req.shares, 18);
+        if (sharesWei <= 0n) return {};
+        estimate = () => publicClient.estimateContractGas({
+          ...base, functionName: 'sellShares', args: [marketId, req.outcomeIndex, sharesWei, 0n],
+        });
+      } else {
+        const sharesWei = parseUnits(req.shares, 18);
+        if (sharesWei <= 0n || !req.price) return {};
+        const args = [marketId, req.outcomeIndex, sharesWei, BigInt(req.price * 100)] as const;
+        // 和提交时一样，设置了有效期就模拟 WithExpiry 版本（到期时间按模拟时刻换算）
+        const expirySeconds = req.expirySeconds;
+        estimate = expirySeconds
+          ? () => publicClient.estimateContractGas({
+              ...base,
+              functionName: req.type === 'limitBuy' ? 'placeBuyOrderWithExpiry' : 'placeSellOrderWithExpiry',
+              args: [...args, BigInt(Math.floor(Date.now() / 1000) + expirySeconds)],
+            })
+          : () => publicClient.estimateContractGas({
+              ...base,
+              functionName: req.type === 'limitBuy' ? 'placeBuyOrder' : 'placeSellOrder',
+              args,
+            });
+      }
+    } catch {
+      return {};  // 输入还不是合法数字
+    }
+    return previewTransaction(publicClient, estimate);
+  }, [publicClient, address, deployment]);
 
   // 价格历史
   const getPriceHistory = useCallback(async (marketId: number): Promise<PriceHistory> => {
-    if (!publicClient) return { timestamps: [], prices: [] };
+    if (!publicClient || !deployment) return { timestamps: [], prices: [] };
     try {
       const result = await publicClient.readContract({
-        address: PREDICTION_MARKET_ADDRESS as `0x${string}`,
+        address: deployment.predictionMarket,
         abi: PREDICTION_MARKET_ABI,
         functionName: 'getPriceHistory',
         args: [BigInt(marketId)],
@@ -822,7 +1507,7 @@ export function usePredictionMarket() {
     } catch {
       return { timestamps: [], prices: [] };
     }
-  }, [publicClient]);
+  }, [publicClient, deployment]);
 
   return {
     address: address || '',
@@ -837,14 +1522,23 @@ export function usePredictionMarket() {
     createMarket,
     createMarketAdvanced, // 🆕 新增
     deleteMarket,
+    resolveMarket,
+    cancelMarket,
     buyShares,
+    buyRouted,
     sellShares,
     placeBuyOrder,
     placeSellOrder,
     cancelOrder,
+    cancelExpiredOrder,
     claimWinnings,
+    claimRefund,
+    previewTrade,
+    features,
     getPriceHistory,
+    getMarketOrders,
     fetchMarkets,
+    refreshMarkets,
     fetchUserOrders,
     fetchBalance,
     // 🆕 导出枚举供外部使用
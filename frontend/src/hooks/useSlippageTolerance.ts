@@ -0,0 +1,38 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { DEFAULT_SLIPPAGE_BPS } from '@/constants/config';
+import { MAX_SLIPPAGE_BPS } from '@/utils/slippage';
+
+const SLIPPAGE_KEY = 'attention_fi_slippage_bps';
+
+// ============ 模块级状态（所有交易面板共用一个设置） ============
+let toleranceBps: number | null = null;
+const listeners = new Set<(bps: number) => void>();
+
+function loadTolerance(): number {
+  if (toleranceBps !== null) return toleranceBps;
+  if (typeof window === 'undefined') return DEFAULT_SLIPPAGE_BPS;
+  const stored = Number(localStorage.getItem(SLIPPAGE_KEY));
+  toleranceBps = stored > 0 && stored <= MAX_SLIPPAGE_BPS ? stored : DEFAULT_SLIPPAGE_BPS;
+  return toleranceBps;
+}
+
+// ============ Hook ============
+export function useSlippageTolerance() {
+  const [bps, setBps] = useState(DEFAULT_SLIPPAGE_BPS);
+
+  useEffect(() => {
+    listeners.add(setBps);
+    setBps(loadTolerance());
+    return () => { listeners.delete(setBps); };
+  }, []);
+
+  const setTolerance = useCallback((next: number) => {
+    toleranceBps = Math.min(Math.max(Math.round(next), 1), MAX_SLIPPAGE_BPS);
+    localStorage.setItem(SLIPPAGE_KEY, String(toleranceBps));
+    listeners.forEach(listener => listener(toleranceBps!));
+  }, []);
+
+  return { toleranceBps: bps, setTolerance };
+}
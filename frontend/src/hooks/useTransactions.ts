@@ -0,0 +1,165 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAccount, useConfig } from 'wagmi';
+import { getPublicClient } from 'wagmi/actions';
+import type { PublicClient, TransactionReceipt } from 'viem';
+import {
+  TrackedTx,
+  TransactionFailedError,
+  TxError,
+  loadTransactions,
+  saveTransactions,
+  waitForTransaction,
+} from '@/lib/transactions';
+import { decodeTxError } from '@/utils/txErrors';
+import { useDeployment } from '@/hooks/useDeployment';
+
+// ============ 模块级状态（各个 hook 和通知托盘共享同一份交易列表） ============
+interface TxStore {
+  account: string | null;
+  txs: TrackedTx[];
+}
+
+let store: TxStore = { account: null, txs: [] };
+const listeners = new Set<(state: TxStore) => void>();
+// 正在等待回执的交易，多个组件同时恢复跟踪时只轮询一次
+const watching = new Map<string, Promise<TransactionReceipt>>();
+
+function setStore(patch: Partial<TxStore>) {
+  store = { ...store, ...patch };
+  if (store.account) saveTransactions(store.account, store.txs);
+  listeners.forEach(listener => listener(store));
+}
+
+/// 交易结束时账户可能已经切换，这种情况直接改存储
+function updateTx(account: string, id: string, patch: Partial<TrackedTx>) {
+  const apply = (txs: TrackedTx[]) => txs.map(tx => (tx.id === id ? { ...tx, ...patch } : tx));
+  if (store.account === account) {
+    setStore({ txs: apply(store.txs) });
+  } else {
+    saveTransactions(account, apply(loadTransactions(account)));
+  }
+}
+
+function watch(client: PublicClient, account: string, tx: TrackedTx, hash: `0x${string}`, resume: boolean) {
+  const existing = watching.get(hash);
+  if (existing) return existing;
+
+  const promise = waitForTransaction(client, hash, resume)
+    .then(receipt => {
+      updateTx(account, tx.id, { status: 'confirmed', settledAt: Date.now() });
+      console.log(`✅ ${tx.label} confirmed`);
+      return receipt;
+    })
+    .catch(error => {
+      const decoded = decodeTxError(error);
+      updateTx(account, tx.id, { status: 'failed', settledAt: Date.now(), error: decoded.message, hint: decoded.hint });
+      console.error(`❌ ${tx.label} failed:`, error);
+      throw error;
+    })
+    .finally(() => { watching.delete(hash); });
+
+  watching.set(hash, promise);
+  return promise;
+}
+
+// ============ Hook ============
+export function useTransactions() {
+  const { address } = useAccount();
+  const { chainId } = useDeployment();
+  const config = useConfig();
+  const [state, setState] = useState<TxStore>(store);
+
+  const account = address?.toLowerCase() ?? null;
+
+  useEffect(() => {
+    listeners.add(setState);
+    setState(store);
+    return () => { listeners.delete(setState); };
+  }, []);
+
+  // 切换账户时载入该地址的交易，并恢复跟踪刷新前未完成的交易
+  useEffect(() => {
+    if (store.account !== account) {
+      setStore({ account, txs: account ? loadTransactions(account) : [] });
+    }
+    if (!account) return;
+    store.txs
+      .filter(tx => tx.status === 'pending' && tx.hash)
+      .forEach(tx => {
+        const client = getPublicClient(config, { chainId: tx.chainId }) as PublicClient | undefined;
+        if (!client) return;  // 链已不在支持列表里，保持 pending 直到用户清除
+        watch(client, account, tx, tx.hash!, true).catch(() => {});
+      });
+  }, [account, config]);
+
+  /// 登记刚提交的交易并等待回执；回滚时抛出 TransactionFailedError
+  const track = useCallback(async (hash: `0x${string}`, label: string) => {
+    const client = getPublicClient(config, { chainId }) as PublicClient | undefined;
+    if (!account || !client) throw new Error('Not connected');
+
+    const tx: TrackedTx = { id: hash, hash, chainId, label, status: 'pending', submittedAt: Date.now() };
+    setStore({ txs: [tx, ...store.txs.filter(t => t.id !== tx.id)] });
+    return watch(client, account, tx, hash, false);
+  }, [account, chainId, config]);
+
+  /// 解码写操作的错误并记到通知托盘（钱包里拒签不提示，上链后的失败 track 已经记过）
+  const report = useCallback((label: string, error: unknown): TxError => {
+    if (error instanceof TxError) return error;
+    const decoded = decodeTxError(error);
+    if (decoded.kind !== 'rejected' && !(error instanceof TransactionFailedError)) {
+      const now = Date.now();
+      const entry: TrackedTx = {
+        id: `error-${now}`,
+        chainId,
+        label,
+        status: 'failed',
+        submittedAt: now,
+        settledAt: now,
+        error: decoded.message,
+        hint: decoded.hint,
+      };
+      setStore({ txs: [entry, ...store.txs] });
+    }
+    console.error(`❌ ${label}:`, error);
+    return new TxError(decoded, error);
+  }, [chainId]);
+
+  /// 包一层写操作：任何失败都解码、上报，再以 TxError 抛给调用方
+  const run = useCallback(async <T>(label: string, action: () => Promise<T>): Promise<T> => {
+    try {
+      return await action();
+    } catch (error) {
+      throw report(label, error);
+    }
+  }, [report]);
+
+  /// 给已确认的交易加一条提醒（如成交价超出滑点容忍度）
+  const flag = useCallback((hash: `0x${string}`, warning: string) => {
+    if (!account) return;
+    updateTx(account, hash, { warning });
+    console.warn(`⚠️ ${warning}`);
+  }, [account]);
+
+  const dismiss = useCallback((id: string) => {
+    setStore({ txs: store.txs.filter(tx => tx.id !== id) });
+  }, []);
+
+  const clearSettled = useCallback(() => {
+    setStore({ txs: store.txs.filter(tx => tx.status === 'pending') });
+  }, []);
+
+  const transactions = state.account === account ? state.txs : [];
+
+  return {
+    transactions,
+    pendingCount: transactions.filter(tx => tx.status === 'pending').length,
+    track,
+    report,
+    run,
+    flag,
+    dismiss,
+    clearSettled,
+  };
+}
@@ -0,0 +1,36 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { TxPreview } from '@/lib/transactions';
+
+const PREVIEW_DEBOUNCE = 400;
+
+// ============ Hook ============
+/// 输入停顿后再模拟交易，避免每次按键都请求 RPC；request 为 null 时不预估
+export function useTxPreview<T>(request: T | null, preview?: (request: T) => Promise<TxPreview>) {
+  const [result, setResult] = useState<TxPreview>({});
+  const [loading, setLoading] = useState(false);
+  const key = request === null ? null : JSON.stringify(request);
+
+  useEffect(() => {
+    if (key === null || !preview) {
+      setResult({});
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      const next = await preview(JSON.parse(key) as T);
+      if (cancelled) return;
+      setResult(next);
+      setLoading(false);
+    }, PREVIEW_DEBOUNCE);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [key, preview]);
+
+  return { preview: result, loading };
+}
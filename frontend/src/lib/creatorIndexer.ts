@@ -0,0 +1,129 @@
+import { keccak256, toBytes, type PublicClient } from 'viem';
+import { fetchBlockTimestamps, getLogsInChunks } from '@/lib/logs';
+
+// ============ 事件 ABI ============
+// handle 是 `string indexed`，日志里只有 keccak256(handle)，需要用已知 handle 反查
+export const CREATOR_MARKET_EVENTS_ABI = [
+  {
+    name: 'CreatorRegistered',
+    type: 'event',
+    inputs: [
+      { name: 'handle', type: 'string', indexed: true },
+      { name: 'registrant', type: 'address', indexed: true },
+      { name: 'curveType', type: 'uint8', indexed: false },
+      { name: 'A', type: 'uint256', indexed: false },
+      { name: 'B', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'SharesBought',
+    type: 'event',
+    inputs: [
+      { name: 'handle', type: 'string', indexed: true },
+      { name: 'buyer', type: 'address', indexed: true },
+      { name: 'amount', type: 'uint256', indexed: false },
+      { name: 'cost', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    name: 'SharesSold',
+    type: 'event',
+    inputs: [
+      { name: 'handle', type: 'string', indexed: true },
+      { name: 'seller', type: 'address', indexed: true },
+      { name: 'amount', type: 'uint256', indexed: false },
+      { name: 'proceeds', type: 'uint256', indexed: false },
+    ],
+  },
+] as const;
+
+// ============ 类型 ============
+export interface CreatorEvent {
+  id: string;                 // `${txHash}-${logIndex}`
+  type: 'buy' | 'sell' | 'launch';
+  handleHash: `0x${string}`;
+  user: string;
+  amount: number;             // 份额数量（launch 为 0）
+  value: bigint;              // buy: 含手续费总成本；sell: 扣费后实收（USDC 6 位）
+  blockNumber: bigint;
+  logIndex: number;
+  txHash: `0x${string}`;
+  timestamp: number;          // 毫秒
+}
+
+export interface Activity {
+  id: string;
+  type: 'buy' | 'sell' | 'launch';
+  user: string;
+  creatorHandle: string;
+  creatorName: string;
+  amount: number;
+  price: number;
+  totalValue: number;
+  timestamp: number;
+  txHash?: string;
+  blockNumber?: number;
+}
+
+// ============ 工具函数 ============
+export function getHandleHash(handle: string): `0x${string}` {
+  return keccak256(toBytes(handle));
+}
+
+function compareEvents(a: CreatorEvent, b: CreatorEvent): number {
+  if (a.blockNumber !== b.blockNumber) return a.blockNumber < b.blockNumber ? -1 : 1;
+  return a.logIndex - b.logIndex;
+}
+
+/// 合并两批事件（按 id 去重，按区块顺序排序）
+export function mergeEvents(existing: CreatorEvent[], incoming: CreatorEvent[]): CreatorEvent[] {
+  if (incoming.length === 0) return existing;
+  const seen = new Set(existing.map(e => e.id));
+  const merged = [...existing, ...incoming.filter(e => !seen.has(e.id))];
+  return merged.sort(compareEvents);
+}
+
+// ============ 拉取事件 ============
+/// 拉取 [fromBlock, toBlock] 的 CreatorMarket 事件
+export async function fetchCreatorEvents(
+  client: PublicClient,
+  address: `0x${string}`,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<CreatorEvent[]> {
+  if (fromBlock > toBlock) return [];
+
+  const logs = await getLogsInChunks(fromBlock, toBlock, (start, end) =>
+    client.getLogs({
+      address,
+      events: CREATOR_MARKET_EVENTS_ABI,
+      fromBlock: start,
+      toBlock: end,
+    })
+  );
+
+  const events: Omit<CreatorEvent, 'timestamp'>[] = [];
+  for (const log of logs) {
+    if (log.blockNumber === null || log.transactionHash === null || log.logIndex === null) continue;
+    const base = {
+      id: `${log.transactionHash}-${log.logIndex}`,
+      handleHash: log.args.handle as `0x${string}`,
+      blockNumber: log.blockNumber,
+      logIndex: log.logIndex,
+      txHash: log.transactionHash,
+    };
+
+    if (log.eventName === 'SharesBought') {
+      events.push({ ...base, type: 'buy', user: log.args.buyer!, amount: Number(log.args.amount), value: log.args.cost! });
+    } else if (log.eventName === 'SharesSold') {
+      events.push({ ...base, type: 'sell', user: log.args.seller!, amount: Number(log.args.amount), value: log.args.proceeds! });
+    } else if (log.eventName === 'CreatorRegistered') {
+      events.push({ ...base, type: 'launch', user: log.args.registrant!, amount: 0, value: 0n });
+    }
+  }
+
+  const timestamps = await fetchBlockTimestamps(client, events.map(e => e.blockNumber));
+  return events
+    .map(e => ({ ...e, timestamp: timestamps.get(e.blockNumber) ?? Date.now() }))
+    .sort(compareEvents);
+}
@@ -0,0 +1,93 @@
+// lib/localDev.ts
+// 本地 Hardhat 节点：探测节点 / 合约是否已部署，用节点已解锁的默认账户给钱包发测试 ETH 和 USDC（无需用户签名）
+import { createPublicClient, createTestClient, createWalletClient, http, parseEther, parseUnits } from 'viem';
+import { hardhat } from 'viem/chains';
+import { USDC_DECIMALS } from '@/constants/config';
+import type { Deployment } from '@/constants/deployments';
+
+export type LocalNodeStatus = 'offline' | 'not-deployed' | 'ready';
+
+const HARDHAT_FUNDER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';   // Hardhat 默认账户 #0
+const PROBE_TIMEOUT = 1500;
+
+const FUND_ETH = '10';
+const FUND_USDC = '10000';
+const MIN_ETH = parseEther('1');
+const MIN_USDC = parseUnits('100', USDC_DECIMALS);
+
+const MOCK_USDC_ABI = [
+  {
+    name: 'mint',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [{ name: 'to', type: 'address' }, { name: 'amount', type: 'uint256' }],
+    outputs: [],
+  },
+  {
+    name: 'balanceOf',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'account', type: 'address' }],
+    outputs: [{ type: 'uint256' }],
+  },
+] as const;
+
+function localClients(deployment: Deployment) {
+  const transport = http(deployment.rpcUrl);
+  return {
+    publicClient: createPublicClient({ chain: hardhat, transport }),
+    testClient: createTestClient({ chain: hardhat, mode: 'hardhat', transport }),
+    funder: createWalletClient({ chain: hardhat, account: HARDHAT_FUNDER, transport }),
+  };
+}
+
+/// 直接请求 RPC（不经过 wagmi），节点没启动时快速失败；节点在但合约不在说明需要先跑 deploy:local
+export async function probeLocalNode(deployment: Deployment): Promise<LocalNodeStatus> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), PROBE_TIMEOUT);
+  try {
+    const res = await fetch(deployment.rpcUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'eth_chainId', params: [] }),
+      signal: controller.signal,
+    });
+    const { result } = await res.json();
+    if (Number(result) !== deployment.chainId) return 'offline';
+
+    const code = await localClients(deployment).publicClient.getCode({ address: deployment.predictionMarket });
+    return code && code !== '0x' ? 'ready' : 'not-deployed';
+  } catch {
+    return 'offline';
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/// 余额不足时补足 gas 和 USDC；返回是否实际发了币
+export async function ensureLocalFunds(deployment: Deployment, user: `0x${string}`, force = false): Promise<boolean> {
+  const { publicClient, testClient, funder } = localClients(deployment);
+
+  const [ethBalance, usdcBalance] = await Promise.all([
+    publicClient.getBalance({ address: user }),
+    publicClient.readContract({ address: deployment.usdc, abi: MOCK_USDC_ABI, functionName: 'balanceOf', args: [user] }),
+  ]);
+
+  let funded = false;
+  if (force || ethBalance < MIN_ETH) {
+    await testClient.setBalance({ address: user, value: ethBalance + parseEther(FUND_ETH) });
+    funded = true;
+  }
+  if (force || usdcBalance < MIN_USDC) {
+    const hash = await funder.writeContract({
+      address: deployment.usdc,
+      abi: MOCK_USDC_ABI,
+      functionName: 'mint',
+      args: [user, parseUnits(FUND_USDC, USDC_DECIMALS)],
+    });
+    await publicClient.waitForTransactionReceipt({ hash });
+    funded = true;
+  }
+  if (funded) console.log(`🧪 Funded ${user} on local node`);
+  return funded;
+}
@@ -0,0 +1,74 @@
+import type { PublicClient } from 'viem';
+
+// ============ 常量 ============
+const INITIAL_CHUNK_SIZE = 50_000n;   // 单次 getLogs 的区块跨度，被节点拒绝时减半
+const MIN_CHUNK_SIZE = 500n;
+const TIMESTAMP_CONCURRENCY = 5;
+
+// ============ 工具函数 ============
+/// 部署区块未知时，用 getCode 二分查找合约首次出现的区块
+export async function findDeployBlock(client: PublicClient, address: `0x${string}`): Promise<bigint> {
+  let high = await client.getBlockNumber();
+  let low = 0n;
+  try {
+    while (low < high) {
+      const mid = (low + high) / 2n;
+      const code = await client.getCode({ address, blockNumber: mid });
+      if (code && code !== '0x') {
+        high = mid;
+      } else {
+        low = mid + 1n;
+      }
+    }
+    return low;
+  } catch {
+    // 非归档节点无法查询历史状态，只能从最近的区块开始
+    return high > INITIAL_CHUNK_SIZE ? high - INITIAL_CHUNK_SIZE : 0n;
+  }
+}
+
+/// 分段拉取 [fromBlock, toBlock] 的日志；节点限制区块跨度时自动缩小分段
+export async function getLogsInChunks<T>(
+  fromBlock: bigint,
+  toBlock: bigint,
+  fetchChunk: (fromBlock: bigint, toBlock: bigint) => Promise<T[]>
+): Promise<T[]> {
+  const logs: T[] = [];
+  let chunkSize = INITIAL_CHUNK_SIZE;
+  let start = fromBlock;
+
+  while (start <= toBlock) {
+    const end = start + chunkSize - 1n < toBlock ? start + chunkSize - 1n : toBlock;
+    try {
+      logs.push(...await fetchChunk(start, end));
+    } catch (error) {
+      if (chunkSize <= MIN_CHUNK_SIZE) throw error;
+      chunkSize /= 2n;
+      continue;
+    }
+    start = end + 1n;
+  }
+
+  return logs;
+}
+
+/// 批量读取区块时间戳（毫秒），读取失败的区块用当前时间代替
+export async function fetchBlockTimestamps(client: PublicClient, blockNumbers: bigint[]): Promise<Map<bigint, number>> {
+  const result = new Map<bigint, number>();
+  const queue = [...new Set(blockNumbers)];
+
+  const worker = async () => {
+    while (queue.length > 0) {
+      const blockNumber = queue.shift()!;
+      try {
+        const block = await client.getBlock({ blockNumber });
+        result.set(blockNumber, Number(block.timestamp) * 1000);
+      } catch {
+        result.set(blockNumber, Date.now());
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: TIMESTAMP_CONCURRENCY }, worker));
+  return result;
+}
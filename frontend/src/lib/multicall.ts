@@ -0,0 +1,37 @@
+import type { ContractFunctionParameters, PublicClient } from 'viem';
+
+// ============ 类型 ============
+export type MulticallResult<T = unknown> =
+  | { status: 'success'; result: T; error?: undefined }
+  | { status: 'failure'; result?: undefined; error: Error };
+
+// ============ 常量 ============
+const DEFAULT_CHUNK_SIZE = 100;   // 每个 multicall 请求里的调用数，过大容易被公共节点拒绝
+
+// ============ 批量读取 ============
+/// 分块 multicall；单个调用 revert 只影响自己的结果，整块请求失败（如链上没有 multicall3）时逐个回退到 readContract
+export async function multicallChunked(
+  client: PublicClient,
+  contracts: readonly ContractFunctionParameters[],
+  chunkSize: number = DEFAULT_CHUNK_SIZE
+): Promise<MulticallResult[]> {
+  const results: MulticallResult[] = [];
+
+  for (let start = 0; start < contracts.length; start += chunkSize) {
+    const chunk = contracts.slice(start, start + chunkSize);
+    try {
+      const chunkResults = await client.multicall({ contracts: chunk, allowFailure: true });
+      results.push(...(chunkResults as MulticallResult[]));
+    } catch (error) {
+      console.warn('Multicall failed, falling back to individual reads:', error);
+      const settled = await Promise.allSettled(chunk.map(call => client.readContract(call)));
+      results.push(...settled.map((s): MulticallResult =>
+        s.status === 'fulfilled'
+          ? { status: 'success', result: s.value }
+          : { status: 'failure', error: s.reason as Error }
+      ));
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,347 @@
+import { formatUnits, type PublicClient } from 'viem';
+import { USDC_DECIMALS } from '@/constants/config';
+import { fetchBlockTimestamps, getLogsInChunks } from '@/lib/logs';
+import { CreatorEvent, getHandleHash } from '@/lib/creatorIndexer';
+import { multicallChunked } from '@/lib/multicall';
+import { CurveState, getCurrentPrice } from '@/utils/bondingCurve';
+import { normalizePrices } from '@/utils/marketMath';
+
+// ============ 事件 ABI ============
+const SHARES_PURCHASED_EVENT = {
+  name: 'SharesPurchased',
+  type: 'event',
+  inputs: [
+    { name: 'marketId', type: 'uint256', indexed: true },
+    { name: 'buyer', type: 'address', indexed: true },
+    { name: 'outcomeIndex', type: 'uint8', indexed: false },
+    { name: 'usdcAmount', type: 'uint256', indexed: false },
+    { name: 'shares', type: 'uint256', indexed: false },
+  ],
+} as const;
+
+const SHARES_SOLD_EVENT = {
+  name: 'SharesSold',
+  type: 'event',
+  inputs: [
+    { name: 'marketId', type: 'uint256', indexed: true },
+    { name: 'seller', type: 'address', indexed: true },
+    { name: 'outcomeIndex', type: 'uint8', indexed: false },
+    { name: 'shares', type: 'uint256', indexed: false },
+    { name: 'usdcOut', type: 'uint256', indexed: false },
+  ],
+} as const;
+
+const WINNINGS_CLAIMED_EVENT = {
+  name: 'WinningsClaimed',
+  type: 'event',
+  inputs: [
+    { name: 'marketId', type: 'uint256', indexed: true },
+    { name: 'user', type: 'address', indexed: true },
+    { name: 'amount', type: 'uint256', indexed: false },
+  ],
+} as const;
+
+const REFUND_CLAIMED_EVENT = {
+  name: 'RefundClaimed',
+  type: 'event',
+  inputs: [
+    { name: 'marketId', type: 'uint256', indexed: true },
+    { name: 'user', type: 'address', indexed: true },
+    { name: 'amount', type: 'uint256', indexed: false },
+  ],
+} as const;
+
+const TRANSFER_EVENT = {
+  name: 'Transfer',
+  type: 'event',
+  inputs: [
+    { name: 'from', type: 'address', indexed: true },
+    { name: 'to', type: 'address', indexed: true },
+    { name: 'value', type: 'uint256', indexed: false },
+  ],
+} as const;
+
+const GET_PRICE_HISTORY_ABI = [
+  {
+    name: 'getPriceHistory',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'marketId', type: 'uint256' }],
+    outputs: [
+      { name: 'timestamps', type: 'uint256[]' },
+      { name: 'prices', type: 'uint256[][]' },
+    ],
+  },
+] as const;
+
+// ============ 类型 ============
+export type HistoryRange = '24h' | '7d' | '30d' | 'all';
+
+export interface PredictionTrade {
+  id: string;
+  marketId: number;
+  type: 'buy' | 'sell' | 'claim' | 'refund';
+  outcomeIndex: number;
+  shares: bigint;
+  blockNumber: bigint;
+  timestamp: number;
+}
+
+export interface UsdcTransfer {
+  id: string;
+  delta: bigint;            // 对该地址的净流入（转出为负）
+  blockNumber: bigint;
+  timestamp: number;
+}
+
+export interface MarketPriceSeries {
+  timestamps: number[];     // 毫秒
+  prices: number[][];       // 基点
+}
+
+export interface PortfolioPoint {
+  timestamp: number;
+  date: string;
+  value: number;
+}
+
+export interface PortfolioReplayInput {
+  range: HistoryRange;
+  now: number;
+  address: string;
+  usdcBalance: number;
+  transfers: UsdcTransfer[];
+  creatorEvents: CreatorEvent[];
+  creators: (CurveState & { handle: string })[];
+  predictionTrades: PredictionTrade[];
+  priceHistories: Map<number, MarketPriceSeries>;
+}
+
+// ============ 常量 ============
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const MAX_ALL_POINTS = 60;
+
+// ============ 拉取日志 ============
+async function withTimestamps<T extends { blockNumber: bigint }>(client: PublicClient, items: T[]) {
+  const timestamps = await fetchBlockTimestamps(client, items.map(i => i.blockNumber));
+  return items.map(i => ({ ...i, timestamp: timestamps.get(i.blockNumber) ?? Date.now() }));
+}
+
+/// 地址在 PredictionMarket 上的买入 / 卖出 / 领奖 / 退款记录（挂单成交和 takeSellOrders 也发 SharesPurchased / SharesSold）
+export async function fetchPredictionTrades(
+  client: PublicClient,
+  address: `0x${string}`,
+  user: `0x${string}`,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<PredictionTrade[]> {
+  if (fromBlock > toBlock) return [];
+
+  const [bought, sold, claimed, refunded] = await Promise.all([
+    getLogsInChunks(fromBlock, toBlock, (start, end) =>
+      client.getLogs({ address, event: SHARES_PURCHASED_EVENT, args: { buyer: user }, fromBlock: start, toBlock: end })),
+    getLogsInChunks(fromBlock, toBlock, (start, end) =>
+      client.getLogs({ address, event: SHARES_SOLD_EVENT, args: { seller: user }, fromBlock: start, toBlock: end })),
+    getLogsInChunks(fromBlock, toBlock, (start, end) =>
+      client.getLogs({ address, event: WINNINGS_CLAIMED_EVENT, args: { user }, fromBlock: start, toBlock: end })),
+    getLogsInChunks(fromBlock, toBlock, (start, end) =>
+      client.getLogs({ address, event: REFUND_CLAIMED_EVENT, args: { user }, fromBlock: start, toBlock: end })),
+  ]);
+
+  const trades: Omit<PredictionTrade, 'timestamp'>[] = [
+    ...bought.map(log => ({
+      id: `${log.transactionHash}-${log.logIndex}`,
+      marketId: Number(log.args.marketId),
+      type: 'buy' as const,
+      outcomeIndex: Number(log.args.outcomeIndex),
+      shares: log.args.shares!,
+      blockNumber: log.blockNumber,
+    })),
+    ...sold.map(log => ({
+      id: `${log.transactionHash}-${log.logIndex}`,
+      marketId: Number(log.args.marketId),
+      type: 'sell' as const,
+      outcomeIndex: Number(log.args.outcomeIndex),
+      shares: log.args.shares!,
+      blockNumber: log.blockNumber,
+    })),
+    ...claimed.map(log => ({
+      id: `${log.transactionHash}-${log.logIndex}`,
+      marketId: Number(log.args.marketId),
+      type: 'claim' as const,
+      outcomeIndex: 0,
+      shares: 0n,
+      blockNumber: log.blockNumber,
+    })),
+    ...refunded.map(log => ({
+      id: `${log.transactionHash}-${log.logIndex}`,
+      marketId: Number(log.args.marketId),
+      type: 'refund' as const,
+      outcomeIndex: 0,
+      shares: 0n,
+      blockNumber: log.blockNumber,
+    })),
+  ];
+
+  return withTimestamps(client, trades);
+}
+
+/// 地址的 USDC 转入 / 转出记录，用于从当前余额倒推历史余额
+export async function fetchUsdcTransfers(
+  client: PublicClient,
+  address: `0x${string}`,
+  user: `0x${string}`,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<UsdcTransfer[]> {
+  if (fromBlock > toBlock) return [];
+
+  const [outgoing, incoming] = await Promise.all([
+    getLogsInChunks(fromBlock, toBlock, (start, end) =>
+      client.getLogs({ address, event: TRANSFER_EVENT, args: { from: user }, fromBlock: start, toBlock: end })),
+    getLogsInChunks(fromBlock, toBlock, (start, end) =>
+      client.getLogs({ address, event: TRANSFER_EVENT, args: { to: user }, fromBlock: start, toBlock: end })),
+  ]);
+
+  const transfers: Omit<UsdcTransfer, 'timestamp'>[] = [
+    ...outgoing.map(log => ({ id: `${log.transactionHash}-${log.logIndex}-out`, delta: -log.args.value!, blockNumber: log.blockNumber })),
+    ...incoming.map(log => ({ id: `${log.transactionHash}-${log.logIndex}-in`, delta: log.args.value!, blockNumber: log.blockNumber })),
+  ];
+
+  return withTimestamps(client, transfers);
+}
+
+/// 批量读取市场的链上价格历史
+export async function fetchMarketPriceHistories(
+  client: PublicClient,
+  address: `0x${string}`,
+  marketIds: number[]
+): Promise<Map<number, MarketPriceSeries>> {
+  const results = await multicallChunked(
+    client,
+    marketIds.map(id => ({
+      address,
+      abi: GET_PRICE_HISTORY_ABI,
+      functionName: 'getPriceHistory',
+      args: [BigInt(id)],
+    }))
+  );
+
+  const histories = new Map<number, MarketPriceSeries>();
+  marketIds.forEach((id, i) => {
+    const result = results[i];
+    if (result.status === 'failure') return;
+    const [timestamps, prices] = result.result as readonly [readonly bigint[], readonly (readonly bigint[])[]];
+    histories.set(id, {
+      timestamps: timestamps.map(ts => Number(ts) * 1000),
+      prices: prices.map(p => normalizePrices(p)),
+    });
+  });
+  return histories;
+}
+
+// ============ 时间轴 ============
+function getSampleTimes(range: HistoryRange, now: number, firstActivity: number): number[] {
+  let start: number;
+  let step: number;
+  switch (range) {
+    case '24h': start = now - DAY; step = HOUR; break;
+    case '7d': start = now - 7 * DAY; step = 6 * HOUR; break;
+    case '30d': start = now - 30 * DAY; step = DAY; break;
+    default: {
+      start = Math.min(firstActivity, now - DAY);
+      const span = now - start;
+      step = span / MAX_ALL_POINTS > DAY
+        ? Math.ceil(span / MAX_ALL_POINTS / DAY) * DAY
+        : Math.max(HOUR, Math.ceil(span / MAX_ALL_POINTS / HOUR) * HOUR);
+    }
+  }
+
+  const times: number[] = [];
+  for (let t = now; t >= start; t -= step) times.unshift(t);
+  return times;
+}
+
+function formatPointDate(timestamp: number, range: HistoryRange): string {
+  const date = new Date(timestamp);
+  if (range === '24h') return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+  if (range === '7d') return date.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit' });
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+function priceAt(series: MarketPriceSeries | undefined, t: number): number[] {
+  if (!series || series.timestamps.length === 0) return [];
+  let index = 0;
+  for (let i = 0; i < series.timestamps.length; i++) {
+    if (series.timestamps[i] > t) break;
+    index = i;
+  }
+  return series.prices[index];
+}
+
+// ============ 回放 ============
+/// 在每个采样时间点回放交易：USDC 余额 + creator 持仓 × 当时曲线价格 + 预测市场持仓 × 当时概率
+/// 挂单锁定在合约里的 USDC 不计入（与当前余额口径一致）
+export function buildPortfolioSeries(input: PortfolioReplayInput): PortfolioPoint[] {
+  const { range, now, address, usdcBalance, transfers, creatorEvents, creators, predictionTrades, priceHistories } = input;
+  const me = address.toLowerCase();
+
+  const myCreatorEvents = creatorEvents.filter(e => e.type !== 'launch' && e.user.toLowerCase() === me);
+  const tradedHashes = new Set(myCreatorEvents.map(e => e.handleHash));
+  const curves = creators
+    .map(c => ({ curve: c, hash: getHandleHash(c.handle) }))
+    .filter(c => tradedHashes.has(c.hash));
+
+  const firstActivity = Math.min(
+    now,
+    ...transfers.map(t => t.timestamp),
+    ...myCreatorEvents.map(e => e.timestamp),
+    ...predictionTrades.map(t => t.timestamp),
+  );
+
+  return getSampleTimes(range, now, firstActivity).map(t => {
+    // USDC：当前余额减去 t 之后的净流入
+    const laterInflow = transfers
+      .filter(tr => tr.timestamp > t)
+      .reduce((sum, tr) => sum + tr.delta, 0n);
+    let value = usdcBalance - Number(formatUnits(laterInflow, USDC_DECIMALS));
+
+    // Creator：t 时刻的总供应量决定曲线价格
+    for (const { curve, hash } of curves) {
+      let supply = 0;
+      let holding = 0;
+      for (const e of creatorEvents) {
+        if (e.timestamp > t || e.handleHash !== hash || e.type === 'launch') continue;
+        const signed = e.type === 'buy' ? e.amount : -e.amount;
+        supply += signed;
+        if (e.user.toLowerCase() === me) holding += signed;
+      }
+      if (holding <= 0) continue;
+      const price = Number(formatUnits(getCurrentPrice(curve, BigInt(Math.max(0, supply))), USDC_DECIMALS));
+      value += holding * price;
+    }
+
+    // 预测市场：按 t 时刻的链上价格历史估值，领奖 / 退款后持仓清零（到账的 USDC 已计入余额）
+    const positions = new Map<number, bigint[]>();
+    for (const trade of predictionTrades) {
+      if (trade.timestamp > t) continue;
+      if (trade.type === 'claim' || trade.type === 'refund') {
+        positions.delete(trade.marketId);
+        continue;
+      }
+      const shares = positions.get(trade.marketId) || [];
+      while (shares.length <= trade.outcomeIndex) shares.push(0n);
+      shares[trade.outcomeIndex] += trade.type === 'buy' ? trade.shares : -trade.shares;
+      positions.set(trade.marketId, shares);
+    }
+    positions.forEach((shares, marketId) => {
+      const prices = priceAt(priceHistories.get(marketId), t);
+      shares.forEach((s, i) => {
+        if (s > 0n && prices[i] !== undefined) value += Number(formatUnits(s, 18)) * prices[i] / 10000;
+      });
+    });
+
+    return { timestamp: t, date: formatPointDate(t, range), value: Math.max(0, value) };
+  });
+}
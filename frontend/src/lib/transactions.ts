@@ -0,0 +1,134 @@
+// lib/transactions.ts
+// 交易生命周期：已提交的交易按钱包地址持久化到 localStorage，刷新页面后继续跟踪回执
+import type { PublicClient, TransactionReceipt } from 'viem';
+import { DecodedTxError, decodeTxError, formatTxError } from '@/utils/txErrors';
+
+export type TxStatus = 'pending' | 'confirmed' | 'failed';
+
+export interface TrackedTx {
+  id: string;             // 已提交的交易用 hash；提交前就失败的操作没有 hash，只在本次会话里展示
+  hash?: `0x${string}`;
+  chainId: number;
+  label: string;          // 通知里展示的描述，如 "Buy Yes · 10 USDC"
+  status: TxStatus;
+  submittedAt: number;
+  settledAt?: number;
+  error?: string;
+  hint?: string;
+  warning?: string;       // 已确认但需要用户留意，如实际成交超出滑点容忍度
+}
+
+const STORAGE_PREFIX = 'attention_fi_txs_';
+const MAX_STORED = 30;
+
+// 交易上链后回滚 / 被节点丢弃；reason 为重放得到的 revert 字符串
+export class TransactionFailedError extends Error {
+  constructor(public readonly hash: `0x${string}`, message: string, public readonly reason?: string) {
+    super(message);
+    this.name = 'TransactionFailedError';
+  }
+}
+
+// hook 写操作对外抛出的错误：已解码、已在通知托盘里展示，组件不需要再弹窗
+export class TxError extends Error {
+  constructor(public readonly decoded: DecodedTxError, public readonly original?: unknown) {
+    super(formatTxError(decoded));
+    this.name = 'TxError';
+  }
+}
+
+function storageKey(account: string) {
+  return `${STORAGE_PREFIX}${account.toLowerCase()}`;
+}
+
+export function loadTransactions(account: string): TrackedTx[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const raw = localStorage.getItem(storageKey(account));
+    const txs: TrackedTx[] = raw ? JSON.parse(raw) : [];
+    return txs.map(tx => ({ ...tx, id: tx.id ?? tx.hash }));
+  } catch {
+    return [];
+  }
+}
+
+export function saveTransactions(account: string, txs: TrackedTx[]) {
+  if (typeof window === 'undefined') return;
+  const submitted = txs.filter(tx => tx.hash).slice(0, MAX_STORED);
+  localStorage.setItem(storageKey(account), JSON.stringify(submitted));
+}
+
+/// 等待回执，回滚视为失败；resume 时先确认节点还认识这笔交易（本地节点重启、交易被替换丢弃时不会无限等待）
+export async function waitForTransaction(
+  client: PublicClient,
+  hash: `0x${string}`,
+  resume = false
+): Promise<TransactionReceipt> {
+  let receipt: TransactionReceipt | null = null;
+  if (resume) {
+    receipt = await client.getTransactionReceipt({ hash }).catch(() => null);
+    if (!receipt) {
+      const tx = await client.getTransaction({ hash }).catch(() => null);
+      if (!tx) throw new TransactionFailedError(hash, 'Transaction was dropped');
+    }
+  }
+  receipt ??= await client.waitForTransactionReceipt({ hash });
+  if (receipt.status === 'reverted') {
+    const reason = await replayRevertReason(client, hash, receipt.blockNumber);
+    throw new TransactionFailedError(hash, reason ? `Transaction reverted: ${reason}` : 'Transaction reverted', reason);
+  }
+  return receipt;
+}
+
+/// 回执里没有 revert 原因，在上一个区块的状态上重放一次 eth_call 拿到 require 字符串
+async function replayRevertReason(client: PublicClient, hash: `0x${string}`, blockNumber: bigint) {
+  try {
+    const tx = await client.getTransaction({ hash });
+    await client.call({ account: tx.from, to: tx.to, data: tx.input, value: tx.value, blockNumber: blockNumber - 1n });
+  } catch (error) {
+    return decodeTxError(error).reason;
+  }
+  return undefined;
+}
+
+// ============ 交易预估 ============
+export interface TxPreview {
+  gasCost?: bigint;           // 预估 gas 费（wei）
+  needsApproval?: boolean;    // USDC 授权不足：交易要在 approve 之后才能完整模拟
+  error?: DecodedTxError;     // 模拟失败，发送必然 revert
+  steps?: TxPreviewStep[];    // 分成多笔发送时每一笔的预估
+}
+
+export interface TxPreviewStep {
+  label: string;
+  gasCost?: bigint;
+  needsApproval?: boolean;
+  error?: DecodedTxError;
+}
+
+const ALLOWANCE_REASONS = ['ERC20: insufficient allowance'];
+
+/// estimate 会先在节点上 eth_call 模拟，revert 时直接拿到解码后的原因；成功则按当前 gas price 换算成 ETH
+export async function previewTransaction(client: PublicClient, estimate: () => Promise<bigint>): Promise<TxPreview> {
+  try {
+    const [gas, gasPrice] = await Promise.all([estimate(), client.getGasPrice()]);
+    return { gasCost: gas * gasPrice };
+  } catch (error) {
+    const decoded = decodeTxError(error);
+    if (decoded.reason && ALLOWANCE_REASONS.includes(decoded.reason)) return { needsApproval: true };
+    return { error: decoded };
+  }
+}
+
+/// 多笔交易（如分单买入）逐笔模拟：gas 费相加，任一笔会 revert 整体就算失败
+export async function previewTransactions(
+  client: PublicClient,
+  calls: { label: string; estimate: () => Promise<bigint> }[]
+): Promise<TxPreview> {
+  const results = await Promise.all(calls.map(call => previewTransaction(client, call.estimate)));
+  const steps = results.map((result, i) => ({ label: calls[i].label, ...result }));
+  const failed = results.find(result => result.error);
+  if (failed) return { error: failed.error, steps };
+  if (results.some(result => result.needsApproval)) return { needsApproval: true, steps };
+  return { gasCost: results.reduce((sum, result) => sum + (result.gasCost ?? 0n), 0n), steps };
+}
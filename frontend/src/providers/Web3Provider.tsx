@@ -11,19 +11,25 @@ import {
 } from '@rainbow-me/rainbowkit';
 import { WagmiProvider, http } from 'wagmi';
 import { sepolia } from 'wagmi/chains';
+import type { Chain, Transport } from 'viem';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { useState, useEffect } from 'react';
 import { useTheme } from 'next-themes';
+import { DEFAULT_CHAIN_ID, DEPLOYMENTS, SUPPORTED_CHAINS } from '@/constants/deployments';
+
+// 只配置有合约部署的网络，默认网络排在第一个（未连接钱包时读取它）
+const chains = (SUPPORTED_CHAINS.length > 0
+  ? [...SUPPORTED_CHAINS].sort((a, b) => Number(b.id === DEFAULT_CHAIN_ID) - Number(a.id === DEFAULT_CHAIN_ID))
+  : [sepolia]) as [Chain, ...Chain[]];
 
 // 使用更稳定的公共 RPC 节点（替换默认的 thirdweb）
 const config = getDefaultConfig({
   appName: 'Attention.Fi',
   projectId: process.env.NEXT_PUBLIC_WALLETCONNECT_PROJECT_ID || '',
-  chains: [sepolia],
-  transports: {
-    // 使用多个备用 RPC，避免单点限流
-    [sepolia.id]: http('https://ethereum-sepolia-rpc.publicnode.com'),
-  },
+  chains,
+  transports: Object.fromEntries(
+    chains.map(chain => [chain.id, http(DEPLOYMENTS[chain.id]?.rpcUrl)])
+  ) as Record<number, Transport>,
   ssr: true,
 });
 
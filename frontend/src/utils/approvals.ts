@@ -0,0 +1,40 @@
+// utils/approvals.ts
+// USDC 授权策略：按需精确授权 / 授权到上限 / 无限授权
+import { maxUint256, parseUnits } from 'viem';
+import { DEFAULT_APPROVAL_CAP_USDC, USDC_DECIMALS } from '@/constants/config';
+
+export type ApprovalMode = 'exact' | 'capped' | 'unlimited';
+
+export interface ApprovalPolicy {
+  mode: ApprovalMode;
+  capUsdc: number;        // 仅 capped 模式使用；单笔需要的金额超过上限时仍按实际需要授权
+}
+
+export const DEFAULT_APPROVAL_POLICY: ApprovalPolicy = { mode: 'exact', capUsdc: DEFAULT_APPROVAL_CAP_USDC };
+
+export const APPROVAL_MODE_LABELS: Record<ApprovalMode, { title: string; description: string }> = {
+  exact: { title: 'Exact', description: 'Approve only what each trade needs. One extra signature per trade.' },
+  capped: { title: 'Capped', description: 'Approve up to a fixed amount so several trades share one approval.' },
+  unlimited: { title: 'Unlimited', description: 'Approve once and never again. The contract can spend all your USDC.' },
+};
+
+// 超过这个值就按无限授权展示（部分代币在扣减无限授权时会减少一点）
+const UNLIMITED_THRESHOLD = maxUint256 / 2n;
+
+/// 按策略计算这次 approve 的金额
+export function approvalAmount(required: bigint, policy: ApprovalPolicy): bigint {
+  switch (policy.mode) {
+    case 'unlimited':
+      return maxUint256;
+    case 'capped': {
+      const cap = parseUnits(policy.capUsdc.toString(), USDC_DECIMALS);
+      return cap > required ? cap : required;
+    }
+    default:
+      return required;
+  }
+}
+
+export function isUnlimitedAllowance(amount: bigint): boolean {
+  return amount >= UNLIMITED_THRESHOLD;
+}
@@ -0,0 +1,164 @@
+// utils/bondingCurve.ts
+// BondingCurve.sol + CreatorMarketV3 报价逻辑的 TS 移植（bigint 逐步对齐合约的整数除法）
+import { formatUnits } from 'viem';
+import { CurveType, USDC_DECIMALS } from '@/constants/config';
+
+export const FEE_BPS = 500n;              // 5% 手续费，与 CreatorMarketV3.FEE_BPS 一致
+export const BPS = 10000n;
+export const MAX_BUY_PER_TX = 1000;       // 合约限制: "Max 1000 per tx"
+
+export interface CurveState {
+  curveType: CurveType;
+  curveA: bigint;
+  curveB: bigint;
+  inflectionPoint: bigint;
+  totalSupply: number;
+}
+
+export interface BuyQuote {
+  cost: number;          // 曲线积分成本（不含手续费）
+  fee: number;
+  totalCost: number;     // 实际转出的 USDC
+  avgPrice: number;      // 含手续费的平均单价
+  priceAfter: number;
+  priceImpact: number;   // 相对当前价格的百分比变化
+}
+
+export interface SellQuote {
+  proceeds: number;      // 曲线积分收益（扣费前）
+  fee: number;
+  netProceeds: number;   // 实际到账的 USDC
+  avgPrice: number;      // 扣费后的平均单价
+  priceAfter: number;
+  priceImpact: number;
+}
+
+// ============ Sigmoid 单点价格（分段线性近似） ============
+function sigmoidPrice(supply: bigint, A: bigint, B: bigint, inflectionPoint: bigint): bigint {
+  // 拐点为 0 时合约会除零 revert；这里退化为底价，避免渲染时抛 RangeError
+  if (inflectionPoint === 0n) return B;
+  const halfPoint = inflectionPoint / 2n;
+  const threeHalfPoint = (inflectionPoint * 3n) / 2n;
+
+  if (supply < halfPoint) {
+    return B + (A * supply * supply) / (4n * inflectionPoint * halfPoint);
+  } else if (supply < threeHalfPoint) {
+    const midProgress = supply - halfPoint;
+    return B + A / 4n + (A * midProgress) / inflectionPoint;
+  } else {
+    const lateProgress = supply - threeHalfPoint;
+    const remaining = A / 4n;
+    const decay = inflectionPoint + lateProgress;
+    return B + (A * 3n) / 4n + (remaining * lateProgress) / decay;
+  }
+}
+
+// ============ 统一接口（返回 USDC 6 位精度的 bigint） ============
+export function getCurrentPrice(curve: CurveState, supply: bigint = BigInt(curve.totalSupply)): bigint {
+  const { curveA: A, curveB: B, inflectionPoint } = curve;
+  switch (curve.curveType) {
+    case CurveType.LINEAR:
+      return A * supply + B;
+    case CurveType.EXPONENTIAL:
+      return B + A * supply * supply;
+    default:
+      return sigmoidPrice(supply, A, B, inflectionPoint);
+  }
+}
+
+export function getBuyPrice(curve: CurveState, amount: bigint): bigint {
+  const { curveA: A, curveB: B, inflectionPoint } = curve;
+  const supply = BigInt(curve.totalSupply);
+
+  switch (curve.curveType) {
+    case CurveType.LINEAR: {
+      const sum1 = (supply + amount) * (supply + amount);
+      const sum2 = supply * supply;
+      return (A * (sum1 - sum2)) / 2n + B * amount;
+    }
+    case CurveType.EXPONENTIAL: {
+      const newSupply = supply + amount;
+      const cost1 = B * newSupply + (A * newSupply * newSupply * newSupply) / 3n;
+      const cost0 = B * supply + (A * supply * supply * supply) / 3n;
+      return cost1 - cost0;
+    }
+    default: {
+      let total = 0n;
+      for (let i = 0n; i < amount; i++) {
+        total += sigmoidPrice(supply + i, A, B, inflectionPoint);
+      }
+      return total;
+    }
+  }
+}
+
+export function getSellPrice(curve: CurveState, amount: bigint): bigint {
+  const { curveA: A, curveB: B, inflectionPoint } = curve;
+  const supply = BigInt(curve.totalSupply);
+  if (amount > supply) throw new Error('Insufficient supply');
+
+  switch (curve.curveType) {
+    case CurveType.LINEAR: {
+      const sum1 = supply * supply;
+      const sum2 = (supply - amount) * (supply - amount);
+      return (A * (sum1 - sum2)) / 2n + B * amount;
+    }
+    case CurveType.EXPONENTIAL: {
+      const newSupply = supply - amount;
+      const cost0 = B * supply + (A * supply * supply * supply) / 3n;
+      const cost1 = B * newSupply + (A * newSupply * newSupply * newSupply) / 3n;
+      return cost0 - cost1;
+    }
+    default: {
+      let total = 0n;
+      for (let i = 0n; i < amount; i++) {
+        total += sigmoidPrice(supply - 1n - i, A, B, inflectionPoint);
+      }
+      return total;
+    }
+  }
+}
+
+// ============ 报价（与 buyShares / sellShares 的手续费计算一致） ============
+const toUsdc = (value: bigint) => Number(formatUnits(value, USDC_DECIMALS));
+
+/// 拐点为 0 的 Sigmoid 曲线合约无法报价
+function isQuotable(curve: CurveState): boolean {
+  return curve.curveType !== CurveType.SIGMOID || curve.inflectionPoint > 0n;
+}
+
+export function quoteBuy(curve: CurveState, amount: number): BuyQuote | null {
+  if (amount <= 0 || !isQuotable(curve)) return null;
+  const shares = BigInt(amount);
+  const cost = getBuyPrice(curve, shares);
+  const fee = (cost * FEE_BPS) / BPS;
+  const priceBefore = getCurrentPrice(curve);
+  const priceAfter = getCurrentPrice(curve, BigInt(curve.totalSupply) + shares);
+
+  return {
+    cost: toUsdc(cost),
+    fee: toUsdc(fee),
+    totalCost: toUsdc(cost + fee),
+    avgPrice: toUsdc(cost + fee) / amount,
+    priceAfter: toUsdc(priceAfter),
+    priceImpact: priceBefore > 0n ? (toUsdc(priceAfter) / toUsdc(priceBefore) - 1) * 100 : 0,
+  };
+}
+
+export function quoteSell(curve: CurveState, amount: number): SellQuote | null {
+  if (amount <= 0 || amount > curve.totalSupply || !isQuotable(curve)) return null;
+  const shares = BigInt(amount);
+  const proceeds = getSellPrice(curve, shares);
+  const fee = (proceeds * FEE_BPS) / BPS;
+  const priceBefore = getCurrentPrice(curve);
+  const priceAfter = getCurrentPrice(curve, BigInt(curve.totalSupply) - shares);
+
+  return {
+    proceeds: toUsdc(proceeds),
+    fee: toUsdc(fee),
+    netProceeds: toUsdc(proceeds - fee),
+    avgPrice: toUsdc(proceeds - fee) / amount,
+    priceAfter: toUsdc(priceAfter),
+    priceImpact: priceBefore > 0n ? (toUsdc(priceAfter) / toUsdc(priceBefore) - 1) * 100 : 0,
+  };
+}
@@ -0,0 +1,50 @@
+// utils/conditionalOrders.ts
+// 止损 / 止盈条件单：只存在浏览器里，价格穿过阈值后提示用户签名 sellShares（价格为基点，10000 = 100%）
+
+export type ConditionKind = 'stopLoss' | 'takeProfit';
+
+export type ConditionStatus =
+  | 'active'
+  | 'triggered'     // 已触发，等待用户签名卖出
+  | 'executed'
+  | 'dismissed'     // 触发后用户放弃，或市场已关闭
+  | 'cancelled';    // 触发前用户删除
+
+export interface ConditionalOrder {
+  id: string;
+  marketId: number;
+  outcomeIndex: number;
+  kind: ConditionKind;
+  triggerBps: number;
+  sellFractionBps: number;    // 触发时卖出持仓的比例，10000 = 全部
+  createdAt: number;
+  status: ConditionStatus;
+  triggeredAt?: number;
+  triggerPriceBps?: number;   // 触发时的实际价格
+  settledAt?: number;
+  note?: string;              // 执行结果 / 放弃原因
+}
+
+export const CONDITION_LABELS: Record<ConditionKind, string> = {
+  stopLoss: 'Stop-loss',
+  takeProfit: 'Take-profit',
+};
+
+export const SELL_FRACTION_OPTIONS = [2500, 5000, 7500, 10000];
+
+/// 止损：价格跌破阈值；止盈：价格涨过阈值
+export function isTriggered(order: Pick<ConditionalOrder, 'kind' | 'triggerBps'>, priceBps: number): boolean {
+  return order.kind === 'stopLoss' ? priceBps < order.triggerBps : priceBps > order.triggerBps;
+}
+
+/// 按当前持仓计算卖出份额（持仓可能在设置条件后变化）
+export function sharesToSell(position: bigint, sellFractionBps: number): bigint {
+  return (position * BigInt(sellFractionBps)) / 10000n;
+}
+
+/// 用于列表展示，如 "Sell all YES if < 30%"
+export function describeCondition(order: Pick<ConditionalOrder, 'kind' | 'triggerBps' | 'sellFractionBps'>, outcomeLabel: string): string {
+  const size = order.sellFractionBps === 10000 ? 'all' : `${order.sellFractionBps / 100}%`;
+  const op = order.kind === 'stopLoss' ? '<' : '>';
+  return `Sell ${size} ${outcomeLabel} if ${op} ${(order.triggerBps / 100).toFixed(0)}%`;
+}
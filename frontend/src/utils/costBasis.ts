@@ -0,0 +1,93 @@
+// utils/costBasis.ts
+// 根据用户的买卖记录计算持仓成本、已实现 / 未实现盈亏和手续费
+import { BPS, FEE_BPS } from '@/utils/bondingCurve';
+
+export type CostBasisMethod = 'fifo' | 'average';
+
+export interface Trade {
+  type: 'buy' | 'sell';
+  amount: number;       // 份额
+  value: number;        // buy: 含手续费总成本；sell: 扣费后实收（USDC）
+  timestamp: number;
+}
+
+export interface CostBasisResult {
+  shares: number;           // 记录中推算的剩余持仓
+  costBasis: number;        // 剩余持仓的成本（含买入手续费）
+  avgCost: number;          // 剩余持仓的单位成本
+  realizedPnL: number;      // 卖出实收 - 卖出部分的成本
+  feesPaid: number;         // 买入 + 卖出手续费
+  totalBought: number;      // 累计买入花费
+  totalSold: number;        // 累计卖出实收
+}
+
+const FEE = Number(FEE_BPS);
+const SCALE = Number(BPS);
+
+// 事件里只有含费总额 / 扣费净额，按合约费率反推手续费
+export function buyFee(totalCost: number): number {
+  return (totalCost * FEE) / (SCALE + FEE);
+}
+
+export function sellFee(netProceeds: number): number {
+  return (netProceeds * FEE) / (SCALE - FEE);
+}
+
+/// trades 需按时间升序；卖出超过已知持仓时（索引尚未回溯完整）超出部分按零成本处理
+export function computeCostBasis(trades: Trade[], method: CostBasisMethod): CostBasisResult {
+  const lots: { shares: number; unitCost: number }[] = [];
+  let shares = 0;
+  let costBasis = 0;
+  let realizedPnL = 0;
+  let feesPaid = 0;
+  let totalBought = 0;
+  let totalSold = 0;
+
+  for (const trade of trades) {
+    if (trade.amount <= 0) continue;
+
+    if (trade.type === 'buy') {
+      shares += trade.amount;
+      costBasis += trade.value;
+      totalBought += trade.value;
+      feesPaid += buyFee(trade.value);
+      lots.push({ shares: trade.amount, unitCost: trade.value / trade.amount });
+      continue;
+    }
+
+    totalSold += trade.value;
+    feesPaid += sellFee(trade.value);
+
+    const sold = Math.min(trade.amount, shares);
+    let soldCost = 0;
+    if (method === 'fifo') {
+      let remaining = sold;
+      while (remaining > 0 && lots.length > 0) {
+        const lot = lots[0];
+        const take = Math.min(lot.shares, remaining);
+        soldCost += take * lot.unitCost;
+        lot.shares -= take;
+        remaining -= take;
+        if (lot.shares <= 0) lots.shift();
+      }
+    } else {
+      soldCost = shares > 0 ? (costBasis / shares) * sold : 0;
+    }
+
+    shares -= sold;
+    costBasis = method === 'fifo'
+      ? lots.reduce((sum, lot) => sum + lot.shares * lot.unitCost, 0)
+      : Math.max(0, costBasis - soldCost);
+    realizedPnL += trade.value - soldCost;
+  }
+
+  return {
+    shares,
+    costBasis,
+    avgCost: shares > 0 ? costBasis / shares : 0,
+    realizedPnL,
+    feesPaid,
+    totalBought,
+    totalSold,
+  };
+}
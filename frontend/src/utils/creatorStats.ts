@@ -0,0 +1,58 @@
+// utils/creatorStats.ts
+// 由链上买卖事件推算 creator 的持有人数、24h 成交额和 24h 价格变化
+import { formatUnits } from 'viem';
+import { USDC_DECIMALS } from '@/constants/config';
+import { CurveState, getCurrentPrice } from '@/utils/bondingCurve';
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StatsTrade {
+  type: 'buy' | 'sell' | 'launch';
+  user: string;
+  amount: number;         // 份额
+  value: bigint;          // buy: 含手续费总成本；sell: 扣费后实收（USDC 6 位）
+  timestamp: number;      // 毫秒
+}
+
+export interface CreatorStats {
+  holders: number;          // 余额 > 0 的地址数
+  volume24h: number;        // 最近 24h 买卖的 USDC 总额
+  price24hAgo: number;
+  priceChange24h: number;   // 百分比
+}
+
+/// trades 需为同一 creator 的全部事件；24h 前的供应量由当前供应量倒推，索引不完整时也成立
+export function computeCreatorStats(trades: StatsTrade[], curve: CurveState, now: number = Date.now()): CreatorStats {
+  const balances = new Map<string, number>();
+  const since = now - DAY_MS;
+  let volume = 0n;
+  let netSharesSince = 0;
+
+  for (const trade of trades) {
+    if (trade.type === 'launch') continue;
+    const user = trade.user.toLowerCase();
+    const delta = trade.type === 'buy' ? trade.amount : -trade.amount;
+    balances.set(user, (balances.get(user) || 0) + delta);
+
+    if (trade.timestamp >= since) {
+      volume += trade.value;
+      netSharesSince += delta;
+    }
+  }
+
+  let holders = 0;
+  balances.forEach(balance => {
+    if (balance > 0) holders++;
+  });
+
+  const supplyThen = Math.max(0, curve.totalSupply - netSharesSince);
+  const price = Number(formatUnits(getCurrentPrice(curve), USDC_DECIMALS));
+  const price24hAgo = Number(formatUnits(getCurrentPrice(curve, BigInt(supplyThen)), USDC_DECIMALS));
+
+  return {
+    holders,
+    volume24h: Number(formatUnits(volume, USDC_DECIMALS)),
+    price24hAgo,
+    priceChange24h: price24hAgo > 0 ? ((price - price24hAgo) / price24hAgo) * 100 : 0,
+  };
+}
@@ -0,0 +1,319 @@
+// utils/marketMath.ts
+// LMSR.sol 定点数学 + PredictionMarketV4 的 CPMM 份额计算的 TS 移植（bigint 逐步对齐合约的整数除法）
+import { formatUnits } from 'viem';
+import { PricingAlgorithm, USDC_DECIMALS } from '@/constants/config';
+
+const PRECISION = 10n ** 18n;
+const SHARE_PRECISION = 10n ** 18n;
+const USDC_UNIT = 10n ** 6n;
+const BASIS_POINTS = 10000n;
+const E = 2718281828459045235n;
+const MAX_UINT256 = 2n ** 256n - 1n;
+const MAX_EXPONENT = 20n * PRECISION;
+
+export const DEFAULT_PLATFORM_FEE_BPS = 100;   // 合约默认 platformFee
+
+export interface MarketState {
+  algorithm: number;      // PricingAlgorithm
+  numOutcomes: number;
+  outcomeShares: bigint[];
+  lmsrB: bigint;
+  liquidityPool: bigint;
+  creatorFee: number;     // bps
+  platformFee: number;    // bps
+}
+
+export interface MarketBuyQuote {
+  usdcAmount: bigint;     // 用户支付（含手续费）
+  fee: bigint;            // 平台费 + 创建者费
+  netAmount: bigint;      // 进入池子的金额
+  shares: bigint;         // 获得份额（18 位）
+  avgPrice: number;       // 每份额平均价格（含手续费，USDC）
+  pricesAfter: number[];  // 成交后各选项概率（基点，总和 10000）
+  priceImpact: number;    // 所选选项概率变化（百分点）
+  payoutIfWins: bigint;   // 成交后立即按该选项结算的可领取金额（claimWinnings 按池子比例分配）
+  outcomeSharesAfter: bigint[];   // 成交后的 outcomeShares（连续报价 / 分单路由用）
+}
+
+export interface MarketSellQuote {
+  shares: bigint;
+  grossOut: bigint;       // 扣费前
+  fee: bigint;            // 平台费
+  usdcOut: bigint;        // 实际到账
+  avgPrice: number;       // 每份额平均价格（扣费后，USDC）
+  pricesAfter: number[];
+  priceImpact: number;
+  insufficientLiquidity: boolean;   // 合约会以 "Insufficient liquidity" revert
+}
+
+// ============ LMSR 定点数学 ============
+function expFixed(x: bigint): bigint {
+  if (x < -42n * PRECISION) return 0n;
+  if (x > 42n * PRECISION) return MAX_UINT256;
+
+  const negative = x < 0n;
+  const ux = negative ? -x : x;
+  const intPart = ux / PRECISION;
+  const fracPart = ux % PRECISION;
+
+  // 泰勒级数到 x⁸/8!
+  let result = PRECISION;
+  let term = fracPart;
+  result += term;
+  for (let n = 2n; n <= 8n; n++) {
+    term = (term * fracPart) / PRECISION / n;
+    result += term;
+  }
+
+  for (let i = 0n; i < intPart && i < 50n; i++) {
+    result = (result * E) / PRECISION;
+    if (result > MAX_UINT256 / E) {
+      result = MAX_UINT256;
+      break;
+    }
+  }
+
+  if (negative) {
+    if (result === 0n) return MAX_UINT256;
+    result = (PRECISION * PRECISION) / result;
+  }
+  return result;
+}
+
+function lnFixed(x: bigint): bigint {
+  if (x <= 0n) throw new Error('ln(0) undefined');
+
+  let result = 0n;
+  let y = x;
+  while (y >= E) {
+    y = (y * PRECISION) / E;
+    result += PRECISION;
+  }
+  while (y < PRECISION) {
+    y = (y * E) / PRECISION;
+    result -= PRECISION;
+  }
+
+  // ln(1+z) 泰勒级数到 z⁸/8
+  const z = y - PRECISION;
+  let zPow = z;
+  result += zPow;
+  for (let n = 2n; n <= 8n; n++) {
+    zPow = (zPow * z) / PRECISION;
+    result += n % 2n === 0n ? -(zPow / n) : zPow / n;
+  }
+  return result;
+}
+
+function lmsrExponents(shares: bigint[], b: bigint): bigint[] {
+  return shares.map(q => {
+    const exponent = (q * PRECISION) / b;
+    return expFixed(exponent > MAX_EXPONENT ? MAX_EXPONENT : exponent);
+  });
+}
+
+/// C(q) = b * ln(Σ exp(q_i / b))，返回 USDC 6 位精度
+export function lmsrCost(shares: bigint[], b: bigint): bigint {
+  const sumExp = lmsrExponents(shares, b).reduce((a, v) => a + v, 0n);
+  if (sumExp === 0n) return 0n;
+  const lnSum = lnFixed(sumExp);
+  if (lnSum <= 0n) return 0n;
+  return (b * lnSum) / PRECISION / 10n ** 12n;
+}
+
+export function lmsrBuyCost(shares: bigint[], outcomeIndex: number, amount: bigint, b: bigint): bigint {
+  const before = lmsrCost(shares, b);
+  const after = lmsrCost(shares.map((q, i) => (i === outcomeIndex ? q + amount : q)), b);
+  return after > before ? after - before : 0n;
+}
+
+export function lmsrSellRevenue(shares: bigint[], outcomeIndex: number, amount: bigint, b: bigint): bigint {
+  if (shares[outcomeIndex] < amount) throw new Error('Insufficient shares');
+  const before = lmsrCost(shares, b);
+  const after = lmsrCost(shares.map((q, i) => (i === outcomeIndex ? q - amount : q)), b);
+  return before > after ? before - after : 0n;
+}
+
+// ============ 价格（基点，与合约 getPrices 一致） ============
+function lmsrPrices(shares: bigint[], b: bigint): bigint[] {
+  const expValues = lmsrExponents(shares, b);
+  const sumExp = expValues.reduce((a, v) => a + v, 0n);
+  if (sumExp === 0n) return shares.map(() => BASIS_POINTS / BigInt(shares.length));
+
+  const prices = expValues.map(v => clampPrice((v * BASIS_POINTS) / sumExp));
+  const total = prices.reduce((a, v) => a + v, 0n);
+  if (total !== BASIS_POINTS && prices[0] + (BASIS_POINTS - total) > 100n) {
+    prices[0] += BASIS_POINTS - total;
+  }
+  return prices;
+}
+
+function cpmmPrices(shares: bigint[]): bigint[] {
+  const total = shares.reduce((a, v) => a + v, 0n);
+  if (total === 0n) return shares.map(() => BASIS_POINTS / BigInt(shares.length));
+  return shares.map(q => clampPrice((q * BASIS_POINTS) / total));
+}
+
+function clampPrice(price: bigint): bigint {
+  if (price < 100n) return 100n;
+  if (price > 9900n) return 9900n;
+  return price;
+}
+
+export function getPrices(market: Pick<MarketState, 'algorithm' | 'outcomeShares' | 'lmsrB'>, shares: bigint[] = market.outcomeShares): bigint[] {
+  return market.algorithm === PricingAlgorithm.LMSR ? lmsrPrices(shares, market.lmsrB) : cpmmPrices(shares);
+}
+
+/// 合约价格各自截断到 [100, 9900]，总和不一定是 10000；展示前按比例归一
+export function normalizePrices(rawPrices: readonly (bigint | number)[]): number[] {
+  const values = rawPrices.map(p => Number(p));
+  const sum = values.reduce((a, b) => a + b, 0);
+  return sum > 0 ? values.map(p => Math.round((p / sum) * 10000)) : values;
+}
+
+// ============ 份额计算 ============
+function otherSharesTotal(shares: bigint[], outcomeIndex: number): bigint {
+  return shares.reduce((a, q, i) => (i === outcomeIndex ? a : a + q), 0n);
+}
+
+function lmsrSharesForAmount(shares: bigint[], outcomeIndex: number, netAmount: bigint, b: bigint): bigint {
+  // 与 _calculateLMSRShares 相同的二分查找
+  let low = 1n;
+  let high = (netAmount * SHARE_PRECISION) / USDC_UNIT;
+  let result = 0n;
+  while (low <= high) {
+    const mid = (low + high) / 2n;
+    if (lmsrBuyCost(shares, outcomeIndex, mid, b) <= netAmount) {
+      result = mid;
+      low = mid + 1n;
+    } else {
+      if (mid === 0n) break;
+      high = mid - 1n;
+    }
+  }
+  return result > 0n ? result : 1n;
+}
+
+function cpmmSharesForAmount(shares: bigint[], outcomeIndex: number, netAmount: bigint): bigint {
+  const usdcInShares = (netAmount * SHARE_PRECISION) / USDC_UNIT;
+  return (usdcInShares * otherSharesTotal(shares, outcomeIndex)) / (shares[outcomeIndex] + usdcInShares);
+}
+
+const toUsdc = (value: bigint) => Number(formatUnits(value, USDC_DECIMALS));
+const toShares = (value: bigint) => Number(formatUnits(value, 18));
+
+// ============ 报价 ============
+export function quoteBuy(market: MarketState, outcomeIndex: number, usdcAmount: bigint): MarketBuyQuote | null {
+  if (usdcAmount <= 0n || outcomeIndex >= market.outcomeShares.length) return null;
+  const shares = [...market.outcomeShares];
+
+  const totalFee = BigInt(market.platformFee + market.creatorFee);
+  const fee = (usdcAmount * totalFee) / (BASIS_POINTS + totalFee);
+  const netAmount = usdcAmount - fee;
+
+  let out: bigint;
+  const after = [...shares];
+  if (market.algorithm === PricingAlgorithm.LMSR) {
+    out = lmsrSharesForAmount(shares, outcomeIndex, netAmount, market.lmsrB);
+    after[outcomeIndex] += out;
+  } else {
+    out = cpmmSharesForAmount(shares, outcomeIndex, netAmount);
+    // _updateSharesAfterCPMMBuy
+    const others = otherSharesTotal(shares, outcomeIndex);
+    after[outcomeIndex] += (netAmount * SHARE_PRECISION) / USDC_UNIT;
+    if (others > 0n) {
+      for (let i = 0; i < after.length; i++) {
+        if (i === outcomeIndex) continue;
+        const deduct = (out * after[i]) / others;
+        if (deduct < after[i]) after[i] -= deduct;
+      }
+    }
+  }
+
+  const pricesBefore = normalizePrices(getPrices(market, shares));
+  const pricesAfter = normalizePrices(getPrices(market, after));
+  const poolAfter = market.liquidityPool + netAmount;
+  return {
+    usdcAmount,
+    fee,
+    netAmount,
+    shares: out,
+    avgPrice: out > 0n ? toUsdc(usdcAmount) / toShares(out) : 0,
+    pricesAfter,
+    priceImpact: (pricesAfter[outcomeIndex] - pricesBefore[outcomeIndex]) / 100,
+    payoutIfWins: after[outcomeIndex] > 0n ? (out * poolAfter) / after[outcomeIndex] : 0n,
+    outcomeSharesAfter: after,
+  };
+}
+
+export function quoteSell(market: MarketState, outcomeIndex: number, sharesAmount: bigint): MarketSellQuote | null {
+  if (sharesAmount <= 0n || outcomeIndex >= market.outcomeShares.length) return null;
+  const shares = [...market.outcomeShares];
+
+  let grossOut: bigint;
+  const after = [...shares];
+  if (market.algorithm === PricingAlgorithm.LMSR) {
+    if (shares[outcomeIndex] < sharesAmount) return null;
+    grossOut = lmsrSellRevenue(shares, outcomeIndex, sharesAmount, market.lmsrB);
+    after[outcomeIndex] -= sharesAmount;
+  } else {
+    const others = otherSharesTotal(shares, outcomeIndex);
+    const returnShares = (sharesAmount * shares[outcomeIndex]) / (others + sharesAmount);
+    grossOut = (returnShares * USDC_UNIT) / SHARE_PRECISION;
+    // _updateSharesAfterCPMMSell（池子份额不足时合约会下溢 revert）
+    const deduct = (grossOut * SHARE_PRECISION) / USDC_UNIT;
+    if (deduct > after[outcomeIndex]) return null;
+    after[outcomeIndex] -= deduct;
+    const addPerOutcome = sharesAmount / BigInt(Math.max(1, market.numOutcomes - 1));
+    for (let i = 0; i < after.length; i++) {
+      if (i !== outcomeIndex) after[i] += addPerOutcome;
+    }
+  }
+
+  const fee = (grossOut * BigInt(market.platformFee)) / BASIS_POINTS;
+  const usdcOut = grossOut - fee;
+  const pricesBefore = normalizePrices(getPrices(market, shares));
+  const pricesAfter = normalizePrices(getPrices(market, after));
+  return {
+    shares: sharesAmount,
+    grossOut,
+    fee,
+    usdcOut,
+    avgPrice: toUsdc(usdcOut) / toShares(sharesAmount),
+    pricesAfter,
+    priceImpact: (pricesAfter[outcomeIndex] - pricesBefore[outcomeIndex]) / 100,
+    insufficientLiquidity: usdcOut > market.liquidityPool,
+  };
+}
+
+// ============ 领取（与合约 claimWinnings / claimRefund 的按池子比例分配一致） ============
+export interface ClaimState {
+  status: number;             // 1=Resolved, 2=Cancelled
+  winnerIndex: number;
+  outcomeShares: bigint[];
+  liquidityPool: bigint;
+  userShares: bigint[];
+  hasClaimed: boolean;
+}
+
+/// 已结算市场：持有的获胜份额 / 获胜选项总份额 × 池子
+export function claimableWinnings(market: ClaimState): bigint {
+  if (market.status !== 1 || market.hasClaimed) return 0n;
+  const winning = market.userShares[market.winnerIndex] ?? 0n;
+  const totalWinning = market.outcomeShares[market.winnerIndex] ?? 0n;
+  if (winning === 0n || totalWinning === 0n) return 0n;
+  return (winning * market.liquidityPool) / totalWinning;
+}
+
+/// 已取消市场：所有选项上的持仓 / 全部份额 × 池子
+export function refundableAmount(market: ClaimState): bigint {
+  if (market.status !== 2 || market.hasClaimed) return 0n;
+  const userTotal = market.userShares.reduce((sum, s) => sum + s, 0n);
+  const total = market.outcomeShares.reduce((sum, s) => sum + s, 0n);
+  if (userTotal === 0n || total === 0n) return 0n;
+  return (userTotal * market.liquidityPool) / total;
+}
+
+export function claimableAmount(market: ClaimState): bigint {
+  return market.status === 1 ? claimableWinnings(market) : refundableAmount(market);
+}
@@ -0,0 +1,52 @@
+// utils/orderBook.ts
+// 把链上的限价单按价格档位聚合成订单簿（价格为基点，10000 = 100%；份额 18 位）
+import type { LimitOrder } from '@/hooks/usePredictionMarket';
+
+export interface OrderBookLevel {
+  price: number;          // 基点
+  shares: bigint;         // 该档位挂单总份额
+  orders: number;
+  cumulative: bigint;     // 从最优价累计到该档位的份额（深度图用）
+}
+
+export interface OrderBook {
+  bids: OrderBookLevel[];   // 买单，价格从高到低
+  asks: OrderBookLevel[];   // 卖单，价格从低到高
+  bestBid: number | null;
+  bestAsk: number | null;
+  spread: number | null;    // 基点
+}
+
+function aggregate(orders: LimitOrder[], descending: boolean): OrderBookLevel[] {
+  const levels = new Map<number, { shares: bigint; orders: number }>();
+  for (const order of orders) {
+    const level = levels.get(order.price) ?? { shares: 0n, orders: 0 };
+    levels.set(order.price, { shares: level.shares + order.shares, orders: level.orders + 1 });
+  }
+
+  let cumulative = 0n;
+  return [...levels.entries()]
+    .sort(([a], [b]) => (descending ? b - a : a - b))
+    .map(([price, level]) => {
+      cumulative += level.shares;
+      return { price, shares: level.shares, orders: level.orders, cumulative };
+    });
+}
+
+/// 只统计活跃（status 0）的订单
+export function buildOrderBook(orders: LimitOrder[]): OrderBook {
+  const active = orders.filter(o => o.status === 0 && o.shares > 0n);
+  const bids = aggregate(active.filter(o => o.isBuy), true);
+  const asks = aggregate(active.filter(o => !o.isBuy), false);
+  const bestBid = bids[0]?.price ?? null;
+  const bestAsk = asks[0]?.price ?? null;
+  return {
+    bids,
+    asks,
+    bestBid,
+    bestAsk,
+    spread: bestBid !== null && bestAsk !== null ? bestAsk - bestBid : null,
+  };
+}
+
+export const EMPTY_ORDER_BOOK: OrderBook = { bids: [], asks: [], bestBid: null, bestAsk: null, spread: null };
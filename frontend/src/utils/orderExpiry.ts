@@ -0,0 +1,17 @@
+// utils/orderExpiry.ts
+// 限价单有效期（expiresAt 为秒级时间戳，0 = 一直有效）
+
+export function isOrderExpired(order: { expiresAt: number }, nowSeconds: number): boolean {
+  return order.expiresAt > 0 && nowSeconds >= order.expiresAt;
+}
+
+/// 剩余时间：2d 4h / 3h 12m / 4m 05s
+export function formatTimeLeft(seconds: number): string {
+  if (seconds <= 0) return 'expired';
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${String(seconds % 60).padStart(2, '0')}s`;
+}
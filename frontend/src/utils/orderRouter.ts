@@ -0,0 +1,115 @@
+// utils/orderRouter.ts
+// 市价买入的分单路由：比较挂着的卖单和 AMM 的边际成本，便宜的先成交（价格为基点，份额 18 位）
+import type { LimitOrder } from '@/hooks/usePredictionMarket';
+import { MarketBuyQuote, MarketState, quoteBuy } from '@/utils/marketMath';
+
+const BASIS_POINTS = 10000n;
+const SHARE_COST_DIVISOR = BASIS_POINTS * 10n ** 12n;   // shares × price(bps) → USDC，与合约一致
+const ROUTE_STEPS = 20n;                                // AMM 部分按 1/20 的步长和挂单比价
+
+export interface RouteLeg {
+  orderId: number;
+  price: number;          // 基点
+  shares: bigint;
+  cost: bigint;           // USDC（6 位），卖单价格成交，买方不另付手续费
+}
+
+export interface BuyRoute {
+  usdcAmount: bigint;
+  bookLegs: RouteLeg[];
+  bookShares: bigint;
+  bookCost: bigint;
+  ammUsdc: bigint;
+  ammQuote: MarketBuyQuote | null;
+  totalShares: bigint;
+  avgPrice: number;       // USDC / 份额
+  ammOnlyShares: bigint;  // 全部走 AMM 能买到的份额
+  extraShares: bigint;
+  savings: bigint;        // 按全走 AMM 的均价买同样多份额要多花的 USDC
+}
+
+/// 卖单按价格、挂单时间排序；自己的卖单不吃（合约 takeSellOrders 也会跳过）
+function sortAsks(orders: LimitOrder[], outcomeIndex: number, account?: string): LimitOrder[] {
+  const self = account?.toLowerCase();
+  return orders
+    .filter(o => !o.isBuy && o.status === 0 && o.outcomeIndex === outcomeIndex && o.shares > 0n)
+    .filter(o => !self || o.user.toLowerCase() !== self)
+    .sort((a, b) => a.price - b.price || a.timestamp - b.timestamp);
+}
+
+/// 贪心分单：每一步比较下一档卖单价格和 AMM 下一段的含费成本
+/// 订单簿部分不移动 AMM 价格，所以 AMM 部分最后合成一笔 buyShares
+export function routeBuy(
+  market: MarketState,
+  outcomeIndex: number,
+  usdcAmount: bigint,
+  orders: LimitOrder[],
+  account?: string
+): BuyRoute | null {
+  const ammOnly = quoteBuy(market, outcomeIndex, usdcAmount);
+  if (!ammOnly) return null;
+
+  const asks = sortAsks(orders, outcomeIndex, account).map(o => ({ ...o, remaining: o.shares }));
+  const legs = new Map<number, RouteLeg>();
+  const step = usdcAmount / ROUTE_STEPS > 0n ? usdcAmount / ROUTE_STEPS : usdcAmount;
+
+  let state = market;
+  let remaining = usdcAmount;
+  let ammUsdc = 0n;
+  let askIndex = 0;
+
+  while (remaining > 0n) {
+    const chunk = remaining < step ? remaining : step;
+    const chunkQuote = quoteBuy(state, outcomeIndex, chunk);
+    const ammCostBps = chunkQuote && chunkQuote.shares > 0n ? (chunk * SHARE_COST_DIVISOR) / chunkQuote.shares : null;
+    const ask = asks[askIndex];
+
+    if (ask && (ammCostBps === null || BigInt(ask.price) <= ammCostBps)) {
+      const affordable = (remaining * SHARE_COST_DIVISOR) / BigInt(ask.price);
+      const shares = ask.remaining < affordable ? ask.remaining : affordable;
+      const cost = (shares * BigInt(ask.price)) / SHARE_COST_DIVISOR;
+      if (cost === 0n) {
+        // 剩下的钱不够吃这一档的最小单位
+        askIndex = asks.length;
+        continue;
+      }
+      const leg = legs.get(ask.id) ?? { orderId: ask.id, price: ask.price, shares: 0n, cost: 0n };
+      legs.set(ask.id, { ...leg, shares: leg.shares + shares, cost: leg.cost + cost });
+      ask.remaining -= shares;
+      remaining -= cost;
+      if (ask.remaining === 0n || shares < affordable) askIndex++;
+      continue;
+    }
+
+    if (!chunkQuote) break;
+    state = {
+      ...state,
+      outcomeShares: chunkQuote.outcomeSharesAfter,
+      liquidityPool: state.liquidityPool + chunkQuote.netAmount,
+    };
+    ammUsdc += chunk;
+    remaining -= chunk;
+  }
+
+  const bookLegs = [...legs.values()];
+  const bookShares = bookLegs.reduce((sum, l) => sum + l.shares, 0n);
+  const bookCost = bookLegs.reduce((sum, l) => sum + l.cost, 0n);
+  const ammQuote = ammUsdc > 0n ? quoteBuy(market, outcomeIndex, ammUsdc) : null;
+  const totalShares = bookShares + (ammQuote?.shares ?? 0n);
+  const spent = bookCost + ammUsdc;
+  const extraShares = totalShares > ammOnly.shares ? totalShares - ammOnly.shares : 0n;
+
+  return {
+    usdcAmount: spent,
+    bookLegs,
+    bookShares,
+    bookCost,
+    ammUsdc,
+    ammQuote,
+    totalShares,
+    avgPrice: totalShares > 0n ? Number(spent) / 1e6 / (Number(totalShares) / 1e18) : 0,
+    ammOnlyShares: ammOnly.shares,
+    extraShares,
+    savings: ammOnly.shares > 0n && extraShares > 0n ? (extraShares * usdcAmount) / ammOnly.shares : 0n,
+  };
+}
@@ -0,0 +1,42 @@
+// utils/slippage.ts
+// 滑点保护：按容忍度计算最少获得 / 最多支付，比较报价与实际成交的偏移
+const BPS = 10000n;
+
+export const SLIPPAGE_PRESETS = [50, 100, 200, 500];   // 0.5% / 1% / 2% / 5%
+export const MAX_SLIPPAGE_BPS = 5000;
+
+// 提交前重新报价发现价格已超出容忍度；不发交易
+export class SlippageError extends Error {
+  constructor(public readonly deviationBps: number, public readonly toleranceBps: number) {
+    super(`Price moved ${formatBps(deviationBps)} since your quote (tolerance ${formatBps(toleranceBps)}).`);
+    this.name = 'SlippageError';
+  }
+}
+
+export function formatBps(bps: number): string {
+  return `${(bps / 100).toFixed(2).replace(/\.?0+$/, '')}%`;
+}
+
+/// 获得量的下限（买入份额、卖出到账）
+export function minWithSlippage(amount: bigint, toleranceBps: number): bigint {
+  return (amount * (BPS - BigInt(toleranceBps))) / BPS;
+}
+
+/// 支付量的上限（买入成本）
+export function maxWithSlippage(amount: bigint, toleranceBps: number): bigint {
+  return (amount * (BPS + BigInt(toleranceBps))) / BPS;
+}
+
+/// 实际值相对预期对用户不利的偏移（基点，<= 0 表示不差于预期）
+/// side: 'receive' 表示越多越好（份额 / 到账），'pay' 表示越少越好（成本）
+export function adverseDeviationBps(expected: bigint, actual: bigint, side: 'receive' | 'pay'): number {
+  if (expected <= 0n) return 0;
+  const diff = side === 'receive' ? expected - actual : actual - expected;
+  return Number((diff * BPS) / expected);
+}
+
+/// 偏移超出容忍度时抛出 SlippageError
+export function assertWithinSlippage(expected: bigint, actual: bigint, side: 'receive' | 'pay', toleranceBps: number) {
+  const deviation = adverseDeviationBps(expected, actual, side);
+  if (deviation > toleranceBps) throw new SlippageError(deviation, toleranceBps);
+}
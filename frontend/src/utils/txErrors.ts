@@ -0,0 +1,174 @@
+// utils/txErrors.ts
+// 把合约 require 字符串和钱包 / RPC 错误翻译成用户能看懂的提示（附带解决建议）
+import {
+  BaseError,
+  ChainMismatchError,
+  ContractFunctionRevertedError,
+  InsufficientFundsError,
+  IntrinsicGasTooLowError,
+  SwitchChainError,
+  UserRejectedRequestError,
+  decodeErrorResult,
+} from 'viem';
+import { SlippageError } from '@/utils/slippage';
+
+export type TxErrorKind = 'rejected' | 'revert' | 'funds' | 'network' | 'unknown';
+
+export interface DecodedTxError {
+  kind: TxErrorKind;
+  message: string;
+  hint?: string;
+  reason?: string;        // 原始 revert 字符串，便于排查
+}
+
+interface RevertInfo {
+  message: string;
+  hint?: string;
+}
+
+// ============ 合约 revert 字符串 ============
+const REVERT_MESSAGES: Record<string, RevertInfo> = {
+  // PredictionMarketV4
+  'Not open': { message: 'This market is no longer open for trading.', hint: 'Refresh to see its latest status.' },
+  'Closed': { message: 'This market is closed, orders can no longer be placed.' },
+  'Ended': { message: 'Trading has ended for this market.', hint: 'Wait for the market to be resolved, then claim.' },
+  'Not ended': { message: 'The market has not reached its end time yet.' },
+  'Not resolved': { message: 'This market has not been resolved yet.' },
+  'Not cancelled': { message: 'Refunds are only available for cancelled markets.' },
+  'Claimed': { message: 'You have already claimed from this market.' },
+  'No shares': { message: 'You have no shares to claim in this market.' },
+  'Insufficient': { message: 'You do not hold enough shares for this trade.', hint: 'Lower the share amount.' },
+  'Insufficient liquidity': { message: 'The pool does not have enough liquidity for this sale.', hint: 'Try selling fewer shares.' },
+  'Slippage': { message: 'The price moved beyond your slippage tolerance.', hint: 'Retry, or increase your slippage tolerance.' },
+  'Too small': { message: 'Order size is too small.', hint: 'Increase the share amount or price.' },
+  'Price': { message: 'Limit price must be between 1¢ and 99¢.' },
+  'Zero': { message: 'Amount must be greater than zero.' },
+  'Zero amount': { message: 'Amount must be greater than zero.' },
+  'Invalid': { message: 'Invalid outcome or order.' },
+  'Invalid outcome': { message: 'Invalid outcome for this market.' },
+  'Invalid market': { message: 'This market does not exist.' },
+  'Not yours': { message: 'You can only cancel your own orders.' },
+  'Not active': { message: 'This order is no longer active.', hint: 'It may already have been filled or cancelled.' },
+  'Expiry': { message: 'Order expiry must be in the future.', hint: 'Pick a later expiry and try again.' },
+  'Expired': { message: 'This order has expired and can no longer be filled.', hint: 'Cancel it to get your deposit back.' },
+  'Not expired': { message: 'This order has not expired yet.', hint: 'Only the order owner can cancel it before expiry.' },
+  'Nothing filled': { message: 'None of the resting orders could be filled.', hint: 'They were taken or cancelled after your quote. Refresh and try again.' },
+  'Length mismatch': { message: 'Order and amount lists do not match.' },
+  'Cannot delete resolved market': { message: 'Resolved markets cannot be deleted.' },
+  '2-10 outcomes': { message: 'A market needs between 2 and 10 outcomes.' },
+  'Empty question': { message: 'The market question cannot be empty.' },
+  'Invalid duration': { message: 'Market duration must be between 1 hour and 365 days.' },
+  'Min liquidity': { message: 'Initial liquidity must be at least 10 USDC.' },
+  'Fee too high': { message: 'Creator fee cannot exceed 5%.' },
+  'Invalid algorithm': { message: 'Unknown pricing algorithm.' },
+  'Too high': { message: 'Platform fee cannot exceed 5%.' },
+
+  // CreatorMarketV3
+  'Creator does not exist': { message: 'This creator has not been launched yet.' },
+  'Creator already exists': { message: 'This creator has already been launched.', hint: 'Search for them in the creator list.' },
+  'Handle cannot be empty': { message: 'Please enter a handle.' },
+  'Handle too long': { message: 'Handles can be at most 32 characters.' },
+  'Base price too low': { message: 'Base price must be at least 0.01 USDC.' },
+  'Slope too high': { message: 'Curve slope is too steep.' },
+  'Invalid curve type': { message: 'Unknown bonding curve type.' },
+  'Amount must be > 0': { message: 'Amount must be greater than zero.' },
+  'Max 1000 per tx': { message: 'You can trade at most 1000 keys per transaction.', hint: 'Split the trade into smaller orders.' },
+  'Insufficient shares': { message: 'You do not hold enough keys for this sale.', hint: 'Lower the amount.' },
+  'Insufficient supply': { message: 'Not enough keys in circulation for this sale.' },
+  'Insufficient pool balance': { message: 'The creator pool cannot cover this sale right now.', hint: 'Try selling fewer keys.' },
+  'USDC transfer failed': { message: 'USDC transfer failed.', hint: 'Check your balance and allowance.' },
+  'Fee withdrawal failed': { message: 'Fee withdrawal transfer failed.' },
+
+  // MockUSDC / OpenZeppelin
+  'Max 10k USDC per request': { message: 'The faucet gives at most 10,000 USDC per request.' },
+  'ERC20: insufficient allowance': { message: 'USDC allowance is too low.', hint: 'Approve USDC and try again.' },
+  'ERC20: transfer amount exceeds balance': { message: 'Your USDC balance is too low.', hint: 'Use the faucet or lower the amount.' },
+  'Ownable: caller is not the owner': { message: 'Only the contract owner can do this.' },
+};
+
+// 同一个字符串在不同函数里含义不同时按函数名细化
+const CONTEXT_MESSAGES: Record<string, RevertInfo> = {
+  'cancelOrder:Invalid': { message: 'This order does not exist.' },
+  'resolveMarket:Invalid': { message: 'Invalid winning outcome.' },
+};
+
+/// 只按 revert 字符串翻译；未知字符串原样返回
+export function describeRevert(reason: string, functionName?: string): RevertInfo {
+  return (functionName && CONTEXT_MESSAGES[`${functionName}:${reason}`])
+    || REVERT_MESSAGES[reason]
+    || { message: `Contract error: ${reason}` };
+}
+
+// Error(string) 的选择器；原始 eth_call 失败时 revert 数据未经 ABI 解码
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+
+// 有些钱包 / 节点只在 message 里带 revert 字符串
+const REASON_PATTERN = /reverted with reason string '([^']+)'|execution reverted: ([^\n"]+)/;
+
+function extractReason(error: any): string | undefined {
+  const revert = error instanceof BaseError
+    ? error.walk(e => e instanceof ContractFunctionRevertedError) as ContractFunctionRevertedError | null
+    : null;
+  if (revert?.reason) return revert.reason;
+  if (revert?.data?.errorName) return revert.data.errorName;
+
+  const raw = error instanceof BaseError
+    ? error.walk(e => typeof (e as any).data === 'string' && (e as any).data.startsWith(ERROR_STRING_SELECTOR)) as any
+    : null;
+  if (raw) {
+    try {
+      const decoded = decodeErrorResult({ abi: [], data: raw.data });
+      return String(decoded.args?.[0]);
+    } catch {
+      // 解不出来就退回到正则
+    }
+  }
+
+  const match = String(error?.details ?? error?.message ?? '').match(REASON_PATTERN);
+  return (match?.[1] ?? match?.[2])?.trim();
+}
+
+function findFunctionName(error: any): string | undefined {
+  if (!(error instanceof BaseError)) return undefined;
+  const withName = error.walk(e => typeof (e as any).functionName === 'string') as any;
+  return withName?.functionName;
+}
+
+/// 统一解码写操作抛出的错误
+export function decodeTxError(error: unknown): DecodedTxError {
+  const err = error as any;
+  const walk = (type: new (...args: any[]) => Error) =>
+    err instanceof BaseError ? err.walk(e => e instanceof type) : null;
+
+  if (walk(UserRejectedRequestError) || err?.code === 4001) {
+    return { kind: 'rejected', message: 'Transaction was rejected in your wallet.' };
+  }
+  if (walk(InsufficientFundsError)) {
+    return { kind: 'funds', message: 'Not enough ETH to pay for gas.', hint: 'Top up your wallet with test ETH from a faucet.' };
+  }
+  if (walk(IntrinsicGasTooLowError)) {
+    return { kind: 'funds', message: 'Gas limit is too low for this transaction.', hint: 'Let your wallet estimate gas and retry.' };
+  }
+  if (walk(ChainMismatchError) || walk(SwitchChainError) || err?.message === 'Unsupported network') {
+    return { kind: 'network', message: 'Your wallet is on the wrong network.', hint: 'Switch to a supported network and retry.' };
+  }
+  if (err instanceof SlippageError) {
+    return { kind: 'revert', message: err.message, hint: 'Review the new quote, or raise your slippage tolerance.' };
+  }
+  if (err?.message === 'Not connected') {
+    return { kind: 'network', message: 'Wallet not connected.', hint: 'Connect your wallet first.' };
+  }
+
+  const reason = err?.reason ?? extractReason(err);
+  if (reason) {
+    return { kind: 'revert', reason, ...describeRevert(reason, findFunctionName(err)) };
+  }
+
+  const message = err?.shortMessage || err?.message || 'Transaction failed';
+  return { kind: 'unknown', message };
+}
+
+/// alert / 通知里用的一行文本
+export function formatTxError(decoded: DecodedTxError): string {
+  return decoded.hint ? `${decoded.message} ${decoded.hint}` : decoded.message;
+}
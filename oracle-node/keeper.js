@@ -0,0 +1,378 @@
+require('dotenv').config();
+const fs = require('fs');
+const path = require('path');
+const { ethers } = require('ethers');
+
+// ============ 配置 ============
+const DRY_RUN = process.argv.includes('--dry-run') || process.env.KEEPER_DRY_RUN === 'true';
+const SCAN_INTERVAL_SECONDS = Number(process.env.KEEPER_INTERVAL_SECONDS || 60);
+const REPORT_FILE = process.env.KEEPER_REPORT_FILE || path.join(__dirname, 'logs', 'keeper-report.jsonl');
+
+const BASIS_POINTS = 10000n;
+const USDC_PER_SHARE_BPS = BASIS_POINTS * 10n ** 12n;   // shares(1e18) × price(bps) → USDC(1e6)
+
+// ============ 合约 ABI ============
+const PREDICTION_MARKET_ABI = [
+  'function getMarketCount() view returns (uint256)',
+  'function getMarketInfo(uint256 marketId) view returns (string question, string category, string imageUrl, uint256 endTime, uint8 status, uint8 numOutcomes, uint256 liquidityPool, uint8 winnerIndex, address creator)',
+  'function getPrices(uint256 marketId) view returns (uint256[] prices)',
+  'function getActiveOrders(uint256 marketId, uint8 outcomeIndex) view returns (uint256[] buyOrderIds, uint256[] sellOrderIds)',
+  'function getOrderInfo(uint256 orderId) view returns (tuple(uint256 id, uint256 marketId, address user, uint8 outcomeIndex, uint256 shares, uint256 price, uint256 usdcDeposit, uint256 timestamp, bool isBuy, uint8 status))',
+  'function orderExpiry(uint256 orderId) view returns (uint256)',
+  'function cancelExpiredOrder(uint256 orderId)',
+  'function matchOrders(uint256 buyOrderId, uint256 sellOrderId) returns (uint256 filledShares)',
+  'function fillOrderWithAMM(uint256 orderId) returns (uint256 amountOut)',
+  'event OrderPlaced(uint256 indexed marketId, uint256 indexed orderId, address user, uint8 outcomeIndex, bool isBuy, uint256 shares, uint256 price)'
+];
+
+// ============ 撮合计算（纯函数） ============
+
+/// 价格优先、时间优先排序
+function sortBook(orders) {
+  const byTime = (a, b) => (a.timestamp < b.timestamp ? -1 : a.timestamp > b.timestamp ? 1 : 0);
+  const bids = orders.filter(o => o.isBuy).sort((a, b) => (a.price !== b.price ? (a.price > b.price ? -1 : 1) : byTime(a, b)));
+  const asks = orders.filter(o => !o.isBuy).sort((a, b) => (a.price !== b.price ? (a.price < b.price ? -1 : 1) : byTime(a, b)));
+  return { bids, asks };
+}
+
+/// 先撮合交叉的买卖单（与合约 matchOrders 规则一致：按先挂单一方的价格成交），
+/// 剩下完整未成交的订单再和 AMM 价格比较
+function planFills(orders, ammPrice) {
+  const { bids, asks } = sortBook(orders.map(o => ({ ...o, remaining: o.shares })));
+  const matches = [];
+
+  let b = 0;
+  let a = 0;
+  while (b < bids.length && a < asks.length && bids[b].price >= asks[a].price) {
+    const bid = bids[b];
+    const ask = asks[a];
+    const shares = bid.remaining < ask.remaining ? bid.remaining : ask.remaining;
+    const price = bid.timestamp <= ask.timestamp ? bid.price : ask.price;
+    matches.push({ buyOrderId: bid.id, sellOrderId: ask.id, shares, price });
+    bid.remaining -= shares;
+    ask.remaining -= shares;
+    if (bid.remaining === 0n) b++;
+    if (ask.remaining === 0n) a++;
+  }
+
+  // 部分成交的订单留给下一轮（合约 fillOrderWithAMM 只能整笔成交）
+  const untouched = o => o.remaining === o.shares;
+  const ammFills = [
+    ...bids.slice(b).filter(o => untouched(o) && o.price >= ammPrice),
+    ...asks.slice(a).filter(o => untouched(o) && o.price <= ammPrice),
+  ].map(o => ({ orderId: o.id, isBuy: o.isBuy, shares: o.shares, price: o.price, ammPrice }));
+
+  return { matches, ammFills };
+}
+
+function formatShares(shares) {
+  return Number(ethers.formatUnits(shares, 18)).toFixed(2);
+}
+
+function formatCents(priceBps) {
+  return `${(Number(priceBps) / 100).toFixed(1)}¢`;
+}
+
+class OrderKeeper {
+  constructor() {
+    console.log('🤖 Initializing Order Keeper...');
+
+    this.provider = new ethers.JsonRpcProvider(process.env.RPC_URL);
+    // dry-run 不需要私钥，只读 + staticCall 预演
+    this.wallet = process.env.PRIVATE_KEY ? new ethers.Wallet(process.env.PRIVATE_KEY, this.provider) : null;
+    if (!DRY_RUN && !this.wallet) {
+      throw new Error('PRIVATE_KEY is required unless running with --dry-run');
+    }
+
+    this.predictionMarket = new ethers.Contract(
+      process.env.PREDICTION_MARKET_ADDRESS,
+      PREDICTION_MARKET_ABI,
+      this.wallet || this.provider
+    );
+
+    this.pendingMarkets = new Set();
+    this.scanning = false;
+    this.totals = { scans: 0, matches: 0, ammFills: 0, expired: 0, submitted: 0, failed: 0 };
+
+    console.log(`📍 Prediction Market: ${process.env.PREDICTION_MARKET_ADDRESS}`);
+    console.log(`👤 Keeper Wallet: ${this.wallet ? this.wallet.address : '(none)'}`);
+    console.log(`🧪 Mode: ${DRY_RUN ? 'DRY RUN (no transactions)' : 'LIVE'}`);
+  }
+
+  // ============ 链上读取 ============
+  async loadOrders(marketId, outcomeIndex) {
+    const [buyIds, sellIds] = await this.predictionMarket.getActiveOrders(marketId, outcomeIndex);
+    const ids = [...buyIds, ...sellIds];
+    const [infos, expiries] = await Promise.all([
+      Promise.all(ids.map(id => this.predictionMarket.getOrderInfo(id))),
+      // 旧合约没有 orderExpiry，按一直有效处理
+      Promise.all(ids.map(id => this.predictionMarket.orderExpiry(id).catch(() => 0n))),
+    ]);
+    return infos
+      .map((o, i) => ({
+        id: o.id,
+        user: o.user,
+        isBuy: o.isBuy,
+        shares: o.shares,
+        price: o.price,
+        timestamp: o.timestamp,
+        status: Number(o.status),
+        expiresAt: expiries[i],
+      }))
+      .filter(o => o.status === 0 && o.shares > 0n);
+  }
+
+  /// orderExpiry 和撮合入口是同一版合约加的，读不到就说明是旧部署
+  async supportsKeeper() {
+    try {
+      await this.predictionMarket.orderExpiry(0);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // ============ 执行 ============
+
+  /// 先 staticCall 预演；dry-run 到此为止，live 模式再发交易
+  async execute(label, method, args) {
+    const entry = { action: label, args: args.map(String) };
+    try {
+      await this.predictionMarket[method].staticCall(...args);
+      entry.simulated = 'ok';
+    } catch (error) {
+      entry.simulated = 'revert';
+      entry.error = error.shortMessage || error.reason || error.message;
+      console.log(`      ⚠️ ${label} would revert: ${entry.error}`);
+      return entry;
+    }
+
+    if (DRY_RUN) {
+      console.log(`      🧪 ${label} (dry run)`);
+      return entry;
+    }
+
+    try {
+      const tx = await this.predictionMarket[method](...args);
+      console.log(`      📤 ${label}: ${tx.hash}`);
+      const receipt = await tx.wait();
+      entry.txHash = tx.hash;
+      entry.status = receipt.status === 1 ? 'done' : 'failed';
+      console.log(`      ${receipt.status === 1 ? '✅' : '❌'} ${label} (block ${receipt.blockNumber})`);
+    } catch (error) {
+      entry.status = 'failed';
+      entry.error = error.shortMessage || error.reason || error.message;
+      console.error(`      ❌ ${label} failed: ${entry.error}`);
+    }
+    return entry;
+  }
+
+  async processMarket(marketId, report) {
+    const info = await this.predictionMarket.getMarketInfo(marketId);
+    if (Number(info.status) !== 0) return;
+
+    const prices = await this.predictionMarket.getPrices(marketId);
+    // 按最新区块时间判断到期，和合约保持一致
+    const block = await this.provider.getBlock('latest');
+    const now = BigInt(block.timestamp);
+    const ended = now >= info.endTime;
+
+    for (let outcome = 0; outcome < Number(info.numOutcomes); outcome++) {
+      const allOrders = await this.loadOrders(marketId, outcome);
+      if (allOrders.length === 0) continue;
+
+      const expired = allOrders.filter(o => o.expiresAt > 0n && now >= o.expiresAt);
+      const orders = allOrders.filter(o => !expired.includes(o));
+      const plan = planFills(orders, prices[outcome]);
+      // 市场到期后 AMM 不再接受买入
+      const ammFills = ended ? plan.ammFills.filter(f => !f.isBuy) : plan.ammFills;
+      if (expired.length === 0 && plan.matches.length === 0 && ammFills.length === 0) continue;
+
+      console.log(`\n   🔔 Market #${marketId} outcome ${outcome} (AMM ${formatCents(prices[outcome])}): "${info.question}"`);
+
+      // 到期的订单先撤销，押金 / 份额退回下单人
+      for (const o of expired) {
+        const label = `Cancel expired ${o.isBuy ? 'buy' : 'sell'} #${o.id} (expired ${new Date(Number(o.expiresAt) * 1000).toISOString()})`;
+        const result = await this.execute(label, 'cancelExpiredOrder', [o.id]);
+        report.expired.push({
+          marketId: Number(marketId),
+          outcome,
+          orderId: String(o.id),
+          side: o.isBuy ? 'buy' : 'sell',
+          expiresAt: Number(o.expiresAt),
+          ...result,
+        });
+      }
+
+      for (const m of plan.matches) {
+        const label = `Match buy #${m.buyOrderId} × sell #${m.sellOrderId} · ${formatShares(m.shares)} @ ${formatCents(m.price)}`;
+        const result = await this.execute(label, 'matchOrders', [m.buyOrderId, m.sellOrderId]);
+        report.matches.push({
+          marketId: Number(marketId),
+          outcome,
+          buyOrderId: String(m.buyOrderId),
+          sellOrderId: String(m.sellOrderId),
+          shares: formatShares(m.shares),
+          price: Number(m.price),
+          usdc: ethers.formatUnits((m.shares * m.price) / USDC_PER_SHARE_BPS, 6),
+          ...result,
+        });
+      }
+
+      for (const f of ammFills) {
+        const label = `AMM ${f.isBuy ? 'buy' : 'sell'} #${f.orderId} · ${formatShares(f.shares)} @ ${formatCents(f.price)}`;
+        const result = await this.execute(label, 'fillOrderWithAMM', [f.orderId]);
+        report.ammFills.push({
+          marketId: Number(marketId),
+          outcome,
+          orderId: String(f.orderId),
+          side: f.isBuy ? 'buy' : 'sell',
+          shares: formatShares(f.shares),
+          limitPrice: Number(f.price),
+          ammPrice: Number(f.ammPrice),
+          ...result,
+        });
+      }
+    }
+  }
+
+  /// marketIds 为空时扫描全部市场
+  async scan(marketIds) {
+    const report = {
+      timestamp: new Date().toISOString(),
+      mode: DRY_RUN ? 'dry-run' : 'live',
+      matches: [],
+      ammFills: [],
+      expired: [],
+    };
+
+    try {
+      const ids = marketIds && marketIds.length > 0
+        ? marketIds
+        : Array.from({ length: Number(await this.predictionMarket.getMarketCount()) }, (_, i) => i);
+
+      for (const marketId of ids) {
+        try {
+          await this.processMarket(marketId, report);
+        } catch (error) {
+          console.error(`   ❌ Error scanning market ${marketId}:`, error.message);
+        }
+      }
+    } catch (error) {
+      console.error('❌ [Keeper] Scan failed:', error.message);
+      return;
+    }
+
+    this.recordReport(report);
+  }
+
+  // ============ 报告 ============
+  recordReport(report) {
+    const all = [...report.matches, ...report.ammFills, ...report.expired];
+    this.totals.scans++;
+    this.totals.matches += report.matches.length;
+    this.totals.ammFills += report.ammFills.length;
+    this.totals.expired += report.expired.length;
+    this.totals.submitted += all.filter(e => e.status === 'done').length;
+    this.totals.failed += all.filter(e => e.status === 'failed').length;
+
+    if (all.length === 0) {
+      console.log('   ✅ No crossed or expired orders');
+      return;
+    }
+
+    const fillable = all.filter(e => e.simulated === 'ok').length;
+    console.log(`\n   📊 ${report.matches.length} order match(es), ${report.ammFills.length} AMM fill(s), ${report.expired.length} expired, ${fillable} executable`);
+    if (DRY_RUN) {
+      console.table(all.map(e => ({ action: e.action, simulated: e.simulated, error: e.error || '' })));
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(REPORT_FILE), { recursive: true });
+      fs.appendFileSync(REPORT_FILE, `${JSON.stringify(report)}\n`);
+    } catch (error) {
+      console.error('❌ Failed to write keeper report:', error.message);
+    }
+  }
+
+  // ============ 调度 ============
+
+  /// 扫描串行执行：扫描中收到的新订单记下来，结束后再补扫
+  async runScan(marketIds) {
+    if (this.scanning) {
+      (marketIds || []).forEach(id => this.pendingMarkets.add(id));
+      if (!marketIds) this.pendingMarkets.add('all');
+      return;
+    }
+    this.scanning = true;
+    try {
+      await this.scan(marketIds);
+      while (this.pendingMarkets.size > 0) {
+        const pending = [...this.pendingMarkets];
+        this.pendingMarkets.clear();
+        await this.scan(pending.includes('all') ? undefined : pending);
+      }
+    } finally {
+      this.scanning = false;
+    }
+  }
+
+  watchOrders() {
+    this.predictionMarket.on('OrderPlaced', (marketId, orderId, user, outcomeIndex, isBuy, shares, price) => {
+      console.log(`\n📥 OrderPlaced #${orderId}: market ${marketId}, outcome ${outcomeIndex}, ${isBuy ? 'buy' : 'sell'} ${formatShares(shares)} @ ${formatCents(price)}`);
+      this.runScan([Number(marketId)]).catch(error => console.error('❌ [Keeper] Scan failed:', error.message));
+    });
+  }
+
+  // ============ 启动 Keeper ============
+  async start() {
+    console.log('\n🚀 Starting Limit Order Keeper...\n');
+
+    try {
+      if (this.wallet) {
+        const balance = await this.provider.getBalance(this.wallet.address);
+        console.log(`💰 Keeper wallet balance: ${ethers.formatEther(balance)} ETH`);
+        if (balance === 0n && !DRY_RUN) {
+          console.warn('⚠️ Warning: Keeper wallet has no ETH for gas fees!');
+        }
+      } else {
+        await this.provider.getBlockNumber();
+      }
+    } catch (error) {
+      console.error('❌ Failed to connect to RPC:', error.message);
+      return;
+    }
+
+    // 旧合约（Sepolia 上 0x740F… 那一版）没有 matchOrders / fillOrderWithAMM / cancelExpiredOrder
+    if (!(await this.supportsKeeper())) {
+      console.error(`❌ ${process.env.PREDICTION_MARKET_ADDRESS} predates the keeper entry points (no orderExpiry). Redeploy PredictionMarketV4 and update PREDICTION_MARKET_ADDRESS.`);
+      process.exitCode = 1;
+      return;
+    }
+
+    this.watchOrders();
+
+    // 定时全量扫描，兜底 AMM 价格变化导致的穿价（AMM 成交不会产生 OrderPlaced）
+    setInterval(() => {
+      console.log('\n⏰ Scheduled: Scanning order books...');
+      this.runScan().catch(error => console.error('❌ [Keeper] Scan failed:', error.message));
+    }, SCAN_INTERVAL_SECONDS * 1000);
+
+    console.log('🔄 Running initial scan...\n');
+    await this.runScan();
+
+    console.log('\n✅ Keeper is running!');
+    console.log(`   📅 Full scans: Every ${SCAN_INTERVAL_SECONDS}s`);
+    console.log(`   📝 Report: ${REPORT_FILE}`);
+    console.log('\n   Press Ctrl+C to stop.\n');
+
+    process.on('SIGINT', () => {
+      console.log('\n📊 Keeper totals:', this.totals);
+      process.exit(0);
+    });
+  }
+}
+
+// 启动
+const keeper = new OrderKeeper();
+keeper.start().catch(console.error);
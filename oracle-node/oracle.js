@@ -3,6 +3,13 @@ const { ethers } = require('ethers');
 const cron = require('node-cron');
 const express = require('express');
 const cors = require('cors');
+const { createSources } = require('./resolvers/sources');
+const { ResolutionPipeline, toMarket } = require('./resolvers/pipeline');
+
+// ============ 决议配置 ============
+// 默认只出提案、排队等管理员审批；RESOLVER_AUTO_SUBMIT=true 时直接提交 resolveMarket
+const RESOLVER_AUTO_SUBMIT = process.env.RESOLVER_AUTO_SUBMIT === 'true';
+const RESOLVER_SOURCES = process.env.RESOLVER_SOURCES || 'live';
 
 // ============ Express API 服务器 ============
 const app = express();
@@ -17,6 +24,7 @@ const PREDICTION_MARKET_ABI = [
   'function getMarketCount() view returns (uint256)',
   'function getMarketInfo(uint256 marketId) view returns (string question, string category, string imageUrl, uint256 endTime, uint8 status, uint8 numOutcomes, uint256 liquidityPool, uint8 winnerIndex, address creator)',
   'function getPrices(uint256 marketId) view returns (uint256[] prices)',
+  'function getMarketOutcomes(uint256 marketId) view returns (string[] labels, uint256[] shares)',
   'function resolveMarket(uint256 marketId, uint8 winnerIndex) external',
   'function owner() view returns (address)'
 ];
@@ -34,8 +42,15 @@ class AttentionOracle {
       this.wallet
     );
 
+    this.resolution = new ResolutionPipeline({
+      contract: this.predictionMarket,
+      sources: createSources(RESOLVER_SOURCES),
+      autoSubmit: RESOLVER_AUTO_SUBMIT,
+    });
+
     console.log(`📍 Prediction Market: ${process.env.PREDICTION_MARKET_ADDRESS}`);
     console.log(`👤 Oracle Wallet: ${this.wallet.address}`);
+    console.log(`⚖️ Resolution: ${RESOLVER_AUTO_SUBMIT ? 'auto-submit' : 'admin approval'} (${RESOLVER_SOURCES} data sources)`);
   }
 
   // ============ Prediction Market 功能 ============
@@ -60,8 +75,10 @@ class AttentionOracle {
           console.log(`\n   🔔 Market #${i} expired:`);
           console.log(`      Question: "${info.question}"`);
           console.log(`      End Time: ${new Date(endTime * 1000).toISOString()}`);
-          console.log(`      ⚠️ Awaiting manual resolution`);
-          
+
+          const [labels] = await this.predictionMarket.getMarketOutcomes(i);
+          await this.resolution.process(toMarket(i, info, labels));
+
         } catch (error) {
           console.error(`   ❌ Error checking market ${i}:`, error.message);
         }
@@ -86,6 +103,11 @@ class AttentionOracle {
       });
     });
 
+    // 待审批的决议提案（含证据）
+    app.get('/api/resolutions', (req, res) => {
+      res.json(this.resolution.listQueue(req.query.status || 'pending'));
+    });
+
     // 获取市场评论
     app.get('/api/market/:id/comments', (req, res) => {
       const marketId = parseInt(req.params.id);
@@ -0,0 +1,138 @@
+require('dotenv').config();
+const path = require('path');
+const fs = require('fs');
+const { ethers } = require('ethers');
+const { createSources, DEFAULT_FIXTURES_DIR } = require('./resolvers/sources');
+const { ResolutionPipeline, toMarket } = require('./resolvers/pipeline');
+
+// ============ 配置 ============
+// 用法：
+//   node resolve.js check [marketId...] [--local]   预演决议（不发交易、不写队列）
+//   node resolve.js queue                           查看待审批的提案
+//   node resolve.js approve <marketId>              提交待审批的提案
+//   node resolve.js reject <marketId> [reason]      拒绝提案，留给手动结算
+const args = process.argv.slice(2);
+const LOCAL = args.includes('--local');
+const [command = 'check', ...params] = args.filter(arg => !arg.startsWith('--'));
+const FIXTURES_DIR = process.env.RESOLVER_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+
+const PREDICTION_MARKET_ABI = [
+  'function getMarketCount() view returns (uint256)',
+  'function getMarketInfo(uint256 marketId) view returns (string question, string category, string imageUrl, uint256 endTime, uint8 status, uint8 numOutcomes, uint256 liquidityPool, uint8 winnerIndex, address creator)',
+  'function getMarketOutcomes(uint256 marketId) view returns (string[] labels, uint256[] shares)',
+  'function resolveMarket(uint256 marketId, uint8 winnerIndex) external',
+  'function owner() view returns (address)'
+];
+
+/// 只读模式不需要私钥
+function connect(withWallet) {
+  const provider = new ethers.JsonRpcProvider(process.env.RPC_URL);
+  if (withWallet && !process.env.PRIVATE_KEY) throw new Error('PRIVATE_KEY is required to submit resolutions');
+  const runner = withWallet ? new ethers.Wallet(process.env.PRIVATE_KEY, provider) : provider;
+  return new ethers.Contract(process.env.PREDICTION_MARKET_ADDRESS, PREDICTION_MARKET_ABI, runner);
+}
+
+// ============ 市场来源 ============
+
+/// 链上：状态为 Open 且按最新区块时间已到期的市场
+async function loadChainMarkets(contract, ids) {
+  const block = await contract.runner.provider.getBlock('latest');
+  const marketIds = ids.length > 0
+    ? ids
+    : Array.from({ length: Number(await contract.getMarketCount()) }, (_, i) => i);
+
+  const markets = [];
+  for (const id of marketIds) {
+    const info = await contract.getMarketInfo(id);
+    if (Number(info.status) !== 0 || block.timestamp < Number(info.endTime)) continue;
+    const [labels] = await contract.getMarketOutcomes(id);
+    markets.push(toMarket(id, info, labels));
+  }
+  return markets;
+}
+
+/// 本地：fixtures/markets.json 里的替身市场
+function loadLocalMarkets(ids) {
+  const markets = JSON.parse(fs.readFileSync(path.join(FIXTURES_DIR, 'markets.json'), 'utf8'));
+  return ids.length > 0 ? markets.filter(m => ids.includes(m.id)) : markets;
+}
+
+// ============ 命令 ============
+async function check(ids) {
+  const contract = LOCAL ? null : connect(false);
+  const pipeline = new ResolutionPipeline({
+    contract,
+    sources: createSources(LOCAL ? 'local' : process.env.RESOLVER_SOURCES),
+    autoSubmit: process.env.RESOLVER_AUTO_SUBMIT === 'true',
+    dryRun: true,
+    record: false,
+    rulesFile: LOCAL && !process.env.RESOLUTION_RULES_FILE ? path.join(FIXTURES_DIR, 'resolution-rules.json') : undefined,
+  });
+
+  const markets = LOCAL ? loadLocalMarkets(ids) : await loadChainMarkets(contract, ids);
+  console.log(`\n🔍 Checking ${markets.length} expired market(s) with ${pipeline.sources.mode} data sources...`);
+
+  const results = [];
+  for (const market of markets) {
+    console.log(`\n   🔔 Market #${market.id} [${market.category}]: "${market.question}"`);
+    results.push(await pipeline.process(market));
+  }
+
+  console.log('');
+  console.table(results.map(r => ({
+    market: r.marketId,
+    status: r.status,
+    resolver: r.resolver || '',
+    winner: r.winnerLabel || '',
+    note: r.approvalReason || r.reason || r.error || '',
+  })));
+}
+
+function showQueue() {
+  const pipeline = new ResolutionPipeline({});
+  const queue = pipeline.listQueue();
+  if (queue.length === 0) {
+    console.log('✅ No proposals awaiting approval');
+    return;
+  }
+  for (const entry of queue) {
+    console.log(`\n📥 Market #${entry.marketId}: "${entry.question}"`);
+    console.log(`   Winner: "${entry.winnerLabel}" (#${entry.winnerIndex}) via ${entry.resolver}`);
+    console.log(`   Reason: ${entry.approvalReason}${entry.lastError ? ` · last error: ${entry.lastError}` : ''}`);
+    console.log(`   Evidence: ${JSON.stringify(entry.evidence)}`);
+  }
+}
+
+async function main() {
+  const marketIds = params.map(Number).filter(Number.isInteger);
+
+  switch (command) {
+    case 'check':
+      await check(marketIds);
+      break;
+    case 'queue':
+      showQueue();
+      break;
+    case 'approve': {
+      if (marketIds.length !== 1) throw new Error('Usage: node resolve.js approve <marketId>');
+      const pipeline = new ResolutionPipeline({ contract: connect(true) });
+      const result = await pipeline.approve(marketIds[0]);
+      if (result.status !== 'submitted') process.exitCode = 1;
+      break;
+    }
+    case 'reject': {
+      const [marketId, ...reason] = params;
+      if (!Number.isInteger(Number(marketId))) throw new Error('Usage: node resolve.js reject <marketId> [reason]');
+      const pipeline = new ResolutionPipeline({});
+      pipeline.reject(Number(marketId), reason.join(' ') || undefined);
+      break;
+    }
+    default:
+      throw new Error(`Unknown command "${command}"`);
+  }
+}
+
+main().catch(error => {
+  console.error('❌', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,59 @@
+// resolvers/followerThreshold.js
+// 粉丝阈值：@handle 的粉丝数达到阈值 → Yes，否则 No（数据来自 /api/creators）
+const { binaryWinner, parseAmount } = require('./outcomes');
+
+// 例："Will @vitalik reach 6M followers by March?"
+const QUESTION_PATTERN = /@([a-z0-9_]{1,15})\b.*?\b(?:reach|reaches|hit|hits|exceed|exceeds|pass|passes|surpass|cross|above|over)\b\s*([\d,]+(?:\.\d+)?)\s*([kmb])?\s+followers\b/i;
+
+// 到期后超过这个时间才采到的数据，不自动提交，交给管理员确认
+const MAX_OBSERVATION_LAG_SECONDS = 24 * 60 * 60;
+
+function parseQuestion(question) {
+  const match = QUESTION_PATTERN.exec(question);
+  if (!match) return null;
+  const threshold = parseAmount(match[2], match[3]);
+  return threshold ? { handle: match[1], threshold } : null;
+}
+
+module.exports = {
+  name: 'followerThreshold',
+
+  /// 不限分类，问题里有 @handle + 粉丝数阈值即匹配
+  match(market) {
+    return parseQuestion(market.question);
+  },
+
+  async resolve(market, params, sources) {
+    if (!params.handle) return { pending: 'Missing creator handle' };
+    if (!(params.threshold > 0)) return { pending: 'Missing follower threshold' };
+
+    const handle = String(params.handle).replace(/^@/, '');
+    const creator = await sources.creators.getCreator(handle);
+    if (!creator) return { pending: `No creator data for @${handle}` };
+
+    const yes = creator.followers >= params.threshold;
+    // 到期前的快照只能证明"已达到"；没达到要等到期后的数据
+    if (!yes && creator.updatedAt && creator.updatedAt < market.endTime) {
+      return { pending: `@${handle} data predates market end` };
+    }
+
+    const evidence = {
+      handle: creator.handle,
+      threshold: params.threshold,
+      followers: creator.followers,
+      observedAt: creator.updatedAt,
+      source: creator.source,
+    };
+
+    // 缓存过期或采样时间离到期太远：结果可能受到期后的涨跌影响
+    const winner = binaryWinner(market, yes);
+    let approvalReason = winner.approvalReason;
+    if (creator.stale) {
+      approvalReason = 'Creator data served from stale cache';
+    } else if (creator.updatedAt && creator.updatedAt - market.endTime > MAX_OBSERVATION_LAG_SECONDS) {
+      approvalReason = 'Follower count observed more than 24h after market end';
+    }
+
+    return { winnerIndex: winner.index, evidence, approvalReason };
+  },
+};
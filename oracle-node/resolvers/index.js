@@ -0,0 +1,46 @@
+// resolvers/index.js
+// 决议器注册表 + 市场 → 决议器的选择
+//
+// 决议器接口：
+//   name                               规则文件里引用的名字
+//   match(market) → params | null      按分类 / 问题文本自动匹配
+//   resolve(market, params, sources) → { winnerIndex, evidence, approvalReason? } | { pending }
+const fs = require('fs');
+const path = require('path');
+const priceFeed = require('./priceFeed');
+const followerThreshold = require('./followerThreshold');
+
+// 自动匹配按这个顺序尝试
+const RESOLVERS = [priceFeed, followerThreshold];
+
+const DEFAULT_RULES_FILE = path.join(__dirname, '..', 'resolution-rules.json');
+
+function getResolver(name) {
+  return RESOLVERS.find(r => r.name === name) || null;
+}
+
+/// 规则文件不存在时视为没有手动配置
+function loadRules(file = process.env.RESOLUTION_RULES_FILE || DEFAULT_RULES_FILE) {
+  if (!fs.existsSync(file)) return { markets: {} };
+  const rules = JSON.parse(fs.readFileSync(file, 'utf8'));
+  return { markets: rules.markets || {} };
+}
+
+/// 规则文件里的配置优先；resolver 为 "manual" 的市场永远留给管理员
+function selectResolver(market, rules) {
+  const rule = rules.markets[String(market.id)];
+  if (rule) {
+    if (rule.resolver === 'manual') return null;
+    const resolver = getResolver(rule.resolver);
+    if (!resolver) throw new Error(`Unknown resolver "${rule.resolver}" for market #${market.id}`);
+    return { resolver, params: rule.params || {}, autoSubmit: rule.autoSubmit !== false, matchedBy: 'rule' };
+  }
+
+  for (const resolver of RESOLVERS) {
+    const params = resolver.match(market);
+    if (params) return { resolver, params, autoSubmit: true, matchedBy: 'question' };
+  }
+  return null;
+}
+
+module.exports = { RESOLVERS, getResolver, loadRules, selectResolver };
@@ -0,0 +1,32 @@
+// resolvers/outcomes.js
+// 决议结果 → winnerIndex 的映射
+
+/// 二元市场：按标签找 Yes / No → { index, approvalReason }
+/// 标签不是 Yes / No 时按 [Yes, No] 的默认顺序猜，并要求管理员确认
+function binaryWinner(market, yes) {
+  if (market.numOutcomes !== 2) {
+    throw new Error(`Market #${market.id} has ${market.numOutcomes} outcomes, expected a Yes/No market`);
+  }
+  const labels = market.outcomeLabels.map(label => label.trim().toLowerCase());
+  if (labels.includes('yes') && labels.includes('no')) {
+    return { index: labels.indexOf(yes ? 'yes' : 'no'), approvalReason: null };
+  }
+  return {
+    index: yes ? 0 : 1,
+    approvalReason: `Outcome labels ${market.outcomeLabels.map(l => `"${l}"`).join(' / ')} are not Yes / No, assumed #0 = Yes`,
+  };
+}
+
+function outcomeLabel(market, index) {
+  return market.outcomeLabels[index] || `Option ${index + 1}`;
+}
+
+/// 问题里的数字：支持 "100,000"、"1.5M"、"250k"
+function parseAmount(value, suffix) {
+  const amount = Number(String(value).replace(/,/g, ''));
+  if (!Number.isFinite(amount)) return null;
+  const multiplier = { k: 1e3, m: 1e6, b: 1e9 }[(suffix || '').toLowerCase()] || 1;
+  return amount * multiplier;
+}
+
+module.exports = { binaryWinner, outcomeLabel, parseAmount };
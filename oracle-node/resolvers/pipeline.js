@@ -0,0 +1,218 @@
+// resolvers/pipeline.js
+// 到期市场的决议流程：选决议器 → 取证 → 自动提交 resolveMarket，或排队等管理员审批
+const fs = require('fs');
+const path = require('path');
+const { loadRules, selectResolver } = require('./index');
+const { outcomeLabel } = require('./outcomes');
+
+const LOG_DIR = path.join(__dirname, '..', 'logs');
+const DEFAULT_EVIDENCE_FILE = process.env.RESOLUTION_EVIDENCE_FILE || path.join(LOG_DIR, 'resolutions.jsonl');
+const DEFAULT_QUEUE_FILE = process.env.RESOLUTION_QUEUE_FILE || path.join(LOG_DIR, 'resolution-queue.json');
+
+/// 链上读数 → 决议器使用的市场结构
+function toMarket(id, info, outcomeLabels) {
+  return {
+    id: Number(id),
+    question: info.question,
+    category: info.category,
+    endTime: Number(info.endTime),
+    numOutcomes: Number(info.numOutcomes),
+    outcomeLabels: [...outcomeLabels],
+  };
+}
+
+function errorMessage(error) {
+  return error.shortMessage || error.reason || error.message;
+}
+
+class ResolutionPipeline {
+  /// contract 为空时（本地 fixtures 模式）只出提案不模拟交易；record=false 时不写队列和证据日志
+  constructor({ contract = null, sources = null, autoSubmit = false, dryRun = false, record = true, rulesFile, evidenceFile = DEFAULT_EVIDENCE_FILE, queueFile = DEFAULT_QUEUE_FILE }) {
+    this.contract = contract;
+    this.sources = sources;
+    this.autoSubmit = autoSubmit;
+    this.dryRun = dryRun;
+    this.record = record;
+    this.rulesFile = rulesFile;
+    this.evidenceFile = evidenceFile;
+    this.queueFile = queueFile;
+  }
+
+  // ============ 存储 ============
+  readQueue() {
+    try {
+      return JSON.parse(fs.readFileSync(this.queueFile, 'utf8'));
+    } catch {
+      return {};
+    }
+  }
+
+  writeQueue(queue) {
+    fs.mkdirSync(path.dirname(this.queueFile), { recursive: true });
+    fs.writeFileSync(this.queueFile, `${JSON.stringify(queue, null, 2)}\n`);
+  }
+
+  recordEvidence(entry) {
+    if (!this.record) return;
+    try {
+      fs.mkdirSync(path.dirname(this.evidenceFile), { recursive: true });
+      fs.appendFileSync(this.evidenceFile, `${JSON.stringify({ timestamp: new Date().toISOString(), ...entry })}\n`);
+    } catch (error) {
+      console.error('❌ Failed to write resolution evidence:', error.message);
+    }
+  }
+
+  // ============ 决议 ============
+
+  /// 规则文件每次重新读取，改规则不用重启 Oracle
+  async process(market) {
+    const queued = this.readQueue()[market.id];
+    if (queued && (queued.status === 'pending' || queued.status === 'rejected')) {
+      console.log(`      ⏸️ ${queued.status === 'pending' ? 'Awaiting admin approval' : 'Proposal rejected, awaiting manual resolution'}`);
+      return { marketId: market.id, status: queued.status };
+    }
+
+    let selection;
+    try {
+      selection = selectResolver(market, loadRules(this.rulesFile));
+    } catch (error) {
+      console.error(`      ❌ ${error.message}`);
+      return { marketId: market.id, status: 'error', error: error.message };
+    }
+    if (!selection) {
+      console.log('      ⚠️ No resolver matched, awaiting manual resolution');
+      return { marketId: market.id, status: 'unmatched' };
+    }
+
+    const { resolver, params } = selection;
+    console.log(`      🧩 Resolver: ${resolver.name} (matched by ${selection.matchedBy}) ${JSON.stringify(params)}`);
+
+    let result;
+    try {
+      result = await resolver.resolve(market, params, this.sources);
+    } catch (error) {
+      console.error(`      ❌ ${resolver.name} failed: ${error.message}`);
+      return { marketId: market.id, status: 'error', error: error.message };
+    }
+    if (result.pending) {
+      console.log(`      ⏳ Not resolvable yet: ${result.pending}`);
+      return { marketId: market.id, status: 'waiting', reason: result.pending };
+    }
+
+    const proposal = {
+      marketId: market.id,
+      question: market.question,
+      category: market.category,
+      resolver: resolver.name,
+      matchedBy: selection.matchedBy,
+      params,
+      winnerIndex: result.winnerIndex,
+      winnerLabel: outcomeLabel(market, result.winnerIndex),
+      evidence: result.evidence,
+      sources: this.sources.mode,
+      proposedAt: new Date().toISOString(),
+    };
+    console.log(`      🎯 Proposed winner: "${proposal.winnerLabel}" (#${proposal.winnerIndex})`);
+
+    const approvalReason = !this.autoSubmit
+      ? 'Auto-submit disabled'
+      : !selection.autoSubmit
+        ? 'Rule requires approval'
+        : result.approvalReason;
+
+    return approvalReason ? this.enqueue(proposal, approvalReason) : this.submit(proposal);
+  }
+
+  enqueue(proposal, reason) {
+    const entry = { ...proposal, status: 'pending', approvalReason: reason };
+    if (this.record) {
+      this.writeQueue({ ...this.readQueue(), [proposal.marketId]: entry });
+    }
+    this.recordEvidence({ action: 'queued', ...entry });
+    console.log(`      📥 Queued for approval: ${reason}`);
+    return entry;
+  }
+
+  /// 先 staticCall 预演；dry-run 到此为止。没有钱包时以 owner 身份模拟
+  async submit(proposal) {
+    const entry = { action: 'submit', ...proposal };
+    const label = `resolveMarket(${proposal.marketId}, ${proposal.winnerIndex})`;
+
+    if (!this.contract) {
+      entry.status = 'dry-run';
+      entry.simulated = 'skipped';
+      console.log(`      🧪 ${label} (no contract, not simulated)`);
+      return entry;
+    }
+
+    try {
+      const overrides = this.contract.runner && this.contract.runner.address ? {} : { from: await this.contract.owner() };
+      await this.contract.resolveMarket.staticCall(proposal.marketId, proposal.winnerIndex, overrides);
+      entry.simulated = 'ok';
+    } catch (error) {
+      entry.simulated = 'revert';
+      entry.status = 'failed';
+      entry.error = errorMessage(error);
+      console.log(`      ⚠️ ${label} would revert: ${entry.error}`);
+      this.recordEvidence(entry);
+      return entry;
+    }
+
+    if (this.dryRun) {
+      entry.status = 'dry-run';
+      console.log(`      🧪 ${label} (dry run)`);
+      this.recordEvidence(entry);
+      return entry;
+    }
+
+    try {
+      const tx = await this.contract.resolveMarket(proposal.marketId, proposal.winnerIndex);
+      console.log(`      📤 ${label}: ${tx.hash}`);
+      const receipt = await tx.wait();
+      entry.txHash = tx.hash;
+      entry.status = receipt.status === 1 ? 'submitted' : 'failed';
+      console.log(`      ${receipt.status === 1 ? '✅' : '❌'} Market #${proposal.marketId} resolved to "${proposal.winnerLabel}" (block ${receipt.blockNumber})`);
+    } catch (error) {
+      entry.status = 'failed';
+      entry.error = errorMessage(error);
+      console.error(`      ❌ ${label} failed: ${entry.error}`);
+    }
+    this.recordEvidence(entry);
+    return entry;
+  }
+
+  // ============ 管理员审批 ============
+  listQueue(status = 'pending') {
+    return Object.values(this.readQueue()).filter(entry => !status || entry.status === status);
+  }
+
+  /// 按排队时的提案提交；失败时保留在队列里并记下原因
+  async approve(marketId) {
+    const entry = this.readQueue()[marketId];
+    if (!entry || entry.status !== 'pending') throw new Error(`No pending proposal for market #${marketId}`);
+
+    const { status, approvalReason, lastError, ...proposal } = entry;
+    const result = await this.submit(proposal);
+    if (result.status === 'dry-run') return result;
+
+    const update = result.status === 'submitted'
+      ? { status: 'approved', approvedAt: new Date().toISOString(), txHash: result.txHash }
+      : { lastError: result.error || 'Transaction failed' };
+    this.writeQueue({ ...this.readQueue(), [marketId]: { ...entry, ...update } });
+    return result;
+  }
+
+  /// 拒绝后 Oracle 不再对该市场出提案，留给管理员手动结算
+  reject(marketId, reason = 'Rejected by admin') {
+    const entry = this.readQueue()[marketId];
+    if (!entry || entry.status !== 'pending') throw new Error(`No pending proposal for market #${marketId}`);
+
+    const rejected = { ...entry, status: 'rejected', rejectedAt: new Date().toISOString(), rejectReason: reason };
+    this.writeQueue({ ...this.readQueue(), [marketId]: rejected });
+    this.recordEvidence({ action: 'rejected', ...rejected });
+    console.log(`🚫 Rejected proposal for market #${marketId}: ${reason}`);
+    return rejected;
+  }
+}
+
+module.exports = { ResolutionPipeline, toMarket };
@@ -0,0 +1,79 @@
+// resolvers/priceFeed.js
+// 价格阈值：到期时标的价格 ≥（above）或 ≤（below）阈值 → Yes，否则 No
+// "reach / hit / drop below …" 这类问题问的是期间内是否触及过，到期价格只能证明 Yes，No 需要管理员确认
+const { binaryWinner, parseAmount } = require('./outcomes');
+
+// 问题里的币种 → CoinGecko id
+const ASSETS = {
+  btc: 'bitcoin',
+  bitcoin: 'bitcoin',
+  eth: 'ethereum',
+  ethereum: 'ethereum',
+  sol: 'solana',
+  solana: 'solana',
+  bnb: 'binancecoin',
+  doge: 'dogecoin',
+  dogecoin: 'dogecoin',
+};
+
+// 例："Will BTC be above $100,000 by Friday?"、"Will ETH drop below 2.5k?"
+const QUESTION_PATTERN = /\b(btc|bitcoin|eth|ethereum|sol|solana|bnb|doge|dogecoin)\b.*?\b(above|over|exceed|exceeds|reach|reaches|hit|hits|below|under)\b\s*\$?\s*([\d,]+(?:\.\d+)?)\s*([kmb])?\b/i;
+
+// 触及型问法：期间内任意时刻满足即为 Yes
+const TOUCH_PATTERN = /\b(?:reach|reaches|hit|hits|exceed|exceeds|touch|touches|drop|drops|fall|falls|dip|dips)\b/i;
+
+function parseQuestion(question) {
+  const match = QUESTION_PATTERN.exec(question);
+  if (!match) return null;
+  const threshold = parseAmount(match[3], match[4]);
+  if (!threshold) return null;
+  return {
+    asset: match[1].toLowerCase(),
+    comparison: ['below', 'under'].includes(match[2].toLowerCase()) ? 'below' : 'above',
+    threshold,
+    touch: TOUCH_PATTERN.test(question),
+  };
+}
+
+module.exports = {
+  name: 'priceFeed',
+
+  /// 只自动匹配 crypto 分类；其他分类需要在规则文件里显式指定
+  match(market) {
+    return market.category.toLowerCase() === 'crypto' ? parseQuestion(market.question) : null;
+  },
+
+  async resolve(market, params, sources) {
+    const assetId = params.assetId || ASSETS[String(params.asset || '').toLowerCase()];
+    if (!assetId) return { pending: `Unknown asset "${params.asset}"` };
+    if (!(params.threshold > 0)) return { pending: 'Missing price threshold' };
+
+    // 结算时间点默认是市场到期时间
+    const at = params.at || market.endTime;
+    const point = await sources.prices.getPriceAt(assetId, at);
+    if (!point) return { pending: `No ${assetId} price near ${new Date(at * 1000).toISOString()}` };
+
+    const comparison = params.comparison === 'below' ? 'below' : 'above';
+    const yes = comparison === 'above' ? point.price >= params.threshold : point.price <= params.threshold;
+    const winner = binaryWinner(market, yes);
+    // 触及型问题到期时没满足，不代表期间内没触及过
+    const approvalReason = params.touch && !yes
+      ? `Touch-style question: only the price at ${new Date(at * 1000).toISOString()} was checked, confirm it never ${comparison === 'above' ? 'reached' : 'fell to'} ${params.threshold} earlier`
+      : winner.approvalReason;
+
+    return {
+      winnerIndex: winner.index,
+      evidence: {
+        assetId,
+        comparison,
+        threshold: params.threshold,
+        touch: Boolean(params.touch),
+        price: point.price,
+        targetTime: at,
+        observedAt: point.observedAt,
+        source: point.source,
+      },
+      approvalReason,
+    };
+  },
+};
@@ -0,0 +1,101 @@
+// resolvers/sources.js
+// 决议数据源：live 走外部 API，local 读 fixtures/ 下的 JSON（本地联调、回放历史市场用）
+const fs = require('fs');
+const path = require('path');
+
+const COINGECKO_API_URL = process.env.COINGECKO_API_URL || 'https://api.coingecko.com/api/v3';
+const CREATORS_API_URL = process.env.CREATORS_API_URL || 'http://localhost:3000';
+const DEFAULT_FIXTURES_DIR = path.join(__dirname, '..', 'fixtures');
+
+// 取到期时间前后这段范围内离到期最近的价格点
+const PRICE_WINDOW_SECONDS = 2 * 60 * 60;
+
+/// points: [[秒级时间戳, 价格], ...]
+function closestPoint(points, timestamp) {
+  let best = null;
+  for (const point of points) {
+    if (!best || Math.abs(point[0] - timestamp) < Math.abs(best[0] - timestamp)) best = point;
+  }
+  return best;
+}
+
+async function fetchJson(url) {
+  const res = await fetch(url, { headers: { accept: 'application/json' } });
+  if (!res.ok) throw new Error(`${res.status} ${res.statusText} from ${url}`);
+  return res.json();
+}
+
+// ============ Live ============
+function createLiveSources() {
+  return {
+    mode: 'live',
+
+    prices: {
+      async getPriceAt(assetId, timestamp) {
+        const url = `${COINGECKO_API_URL}/coins/${encodeURIComponent(assetId)}/market_chart/range`
+          + `?vs_currency=usd&from=${timestamp - PRICE_WINDOW_SECONDS}&to=${timestamp + PRICE_WINDOW_SECONDS}`;
+        const data = await fetchJson(url);
+        const points = (data.prices || []).map(([ms, price]) => [Math.floor(ms / 1000), price]);
+        const point = closestPoint(points, timestamp);
+        if (!point) return null;
+        return { assetId, price: point[1], observedAt: point[0], source: url };
+      },
+    },
+
+    creators: {
+      /// 走前端的 /api/creators，refresh=true 让它先从 Twitter 拉一次最新数据
+      async getCreator(handle) {
+        const url = `${CREATORS_API_URL}/api/creators?handle=${encodeURIComponent(handle)}&refresh=true`;
+        const data = await fetchJson(url);
+        if (!data || data._noData) return null;
+        return {
+          handle: data.handle || handle,
+          followers: Number(data.followers || 0),
+          updatedAt: data.updatedAt ? Math.floor(Number(data.updatedAt) / 1000) : null,
+          stale: Boolean(data._stale),
+          source: url,
+        };
+      },
+    },
+  };
+}
+
+// ============ Local ============
+
+/// 每次调用都重新读文件，运行中改 fixtures 立即生效
+function createLocalSources(dir = process.env.RESOLVER_FIXTURES_DIR || DEFAULT_FIXTURES_DIR) {
+  const read = file => JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8'));
+
+  return {
+    mode: 'local',
+
+    prices: {
+      async getPriceAt(assetId, timestamp) {
+        const series = read('prices.json')[assetId] || [];
+        const point = closestPoint(series, timestamp);
+        if (!point || Math.abs(point[0] - timestamp) > PRICE_WINDOW_SECONDS) return null;
+        return { assetId, price: point[1], observedAt: point[0], source: `local:${path.join(dir, 'prices.json')}` };
+      },
+    },
+
+    creators: {
+      async getCreator(handle) {
+        const creator = read('creators.json').find(c => c.handle.toLowerCase() === handle.toLowerCase());
+        if (!creator) return null;
+        return {
+          handle: creator.handle,
+          followers: Number(creator.followers || 0),
+          updatedAt: creator.updatedAt || null,
+          stale: false,
+          source: `local:${path.join(dir, 'creators.json')}`,
+        };
+      },
+    },
+  };
+}
+
+function createSources(mode) {
+  return mode === 'local' ? createLocalSources() : createLiveSources();
+}
+
+module.exports = { createSources, createLiveSources, createLocalSources, closestPoint, DEFAULT_FIXTURES_DIR };
@@ -0,0 +1,97 @@
+// 用 fixtures/ 里的替身市场和数据源跑一遍决议流程（不发交易、不写队列）
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { createLocalSources, DEFAULT_FIXTURES_DIR } = require('../resolvers/sources');
+const { ResolutionPipeline } = require('../resolvers/pipeline');
+const { binaryWinner } = require('../resolvers/outcomes');
+const priceFeed = require('../resolvers/priceFeed');
+
+const MARKETS = JSON.parse(fs.readFileSync(path.join(DEFAULT_FIXTURES_DIR, 'markets.json'), 'utf8'));
+
+// record=false 不会写文件；队列文件不存在时按空队列处理，不受本地 logs/ 影响
+const SCRATCH_DIR = path.join(os.tmpdir(), 'attention-fi-resolvers-test');
+
+function createPipeline() {
+  return new ResolutionPipeline({
+    sources: createLocalSources(DEFAULT_FIXTURES_DIR),
+    autoSubmit: true,
+    dryRun: true,
+    record: false,
+    rulesFile: path.join(DEFAULT_FIXTURES_DIR, 'resolution-rules.json'),
+    queueFile: path.join(SCRATCH_DIR, 'resolution-queue.json'),
+    evidenceFile: path.join(SCRATCH_DIR, 'resolutions.jsonl'),
+  });
+}
+
+async function resolveFixture(id) {
+  return createPipeline().process(MARKETS.find(m => m.id === id));
+}
+
+describe('binaryWinner', () => {
+  it('maps Yes / No by label regardless of order', () => {
+    const market = { id: 0, numOutcomes: 2, outcomeLabels: ['No', 'Yes'] };
+    assert.deepEqual(binaryWinner(market, true), { index: 1, approvalReason: null });
+    assert.deepEqual(binaryWinner(market, false), { index: 0, approvalReason: null });
+  });
+
+  it('asks for approval when the labels are not Yes / No', () => {
+    const winner = binaryWinner({ id: 0, numOutcomes: 2, outcomeLabels: ['Above', 'Below'] }, true);
+    assert.equal(winner.index, 0);
+    assert.match(winner.approvalReason, /not Yes \/ No/);
+  });
+
+  it('rejects markets with more than two outcomes', () => {
+    assert.throws(() => binaryWinner({ id: 5, numOutcomes: 4, outcomeLabels: ['A', 'B', 'C', 'D'] }, true));
+  });
+});
+
+describe('priceFeed question parsing', () => {
+  it('flags touch-style questions', () => {
+    assert.equal(priceFeed.match({ category: 'crypto', question: 'Will BTC hit $150k this year?' }).touch, true);
+    assert.equal(priceFeed.match({ category: 'crypto', question: 'Will ETH drop below $2.5k by the end of Q1?' }).touch, true);
+    assert.equal(priceFeed.match({ category: 'crypto', question: 'Will BTC be above $100,000 on Jan 1, 2026?' }).touch, false);
+  });
+});
+
+describe('ResolutionPipeline over fixtures', () => {
+  it('auto-resolves a price level question from the end-time price', async () => {
+    const result = await resolveFixture(0);
+    assert.equal(result.status, 'dry-run');
+    assert.equal(result.winnerLabel, 'Yes');
+    assert.equal(result.evidence.price, 100431.08);
+  });
+
+  it('queues a touch-style question that did not trigger at end time', async () => {
+    const result = await resolveFixture(1);
+    assert.equal(result.status, 'pending');
+    assert.equal(result.winnerLabel, 'No');
+    assert.match(result.approvalReason, /Touch-style/);
+  });
+
+  it('resolves follower thresholds by label, not position', async () => {
+    const below = await resolveFixture(2);
+    assert.equal(below.status, 'dry-run');
+    assert.equal(below.winnerLabel, 'No');
+
+    const reached = await resolveFixture(3);
+    assert.equal(reached.status, 'dry-run');
+    assert.equal(reached.winnerIndex, 1);
+    assert.equal(reached.winnerLabel, 'Yes');
+  });
+
+  it('follows the rules file', async () => {
+    const ruled = await resolveFixture(4);
+    assert.equal(ruled.status, 'pending');
+    assert.equal(ruled.approvalReason, 'Rule requires approval');
+
+    assert.equal((await resolveFixture(5)).status, 'unmatched');
+  });
+
+  it('waits when there is no price data', async () => {
+    const result = await resolveFixture(6);
+    assert.equal(result.status, 'waiting');
+  });
+});